@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { AccessStore, Permission, PERMISSIONS } from './access-store';
+import { ClusterAuth, ClusterAuthError, READ_HEADER } from './cluster-auth';
+
+// Who a request acts for. 'node' is a peer fetching over git smart HTTP.
+export type Principal =
+  | { type: 'anonymous' }
+  | { type: 'admin' }
+  | { type: 'user'; username: string; token_id: string }
+  | { type: 'node'; server_id: string };
+
+export interface AccessControlOptions {
+  // Bearer token with every permission; access control is only enforced
+  // when it is set
+  adminToken?: string;
+  // Verifies peers' git fetches (the X-Cluster-Read header)
+  clusterAuth?: ClusterAuth | null;
+  realm?: string;
+}
+
+const rank = (permission: Permission | null) => (permission ? PERMISSIONS.indexOf(permission) : -1);
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+// Resolves the repository a request is about (":user/:repo" by default)
+type RepoIdOf = (req: Request) => string | undefined;
+
+const repoIdFromParams: RepoIdOf = req => `${req.params.user}/${req.params.repo}`;
+
+/**
+ * Authentication with personal access tokens and per-repository
+ * permissions.
+ *
+ * A repository's owner (the first segment of its id) and the admin token
+ * have 'admin' on it; collaborators have the permission they were granted;
+ * anyone may read a public repository and peers may read every one.
+ * Without an admin token nothing is enforced and every request acts as
+ * admin, as before access control existed.
+ *
+ * Anonymous requests without enough permission get 401 with a Basic
+ * challenge, so git prompts for credentials. Authenticated callers get 404
+ * for repositories they cannot see at all and 403 otherwise.
+ */
+export class AccessControl {
+  private store: AccessStore;
+  private adminTokenHash: Buffer | null;
+  private clusterAuth: ClusterAuth | null;
+  private realm: string;
+
+  constructor(store: AccessStore, options: AccessControlOptions = {}) {
+    this.store = store;
+    this.adminTokenHash = options.adminToken ? sha256(options.adminToken) : null;
+    this.clusterAuth = options.clusterAuth ?? null;
+    this.realm = options.realm ?? 'git-replication';
+  }
+
+  isEnforced(): boolean {
+    return this.adminTokenHash !== null;
+  }
+
+  // Express middleware: sets res.locals.principal; rejects bad credentials
+  authenticate() {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (!this.isEnforced()) {
+        res.locals.principal = { type: 'admin' };
+        next();
+        return;
+      }
+
+      const principal = this.resolve(req);
+      if (!principal) {
+        this.challenge(res).status(401).json({ error: 'Invalid credentials' });
+        return;
+      }
+      res.locals.principal = principal;
+      next();
+    };
+  }
+
+  principalOf(res: Response): Principal {
+    return res.locals.principal || { type: 'anonymous' };
+  }
+
+  // Highest permission the principal has on the repository, if any
+  permission(principal: Principal, repoId: string): Permission | null {
+    if (principal.type === 'admin') {
+      return 'admin';
+    }
+    if (principal.type === 'node') {
+      return 'read';
+    }
+
+    let permission: Permission | null = null;
+    if (principal.type === 'user') {
+      if (repoId.split('/')[0] === principal.username) {
+        return 'admin';
+      }
+      permission = this.store.getCollaborators(repoId)[principal.username] || null;
+    }
+
+    // Repositories created before access control are private
+    const isPublic = this.store.getRepoAccess(repoId)?.private === false;
+    return isPublic && rank(permission) < rank('read') ? 'read' : permission;
+  }
+
+  canRead(principal: Principal, repoId: string): boolean {
+    return this.permission(principal, repoId) !== null;
+  }
+
+  // Only an owner creates repositories in their namespace
+  canCreate(principal: Principal, repoId: string): boolean {
+    return principal.type === 'admin' ||
+      (principal.type === 'user' && repoId.split('/')[0] === principal.username);
+  }
+
+  // Sends the denial and returns false unless the caller has `level`
+  authorize(res: Response, repoId: string, level: Permission): boolean {
+    const principal = this.principalOf(res);
+    const permission = this.permission(principal, repoId);
+
+    if (rank(permission) >= rank(level)) {
+      return true;
+    }
+    if (principal.type === 'anonymous') {
+      this.challenge(res).status(401).json({ error: 'Authentication required' });
+    } else if (permission === null) {
+      res.status(404).json({ error: `Repository not found: ${repoId}` });
+    } else {
+      res.status(403).json({
+        error: 'Permission denied',
+        details: `${level} access to ${repoId} required`
+      });
+    }
+    return false;
+  }
+
+  requireRepo(level: Permission | ((req: Request) => Permission), repoIdOf: RepoIdOf = repoIdFromParams) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      const repoId = repoIdOf(req);
+      if (repoId === undefined || this.authorize(res, repoId, typeof level === 'function' ? level(req) : level)) {
+        next();
+      }
+    };
+  }
+
+  // Leaves a missing repository id to the handler's validation
+  requireCreate(repoIdOf: RepoIdOf) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      const repoId = repoIdOf(req);
+      const principal = this.principalOf(res);
+
+      if (typeof repoId !== 'string' || this.canCreate(principal, repoId)) {
+        next();
+      } else if (principal.type === 'anonymous') {
+        this.challenge(res).status(401).json({ error: 'Authentication required' });
+      } else {
+        const owner = repoId.split('/')[0];
+        res.status(403).json({
+          error: 'Permission denied',
+          details: `Only ${owner} can create repositories under ${owner}/`
+        });
+      }
+    };
+  }
+
+  requireAdmin() {
+    return this.requirePrincipal(principal => principal.type === 'admin');
+  }
+
+  // The user named by :username, or the admin
+  requireSelf() {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      this.requirePrincipal(principal =>
+        principal.type === 'admin' || (principal.type === 'user' && principal.username === req.params.username)
+      )(req, res, next);
+    };
+  }
+
+  private requirePrincipal(allowed: (principal: Principal) => boolean) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      const principal = this.principalOf(res);
+      if (allowed(principal)) {
+        next();
+      } else if (principal.type === 'anonymous') {
+        this.challenge(res).status(401).json({ error: 'Authentication required' });
+      } else {
+        res.status(403).json({ error: 'Permission denied' });
+      }
+    };
+  }
+
+  // Anonymous without credentials; null for credentials that do not check out
+  private resolve(req: Request): Principal | null {
+    const peerRead = req.get(READ_HEADER);
+    if (peerRead !== undefined) {
+      try {
+        return this.clusterAuth ? { type: 'node', server_id: this.clusterAuth.verifyReadHeader(peerRead) } : null;
+      } catch (error) {
+        if (error instanceof ClusterAuthError) {
+          return null;
+        }
+        throw error;
+      }
+    }
+
+    const secret = this.credential(req.get('authorization'));
+    if (secret === undefined) {
+      return { type: 'anonymous' };
+    }
+
+    if (this.adminTokenHash && crypto.timingSafeEqual(sha256(secret), this.adminTokenHash)) {
+      return { type: 'admin' };
+    }
+    const token = this.store.findToken(secret);
+    return token ? { type: 'user', username: token.username, token_id: token.token_id } : null;
+  }
+
+  // "Bearer <token>", "token <token>" or Basic with the token as password
+  // (what git sends); the Basic username is not checked
+  private credential(header: string | undefined): string | undefined {
+    if (!header) {
+      return undefined;
+    }
+
+    const [scheme, value = ''] = header.split(' ', 2);
+    switch (scheme.toLowerCase()) {
+      case 'bearer':
+      case 'token':
+        return value;
+      case 'basic': {
+        const decoded = Buffer.from(value, 'base64').toString('utf8');
+        return decoded.slice(decoded.indexOf(':') + 1);
+      }
+      default:
+        return '';
+    }
+  }
+
+  private challenge(res: Response): Response {
+    return res.set('WWW-Authenticate', `Basic realm="${this.realm}"`);
+  }
+}
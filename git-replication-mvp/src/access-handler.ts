@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AccessControl } from './access-control';
+import { AccessStore, PERMISSIONS, Permission, hashToken, isValidUsername } from './access-store';
+import { GitServer } from './git-server';
+import { RepoStorage } from './storage';
+
+/**
+ * REST endpoints for users, personal access tokens and repository
+ * permissions. Every change goes through GitServer.writeAccess(), so it is
+ * replicated like a write; authorization is left to the routes.
+ */
+export class AccessHandler {
+  private store: AccessStore;
+  private storage: RepoStorage;
+  private gitServer: GitServer;
+  private accessControl: AccessControl;
+
+  constructor(store: AccessStore, storage: RepoStorage, gitServer: GitServer, accessControl: AccessControl) {
+    this.store = store;
+    this.storage = storage;
+    this.gitServer = gitServer;
+    this.accessControl = accessControl;
+  }
+
+  // GET /user - who the request is authenticated as
+  handleWhoAmI(req: Request, res: Response): void {
+    res.status(200).json({
+      ...this.accessControl.principalOf(res),
+      enforced: this.accessControl.isEnforced()
+    });
+  }
+
+  // POST /users { username }
+  async handleCreateUser(req: Request, res: Response): Promise<void> {
+    const { username } = req.body;
+
+    if (!isValidUsername(username)) {
+      res.status(400).json({ error: 'Invalid username' });
+      return;
+    }
+
+    await this.gitServer.writeAccess(
+      { type: 'create-user', username, at: new Date().toISOString() },
+      res,
+      201,
+      { username, created: true }
+    );
+  }
+
+  // POST /users/:username/tokens { name } - the token is only ever shown in
+  // this response; peers receive its hash
+  async handleCreateToken(req: Request, res: Response): Promise<void> {
+    const { username } = req.params;
+    const name = typeof req.body.name === 'string' ? req.body.name : '';
+
+    if (!this.store.getUser(username)) {
+      res.status(404).json({ error: `User not found: ${username}` });
+      return;
+    }
+
+    const token = `gr_${crypto.randomBytes(20).toString('hex')}`;
+    const record = {
+      token_id: uuidv4(),
+      username,
+      name,
+      token_hash: hashToken(token),
+      created_at: new Date().toISOString()
+    };
+
+    await this.gitServer.writeAccess(
+      { type: 'add-token', token: record, at: record.created_at },
+      res,
+      201,
+      { token_id: record.token_id, username, name, token, created_at: record.created_at }
+    );
+  }
+
+  // GET /users/:username/tokens
+  handleListTokens(req: Request, res: Response): void {
+    const { username } = req.params;
+
+    if (!this.store.getUser(username)) {
+      res.status(404).json({ error: `User not found: ${username}` });
+      return;
+    }
+
+    const tokens = this.store.listTokens(username).map(({ token_id, name, created_at }) => ({
+      token_id,
+      name,
+      created_at
+    }));
+    res.status(200).json({
+      tokens,
+      count: tokens.length
+    });
+  }
+
+  // DELETE /users/:username/tokens/:id
+  async handleRevokeToken(req: Request, res: Response): Promise<void> {
+    const { username, id } = req.params;
+
+    if (this.store.getToken(id)?.username !== username) {
+      res.status(404).json({ error: `Token not found: ${id}` });
+      return;
+    }
+
+    await this.gitServer.writeAccess(
+      { type: 'revoke-token', token_id: id, at: new Date().toISOString() },
+      res,
+      200,
+      { token_id: id, revoked: true }
+    );
+  }
+
+  // GET /repos/:user/:repo/collaborators
+  handleListCollaborators(req: Request, res: Response): void {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+    const collaborators = Object.entries(this.store.getCollaborators(repo_id)).map(
+      ([username, permission]) => ({ username, permission })
+    );
+
+    res.status(200).json({
+      repo_id,
+      private: this.store.getRepoAccess(repo_id)?.private ?? true,
+      collaborators,
+      count: collaborators.length
+    });
+  }
+
+  // PUT /repos/:user/:repo/collaborators/:username { permission }, and
+  // DELETE (permission null)
+  async handleSetCollaborator(req: Request, res: Response, permission: Permission | null): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+    const { username } = req.params;
+
+    if (permission !== null && !PERMISSIONS.includes(permission)) {
+      res.status(400).json({
+        error: 'Invalid permission',
+        details: `Expected one of: ${PERMISSIONS.join(', ')}`
+      });
+      return;
+    }
+    if (!(await this.storage.repoExists(repo_id))) {
+      res.status(404).json({ error: `Repository not found: ${repo_id}` });
+      return;
+    }
+    if (!this.store.getUser(username)) {
+      res.status(404).json({ error: `User not found: ${username}` });
+      return;
+    }
+
+    await this.gitServer.writeAccess(
+      { type: 'set-collaborator', repo_id, username, permission, at: new Date().toISOString() },
+      res,
+      200,
+      { repo_id, username, permission }
+    );
+  }
+}
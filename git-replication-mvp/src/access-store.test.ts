@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AccessStore, TokenRecord, hashToken } from './access-store';
+
+describe('AccessStore', () => {
+  const testDataDir = './test-data-access-store';
+  const filePath = path.join(testDataDir, 'access.json');
+  let store: AccessStore;
+
+  const token: TokenRecord = {
+    token_id: 'token-1',
+    username: 'alice',
+    name: 'laptop',
+    token_hash: hashToken('gr_secret'),
+    created_at: '2024-01-01T00:00:01.000Z'
+  };
+
+  beforeEach(async () => {
+    store = new AccessStore(filePath);
+    await store.initialize();
+    await store.apply({ type: 'create-user', username: 'alice', at: '2024-01-01T00:00:00.000Z' });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should find a token by its secret and persist it', async () => {
+    await store.apply({ type: 'add-token', token, at: token.created_at });
+
+    const reloaded = new AccessStore(filePath);
+    await reloaded.initialize();
+
+    expect(reloaded.findToken('gr_secret')).toMatchObject({ token_id: 'token-1', username: 'alice' });
+    expect(reloaded.findToken('gr_other')).toBeUndefined();
+    expect(await fs.readFile(filePath, 'utf8')).not.toContain('gr_secret');
+  });
+
+  it('should keep a revoked token revoked when its creation is replayed', async () => {
+    await store.apply({ type: 'revoke-token', token_id: 'token-1', at: '2024-01-01T00:00:02.000Z' });
+    await store.apply({ type: 'add-token', token, at: token.created_at });
+
+    expect(store.findToken('gr_secret')).toBeUndefined();
+    expect(store.listTokens('alice')).toEqual([]);
+  });
+
+  it('should let the latest change win whatever the order they arrive in', async () => {
+    const repo_id = 'alice/project';
+    await store.apply({ type: 'set-collaborator', repo_id, username: 'bob', permission: null, at: '2024-01-01T00:00:03.000Z' });
+    await store.apply({ type: 'set-collaborator', repo_id, username: 'bob', permission: 'write', at: '2024-01-01T00:00:02.000Z' });
+    await store.apply({ type: 'set-visibility', repo_id, private: false, at: '2024-01-01T00:00:02.000Z' });
+    await store.apply({ type: 'set-visibility', repo_id, private: true, at: '2024-01-01T00:00:01.000Z' });
+
+    expect(store.getCollaborators(repo_id)).toEqual({});
+    expect(store.getRepoAccess(repo_id)?.private).toBe(false);
+  });
+
+  it('should move permissions with a renamed repository', async () => {
+    await store.apply({ type: 'reset-repo', repo_id: 'alice/old', private: true, at: '2024-01-01T00:00:01.000Z' });
+    await store.apply({ type: 'set-collaborator', repo_id: 'alice/old', username: 'bob', permission: 'read', at: '2024-01-01T00:00:02.000Z' });
+    await store.apply({ type: 'rename-repo', repo_id: 'alice/old', target_repo_id: 'carol/new', at: '2024-01-01T00:00:03.000Z' });
+
+    expect(store.getRepoAccess('alice/old')).toBeUndefined();
+    expect(store.getCollaborators('carol/new')).toEqual({ bob: 'read' });
+  });
+
+  it('should explain why a change cannot be made', () => {
+    expect(store.check({ type: 'create-user', username: 'alice', at: '' })).toBe('User already exists: alice');
+    expect(store.check({ type: 'create-user', username: '../x', at: '' })).toBe('Invalid username: ../x');
+    expect(store.check({ type: 'revoke-token', token_id: 'missing', at: '' })).toBe('Token not found: missing');
+    expect(
+      store.check({ type: 'set-collaborator', repo_id: 'alice/project', username: 'bob', permission: 'read', at: '' })
+    ).toBe('User not found: bob');
+  });
+});
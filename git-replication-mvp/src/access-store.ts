@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { RepoStorage } from './storage';
+
+// Pseudo repository id access changes replicate under: they lock it, and
+// conflict with each other in prepare, like writes to one repository
+export const ACCESS_REPO_ID = '.access';
+
+export type Permission = 'read' | 'write' | 'admin';
+
+export const PERMISSIONS: Permission[] = ['read', 'write', 'admin'];
+
+export interface UserRecord {
+  username: string;
+  created_at: string;
+}
+
+// Only the SHA-256 of a token is stored, and replicated
+export interface TokenRecord {
+  token_id: string;
+  username: string;
+  name: string;
+  token_hash: string;
+  created_at: string;
+  revoked_at?: string; // Kept, so a replayed creation cannot bring it back
+}
+
+export interface RepoAccess {
+  private: boolean;
+  // null: removed; kept with its timestamp like any other value
+  collaborators: Record<string, { permission: Permission | null; updated_at: string }>;
+  updated_at: string;
+}
+
+/**
+ * A replicated change to users, tokens or repository permissions. `at` is
+ * the coordinator's clock; a change never overwrites a value set by a
+ * later one, so peers' journals can replay in any order.
+ */
+export type AccessChange =
+  | { type: 'create-user'; username: string; at: string }
+  | { type: 'add-token'; token: TokenRecord; at: string }
+  | { type: 'revoke-token'; token_id: string; at: string }
+  | { type: 'set-visibility'; repo_id: string; private: boolean; at: string }
+  | { type: 'set-collaborator'; repo_id: string; username: string; permission: Permission | null; at: string }
+  // With a repository's create and rename
+  | { type: 'reset-repo'; repo_id: string; private: boolean; at: string }
+  | { type: 'rename-repo'; repo_id: string; target_repo_id: string; at: string };
+
+interface AccessState {
+  users: Record<string, UserRecord>;
+  tokens: Record<string, TokenRecord>;
+  repos: Record<string, RepoAccess>;
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isValidUsername(username: unknown): username is string {
+  return typeof username === 'string' && /^[\w-][\w.-]*$/.test(username) && username.length <= 64;
+}
+
+/**
+ * Users, personal access tokens and per-repository permissions, kept in
+ * one JSON file per node (written to a temp file, then renamed). Changes
+ * arrive through 2PC, catch-up or bootstrap and are applied in any order:
+ * every value keeps the time it was set and only a later change replaces
+ * it.
+ */
+export class AccessStore {
+  private filePath: string;
+  private state: AccessState = { users: {}, tokens: {}, repos: {} };
+  // token hash -> token id
+  private tokensByHash: Map<string, string> = new Map();
+  // Serializes writes of the state file
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      this.state = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    this.indexTokens();
+  }
+
+  getUser(username: string): UserRecord | undefined {
+    return this.state.users[username];
+  }
+
+  // Live (not revoked) tokens of a user
+  listTokens(username: string): TokenRecord[] {
+    return Object.values(this.state.tokens).filter(
+      token => token.username === username && !token.revoked_at
+    );
+  }
+
+  getToken(tokenId: string): TokenRecord | undefined {
+    const token = this.state.tokens[tokenId];
+    return token && !token.revoked_at ? token : undefined;
+  }
+
+  // The live token with this secret, if any
+  findToken(secret: string): TokenRecord | undefined {
+    const tokenId = this.tokensByHash.get(hashToken(secret));
+    return tokenId ? this.getToken(tokenId) : undefined;
+  }
+
+  // Undefined for a repository created without access control
+  getRepoAccess(repoId: string): RepoAccess | undefined {
+    return this.state.repos[repoId];
+  }
+
+  getCollaborators(repoId: string): Record<string, Permission> {
+    const collaborators: Record<string, Permission> = {};
+    for (const [username, entry] of Object.entries(this.state.repos[repoId]?.collaborators || {})) {
+      if (entry.permission) {
+        collaborators[username] = entry.permission;
+      }
+    }
+    return collaborators;
+  }
+
+  // Why the change cannot be made here, or undefined if it can
+  check(change: AccessChange): string | undefined {
+    switch (change.type) {
+      case 'create-user':
+        if (!isValidUsername(change.username)) {
+          return `Invalid username: ${change.username}`;
+        }
+        return this.state.users[change.username] ? `User already exists: ${change.username}` : undefined;
+      case 'add-token':
+        if (!this.state.users[change.token.username]) {
+          return `User not found: ${change.token.username}`;
+        }
+        return this.state.tokens[change.token.token_id] ? `Token already exists: ${change.token.token_id}` : undefined;
+      case 'revoke-token':
+        return this.getToken(change.token_id) ? undefined : `Token not found: ${change.token_id}`;
+      case 'set-collaborator':
+        if (change.permission !== null && !PERMISSIONS.includes(change.permission)) {
+          return `Invalid permission: ${change.permission}`;
+        }
+        return this.state.users[change.username] ? undefined : `User not found: ${change.username}`;
+      case 'set-visibility':
+      case 'reset-repo':
+        return RepoStorage.isValidRepoId(change.repo_id) ? undefined : `Invalid repository: ${change.repo_id}`;
+      case 'rename-repo':
+        return RepoStorage.isValidRepoId(change.target_repo_id)
+          ? undefined
+          : `Invalid repository: ${change.target_repo_id}`;
+      default:
+        return `Unknown access change: ${(change as any).type}`;
+    }
+  }
+
+  // Idempotent; changes older than the value they would replace are ignored
+  async apply(change: AccessChange): Promise<void> {
+    const { users, tokens, repos } = this.state;
+
+    switch (change.type) {
+      case 'create-user':
+        if (!users[change.username]) {
+          users[change.username] = { username: change.username, created_at: change.at };
+        }
+        break;
+      case 'add-token':
+        if (!tokens[change.token.token_id]) {
+          tokens[change.token.token_id] = { ...change.token };
+        }
+        break;
+      case 'revoke-token': {
+        // Revoked before its creation arrived here: the tombstone blocks it
+        const token = tokens[change.token_id] ||
+          { token_id: change.token_id, username: '', name: '', token_hash: '', created_at: '' };
+        tokens[change.token_id] = { ...token, revoked_at: token.revoked_at || change.at };
+        break;
+      }
+      case 'set-visibility': {
+        const repo = this.repoFor(change.repo_id);
+        if (repo.updated_at <= change.at) {
+          repo.private = change.private;
+          repo.updated_at = change.at;
+        }
+        break;
+      }
+      case 'set-collaborator': {
+        const repo = this.repoFor(change.repo_id);
+        const current = repo.collaborators[change.username];
+        if (!current || current.updated_at <= change.at) {
+          repo.collaborators[change.username] = { permission: change.permission, updated_at: change.at };
+        }
+        break;
+      }
+      case 'reset-repo': {
+        const current = repos[change.repo_id];
+        if (!current || current.updated_at <= change.at) {
+          repos[change.repo_id] = { private: change.private, collaborators: {}, updated_at: change.at };
+        }
+        break;
+      }
+      case 'rename-repo': {
+        // Drops whatever a repository deleted under the new id left behind
+        const current = repos[change.repo_id];
+        if (current) {
+          repos[change.target_repo_id] = current;
+        } else {
+          delete repos[change.target_repo_id];
+        }
+        delete repos[change.repo_id];
+        break;
+      }
+    }
+
+    this.indexTokens();
+    await this.save();
+  }
+
+  // A repository without access settings yet is private
+  private repoFor(repoId: string): RepoAccess {
+    if (!this.state.repos[repoId]) {
+      this.state.repos[repoId] = { private: true, collaborators: {}, updated_at: '' };
+    }
+    return this.state.repos[repoId];
+  }
+
+  private indexTokens(): void {
+    this.tokensByHash = new Map(
+      Object.values(this.state.tokens)
+        .filter(token => !token.revoked_at)
+        .map(token => [token.token_hash, token.token_id])
+    );
+  }
+
+  private save(): Promise<void> {
+    const contents = JSON.stringify(this.state);
+    // A failed write does not stop later ones; they carry the whole state
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, contents);
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.saving;
+  }
+}
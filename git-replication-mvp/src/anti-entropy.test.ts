@@ -0,0 +1,197 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { AntiEntropy, RepairRecord } from './anti-entropy';
+import { runGit } from './git-command';
+import { LocalLockBackend, LockTable } from './repo-lock';
+import { ReplicationHandler } from './replication-handler';
+import { RepoStorage } from './storage';
+import { createCommitPack } from './test-helpers';
+import { TransactionLog } from './transaction-log';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AntiEntropy', () => {
+  const testDataDir = './test-data-anti-entropy';
+  const workDir = './test-data-anti-entropy-work';
+  // Peers are addressed by path; git fetches from them like from a URL
+  const peerDirs = [path.resolve(testDataDir, 'peer-1'), path.resolve(testDataDir, 'peer-2')];
+  const localDir = path.join(testDataDir, 'local');
+  let commit: string;
+  let storage: RepoStorage;
+  let handler: ReplicationHandler;
+  let peers: Map<string, AntiEntropy>;
+
+  const createChecker = async (options = {}) => {
+    const checker = new AntiEntropy(
+      'server-1',
+      storage,
+      handler,
+      peerDirs,
+      new TransactionLog<RepairRecord>(path.join(localDir, '.txlog', 'repairs.log')),
+      options
+    );
+    await checker.initialize();
+    return checker;
+  };
+
+  // A repository with main at the test commit, on the given servers
+  const seed = async (repoId: string, dirs: string[]) => {
+    for (const dir of dirs) {
+      const dirStorage = new RepoStorage(dir);
+      await dirStorage.createRepo(repoId);
+      await runGit(['-C', workDir, 'push', '-q', path.resolve(dirStorage.getRepoPath(repoId)), 'main']);
+    }
+  };
+
+  beforeAll(async () => {
+    ({ commit } = await createCommitPack(workDir));
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    storage = new RepoStorage(localDir);
+    await storage.initialize();
+    handler = new ReplicationHandler('server-1', storage);
+
+    // Each peer answers digest requests from its own data directory
+    peers = new Map(peerDirs.map((dir, index) => {
+      const peerStorage = new RepoStorage(dir);
+      return [dir, new AntiEntropy(`server-${index + 2}`, peerStorage, new ReplicationHandler('peer', peerStorage), [])];
+    }));
+    mockedAxios.get.mockImplementation(async (url: string) => {
+      const dir = peerDirs.find(peerDir => url.startsWith(`${peerDir}/`))!;
+      const bucket = url.slice(`${dir}/replicate/digest`.length + 1);
+      const peer = peers.get(dir)!;
+      return { data: bucket ? await peer.getBucketDigest(bucket) : await peer.getDigest() };
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should only compare root digests while replicas agree', async () => {
+    await seed('alice/project', [localDir, ...peerDirs]);
+
+    const status = await (await createChecker()).runOnce();
+
+    expect(status).toMatchObject({ peers_compared: 2, differences: [] });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.get).toHaveBeenCalledWith(`${peerDirs[0]}/replicate/digest`, expect.any(Object));
+  });
+
+  it('should copy a repository the majority has once the difference persists', async () => {
+    await seed('alice/project', peerDirs);
+    const checker = await createChecker();
+
+    const first = await checker.runOnce();
+    expect(first.differences).toEqual([
+      expect.objectContaining({ repo_id: 'alice/project', status: 'suspect' })
+    ]);
+    expect(first.differences[0].versions['server-1']).toBeNull();
+    expect(await storage.repoExists('alice/project')).toBe(false);
+
+    const second = await checker.runOnce();
+    expect(second.differences[0].status).toBe('repaired');
+    expect((await storage.listRefs('alice/project')).get('refs/heads/main')).toBe(commit);
+    expect(checker.getRepairs()).toEqual([
+      expect.objectContaining({ repo_id: 'alice/project', action: 'copy', status: 'repaired', from_digest: null })
+    ]);
+
+    expect((await checker.runOnce()).differences).toEqual([]);
+  });
+
+  it('should move a repository the majority does not have to the trash', async () => {
+    await seed('alice/project', [localDir]);
+    const checker = await createChecker();
+
+    await checker.runOnce();
+    await checker.runOnce();
+
+    expect(await storage.repoExists('alice/project')).toBe(false);
+    const [repair] = checker.getRepairs();
+    expect(repair).toMatchObject({ action: 'remove', to_digest: null, status: 'repaired' });
+    expect(await storage.getTrashEntry(repair.trash_id!)).toMatchObject({ repo_id: 'alice/project' });
+  });
+
+  it('should replace a copy with missing objects', async () => {
+    await seed('alice/project', [localDir, ...peerDirs]);
+    const objectPath = path.join(storage.getRepoPath('alice/project'), 'objects', commit.slice(0, 2), commit.slice(2));
+    await fs.rm(objectPath);
+
+    const checker = await createChecker();
+    const first = await checker.runOnce();
+    expect(first.differences[0].versions['server-1']).toMatch(/^incomplete:/);
+
+    await checker.runOnce();
+    await storage.verifyRepo('alice/project');
+    expect(checker.getRepairs()[0]).toMatchObject({ action: 'copy', status: 'repaired', source: peerDirs[0] });
+  });
+
+  it('should leave a copy in the majority alone', async () => {
+    await seed('alice/project', [localDir, peerDirs[0]]);
+    const checker = await createChecker();
+
+    await checker.runOnce();
+    const status = await checker.runOnce();
+
+    expect(status.differences).toEqual([
+      expect.objectContaining({ repo_id: 'alice/project', status: 'in-majority' })
+    ]);
+    expect(checker.getRepairs()).toEqual([]);
+  });
+
+  it('should not repair without a majority of all servers', async () => {
+    await seed('alice/project', [localDir]);
+    const servePeers = mockedAxios.get.getMockImplementation()!;
+    mockedAxios.get.mockImplementation(async (url: string, config?: any) => {
+      if (url.startsWith(peerDirs[1])) {
+        throw new Error('connect ECONNREFUSED');
+      }
+      return servePeers(url, config);
+    });
+    const checker = await createChecker();
+
+    await checker.runOnce();
+    const status = await checker.runOnce();
+
+    expect(status).toMatchObject({
+      peers_compared: 1,
+      last_error: `${peerDirs[1]}: connect ECONNREFUSED`
+    });
+    expect(status.differences[0].status).toBe('no-majority');
+    expect(await storage.repoExists('alice/project')).toBe(true);
+  });
+
+  it('should wait while a write holds the repository', async () => {
+    await seed('alice/project', peerDirs);
+    const table = new LockTable();
+    table.tryAcquire('alice/project', 'server-3', 'lease-1', 60000);
+    const checker = await createChecker({ lockBackend: new LocalLockBackend('server-1', table) });
+
+    await checker.runOnce();
+    const status = await checker.runOnce();
+
+    expect(status.differences[0].status).toBe('skipped');
+    expect(await storage.repoExists('alice/project')).toBe(false);
+
+    table.release('alice/project', 'lease-1');
+    expect((await checker.runOnce()).differences[0].status).toBe('repaired');
+  });
+
+  it('should skip passes until this node is in sync', async () => {
+    handler.setOutOfQuorum('catching up');
+
+    const status = await (await createChecker()).runOnce();
+
+    expect(status.last_error).toBe('skipped: not in sync');
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,536 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { RepoStorage } from './storage';
+import { ReplicationHandler } from './replication-handler';
+import { LockBackend, RepositoryBusyError } from './repo-lock';
+import { TransactionLog } from './transaction-log';
+import { RepoCatalog } from './repo-catalog';
+import { logger } from './logger';
+
+// Repositories are spread over 16 buckets by the first hex digit of the
+// hash of their id
+const BUCKETS = '0123456789abcdef'.split('');
+
+// Digest prefix of a repository with objects missing; never a repair target
+const INCOMPLETE = 'incomplete:';
+
+export interface Digest {
+  server_id: string;
+  root: string;
+  buckets: Record<string, string>; // Non-empty buckets only
+}
+
+export interface BucketDigest {
+  bucket: string;
+  repos: Record<string, string>;
+}
+
+export type DifferenceStatus =
+  | 'in-majority' // This copy is the majority version; the others repair themselves
+  | 'suspect' // Seen once; repaired if still different on the next pass
+  | 'repaired'
+  | 'failed'
+  | 'skipped' // A write is in progress
+  | 'no-majority';
+
+export interface RepoDifference {
+  repo_id: string;
+  versions: Record<string, string | null>; // Server id or peer URL -> digest, null when missing
+  majority?: string | null;
+  status: DifferenceStatus;
+  details?: string;
+}
+
+export interface RepairRecord {
+  transaction_id: string; // Repair id
+  repo_id: string;
+  action: 'copy' | 'remove';
+  from_digest: string | null;
+  to_digest: string | null;
+  source?: string; // Peer copied from
+  trash_id?: string; // Where a removed or damaged copy went
+  status: 'repaired' | 'failed';
+  error?: string;
+  repaired_at: string;
+}
+
+export interface AntiEntropyStatus {
+  last_run?: string;
+  last_error?: string;
+  peers_compared: number;
+  differences: RepoDifference[];
+  repairs: number; // Since startup
+}
+
+export interface AntiEntropyOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+  // Peers not worth comparing against (down or catching up)
+  isAvailable?: (peerUrl: string) => boolean;
+  // Repairs hold the repository's lease so no write lands mid-copy
+  lockBackend?: LockBackend;
+  // Follows the repositories repairs add, change or remove
+  catalog?: RepoCatalog;
+}
+
+interface PeerView {
+  peerUrl: string;
+  digest: Digest;
+  repos: Map<string, string>; // Repositories in the buckets that differ
+}
+
+/**
+ * Background consistency check between replicas.
+ *
+ * Each pass compares Merkle-style digests with every peer: the root digest
+ * first, then only the buckets whose digests differ, then only the
+ * repositories in those buckets. A repository's digest covers its refs;
+ * ref tips name the roots of git's own hash tree, so equal refs mean equal
+ * objects as long as every reachable object is present. Presence is
+ * checked with an object walk, redone only when the refs change.
+ *
+ * Each node repairs only its own copy, towards the version a majority of
+ * all servers (self included) hold: copied from a peer that has it, or
+ * moved to the trash when the majority has no such repository. A
+ * difference must be seen on two passes in a row before it is repaired,
+ * so writes still being committed around the cluster are left alone.
+ * Every repair is appended to the repair log.
+ */
+export class AntiEntropy {
+  private serverId: string;
+  private storage: RepoStorage;
+  private handler: ReplicationHandler;
+  private peerUrls: string[];
+  private repairLog: TransactionLog<RepairRecord> | null;
+  private intervalMs: number;
+  private timeoutMs: number;
+  private isAvailable: (peerUrl: string) => boolean;
+  private lockBackend: LockBackend | null;
+  private catalog: RepoCatalog | null;
+  // Completeness of each repository, keyed on its refs digest
+  private checked: Map<string, { refs: string; complete: boolean }> = new Map();
+  // Differences seen on the last pass: repo id -> "local -> majority"
+  private suspects: Map<string, string> = new Map();
+  private differences: RepoDifference[] = [];
+  private peersCompared = 0;
+  private repairs = 0;
+  private lastRun?: string;
+  private lastError?: string;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<AntiEntropyStatus> | null = null;
+
+  constructor(
+    serverId: string,
+    storage: RepoStorage,
+    handler: ReplicationHandler,
+    peerUrls: string[],
+    repairLog: TransactionLog<RepairRecord> | null = null,
+    options: AntiEntropyOptions = {}
+  ) {
+    this.serverId = serverId;
+    this.storage = storage;
+    this.handler = handler;
+    this.peerUrls = peerUrls;
+    this.repairLog = repairLog;
+    this.intervalMs = options.intervalMs ?? 60000;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.isAvailable = options.isAvailable ?? (() => true);
+    this.lockBackend = options.lockBackend ?? null;
+    this.catalog = options.catalog ?? null;
+  }
+
+  async initialize(): Promise<void> {
+    await this.repairLog?.load();
+  }
+
+  start(): void {
+    if (this.timer || this.peerUrls.length === 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error('anti-entropy.failed', `Anti-entropy pass failed: ${error.message}`);
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Follow a membership change; start() again once there are peers
+  setPeers(peerUrls: string[]): void {
+    this.peerUrls = peerUrls;
+  }
+
+  getStatus(): AntiEntropyStatus {
+    return {
+      last_run: this.lastRun,
+      last_error: this.lastError,
+      peers_compared: this.peersCompared,
+      differences: this.differences,
+      repairs: this.repairs
+    };
+  }
+
+  // Oldest first
+  getRepairs(): RepairRecord[] {
+    return (this.repairLog?.values() || []).sort((a, b) => a.repaired_at.localeCompare(b.repaired_at));
+  }
+
+  // One comparison (and repair) pass; concurrent callers share it
+  runOnce(): Promise<AntiEntropyStatus> {
+    if (!this.running) {
+      this.running = this.check().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async getDigest(): Promise<Digest> {
+    return this.summarize(await this.digestRepos());
+  }
+
+  async getBucketDigest(bucket: string): Promise<BucketDigest> {
+    const repos = (await this.digestRepos(bucket)).get(bucket) || new Map();
+    return { bucket, repos: Object.fromEntries(repos) };
+  }
+
+  async handleDigest(req: Request, res: Response): Promise<void> {
+    try {
+      res.status(200).json(await this.getDigest());
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to compute digest',
+        details: error.message
+      });
+    }
+  }
+
+  async handleBucketDigest(req: Request, res: Response): Promise<void> {
+    const { bucket } = req.params;
+
+    if (!BUCKETS.includes(bucket)) {
+      res.status(400).json({ error: 'Invalid bucket' });
+      return;
+    }
+
+    try {
+      res.status(200).json(await this.getBucketDigest(bucket));
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to compute digest',
+        details: error.message
+      });
+    }
+  }
+
+  private async check(): Promise<AntiEntropyStatus> {
+    this.lastRun = new Date().toISOString();
+    this.lastError = undefined;
+
+    // Catch-up owns the repositories until this node is back in sync
+    if (!this.handler.isInQuorum()) {
+      this.lastError = 'skipped: not in sync';
+      return this.getStatus();
+    }
+
+    const local = await this.digestRepos();
+    const localDigest = this.summarize(local);
+    const errors: string[] = [];
+    const views: PeerView[] = [];
+
+    for (const peerUrl of this.peerUrls.filter(peerUrl => this.isAvailable(peerUrl))) {
+      try {
+        views.push(await this.fetchView(peerUrl, localDigest, local));
+      } catch (error: any) {
+        errors.push(`${peerUrl}: ${error.message}`);
+      }
+    }
+
+    // Every repository in a bucket some peer sees differently
+    const differing = new Set(views.flatMap(view => differingBuckets(localDigest, view.digest)));
+    const repoIds = new Set<string>();
+    for (const repos of [...local.values(), ...views.map(view => view.repos)]) {
+      repos.forEach((_, repoId) => {
+        if (differing.has(bucketOf(repoId))) {
+          repoIds.add(repoId);
+        }
+      });
+    }
+
+    const busy = new Set<string>();
+    for (const transaction of this.handler.getPreparedTransactions()) {
+      busy.add(transaction.repo_id);
+      if (transaction.target_repo_id) {
+        busy.add(transaction.target_repo_id);
+      }
+    }
+
+    const differences: RepoDifference[] = [];
+    const suspects = new Map<string, string>();
+
+    for (const repoId of Array.from(repoIds).sort()) {
+      const mine = local.get(bucketOf(repoId))?.get(repoId) ?? null;
+      const versions: Record<string, string | null> = { [this.serverId]: mine };
+      for (const view of views) {
+        versions[view.peerUrl] = view.repos.get(repoId) ?? null;
+      }
+      if (new Set(Object.values(versions)).size === 1) {
+        continue;
+      }
+
+      const majority = this.findMajority(Object.values(versions));
+      const difference: RepoDifference = { repo_id: repoId, versions, majority, status: 'no-majority' };
+      differences.push(difference);
+
+      if (majority === undefined) {
+        continue;
+      }
+      if (majority === mine) {
+        difference.status = 'in-majority';
+        continue;
+      }
+      if (busy.has(repoId)) {
+        difference.status = 'skipped';
+        difference.details = 'transaction in progress';
+        continue;
+      }
+
+      const key = `${mine} -> ${majority}`;
+      if (this.suspects.get(repoId) !== key) {
+        difference.status = 'suspect';
+        suspects.set(repoId, key);
+        continue;
+      }
+
+      const sources = views.filter(view => view.repos.get(repoId) === majority).map(view => view.peerUrl);
+      try {
+        const record = await this.repair(repoId, mine, majority, sources);
+        difference.status = record.status;
+        difference.details = record.error;
+      } catch (error: any) {
+        if (!(error instanceof RepositoryBusyError)) {
+          throw error;
+        }
+        // A write holds the repository; look again next pass
+        difference.status = 'skipped';
+        difference.details = error.message;
+        suspects.set(repoId, key);
+      }
+    }
+
+    this.suspects = suspects;
+    this.differences = differences;
+    this.peersCompared = views.length;
+    if (errors.length > 0) {
+      this.lastError = errors.join('; ');
+    }
+    return this.getStatus();
+  }
+
+  private summarize(local: Map<string, Map<string, string>>): Digest {
+    const buckets: Record<string, string> = {};
+    for (const [bucket, repos] of local) {
+      buckets[bucket] = hashEntries(repos);
+    }
+    return { server_id: this.serverId, root: hashEntries(new Map(Object.entries(buckets))), buckets };
+  }
+
+  // The peer's digest, plus its repositories in the buckets that differ
+  private async fetchView(
+    peerUrl: string,
+    localDigest: Digest,
+    local: Map<string, Map<string, string>>
+  ): Promise<PeerView> {
+    const { data: digest } = await axios.get<Digest>(`${peerUrl}/replicate/digest`, { timeout: this.timeoutMs });
+    const repos = new Map<string, string>();
+
+    if (digest.root !== localDigest.root) {
+      for (const bucket of differingBuckets(localDigest, digest)) {
+        const { data } = await axios.get<BucketDigest>(
+          `${peerUrl}/replicate/digest/${bucket}`,
+          { timeout: this.timeoutMs }
+        );
+        Object.entries(data.repos).forEach(([repoId, repoDigest]) => repos.set(repoId, repoDigest));
+      }
+    }
+
+    // Buckets that match hold the same repositories as here
+    for (const [bucket, bucketRepos] of local) {
+      if (digest.buckets[bucket] === localDigest.buckets[bucket]) {
+        bucketRepos.forEach((repoDigest, repoId) => repos.set(repoId, repoDigest));
+      }
+    }
+
+    return { peerUrl, digest, repos };
+  }
+
+  // The version held by more than half of all servers, if any. Servers that
+  // did not answer count against every version.
+  private findMajority(versions: (string | null)[]): string | null | undefined {
+    const servers = 1 + this.peerUrls.length;
+    const counts = new Map<string | null, number>();
+    for (const version of versions) {
+      counts.set(version, (counts.get(version) || 0) + 1);
+    }
+
+    for (const [version, count] of counts) {
+      if (count * 2 > servers && !version?.startsWith(INCOMPLETE)) {
+        return version;
+      }
+    }
+    return undefined;
+  }
+
+  private async repair(
+    repoId: string,
+    from: string | null,
+    to: string | null,
+    sources: string[]
+  ): Promise<RepairRecord> {
+    const lease = await this.lockBackend?.acquire(repoId);
+    const record: RepairRecord = {
+      transaction_id: `anti-entropy-${uuidv4()}`,
+      repo_id: repoId,
+      action: to === null ? 'remove' : 'copy',
+      from_digest: from,
+      to_digest: to,
+      status: 'repaired',
+      repaired_at: ''
+    };
+
+    try {
+      if (to === null) {
+        // Kept in the trash, so the copy can still be looked at
+        record.trash_id = record.transaction_id;
+        await this.storage.trashRepo(repoId, record.trash_id);
+      } else {
+        await this.copyFrom(repoId, to, sources, record);
+      }
+      await this.catalog?.sync(repoId);
+    } catch (error: any) {
+      record.status = 'failed';
+      record.error = error.message;
+    } finally {
+      if (lease) {
+        await this.lockBackend?.release(lease).catch(error => {
+          logger.warn('lock.release-failed', `Failed to release lock on ${repoId}: ${error.message}`, { repo_id: repoId });
+        });
+      }
+    }
+
+    record.repaired_at = new Date().toISOString();
+    await this.repairLog?.append(record);
+    this.repairs++;
+
+    const fields = {
+      transaction_id: record.transaction_id,
+      repo_id: repoId,
+      action: record.action,
+      from_digest: from,
+      to_digest: to,
+      source: record.source
+    };
+    if (record.status === 'repaired') {
+      logger.info('anti-entropy.repair', `Anti-entropy ${record.action} of ${repoId}`, fields);
+    } else {
+      logger.warn('anti-entropy.repair', `Anti-entropy ${record.action} of ${repoId} failed: ${record.error}`, fields);
+    }
+    return record;
+  }
+
+  // Mirror the repository from the first peer whose copy still matches.
+  // A copy with objects missing is set aside in the trash and replaced:
+  // fetching into it would skip objects its refs claim it already has.
+  private async copyFrom(repoId: string, digest: string, sources: string[], record: RepairRecord): Promise<void> {
+    if (record.from_digest?.startsWith(INCOMPLETE)) {
+      record.trash_id = record.transaction_id;
+      await this.storage.trashRepo(repoId, record.trash_id);
+    }
+    if (!(await this.storage.repoExists(repoId))) {
+      await this.storage.createRepo(repoId);
+    }
+
+    const errors: string[] = [];
+    for (const peerUrl of sources) {
+      try {
+        await this.storage.mirrorFetch(repoId, `${peerUrl}/${repoId}.git`);
+        await this.storage.verifyRepo(repoId);
+        this.checked.delete(repoId);
+        const copied = await this.digestRepo(repoId);
+        if (copied !== digest) {
+          throw new Error(`copy has digest ${copied}`);
+        }
+        record.source = peerUrl;
+        return;
+      } catch (error: any) {
+        errors.push(`${peerUrl}: ${error.message}`);
+      }
+    }
+    throw new Error(errors.join('; ') || 'no peer holds the majority version');
+  }
+
+  // bucket -> repo id -> digest, for every bucket or just the one asked for
+  private async digestRepos(only?: string): Promise<Map<string, Map<string, string>>> {
+    const buckets = new Map<string, Map<string, string>>();
+    const repoIds = await this.storage.listRepos();
+
+    for (const repoId of repoIds) {
+      const bucket = bucketOf(repoId);
+      if (only && bucket !== only) {
+        continue;
+      }
+      if (!buckets.has(bucket)) {
+        buckets.set(bucket, new Map());
+      }
+      buckets.get(bucket)!.set(repoId, await this.digestRepo(repoId));
+    }
+
+    // Forget repositories that are gone
+    for (const repoId of this.checked.keys()) {
+      if (!repoIds.includes(repoId)) {
+        this.checked.delete(repoId);
+      }
+    }
+    return buckets;
+  }
+
+  private async digestRepo(repoId: string): Promise<string> {
+    const refs = hashEntries(await this.storage.listRefs(repoId));
+
+    let checked = this.checked.get(repoId);
+    if (checked?.refs !== refs) {
+      const complete = await this.storage.listObjects(repoId).then(() => true, () => false);
+      checked = { refs, complete };
+      this.checked.set(repoId, checked);
+    }
+    return checked.complete ? refs : `${INCOMPLETE}${refs}`;
+  }
+}
+
+function bucketOf(repoId: string): string {
+  return crypto.createHash('sha256').update(repoId).digest('hex')[0];
+}
+
+function differingBuckets(a: Digest, b: Digest): string[] {
+  return BUCKETS.filter(bucket => a.buckets[bucket] !== b.buckets[bucket]);
+}
+
+// Digest of "key value" lines in key order
+function hashEntries(entries: Map<string, string>): string {
+  const lines = Array.from(entries).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const hash = crypto.createHash('sha256');
+  for (const [key, value] of lines) {
+    hash.update(`${key} ${value}\n`);
+  }
+  return hash.digest('hex');
+}
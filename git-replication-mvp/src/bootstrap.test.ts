@@ -0,0 +1,192 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { Bootstrapper } from './bootstrap';
+import { runGit } from './git-command';
+import { ClusterMembership, MEMBERSHIP_REPO_ID } from './membership';
+import { ReplicationJournal } from './replication-journal';
+import { RepoStorage, ZERO_SHA } from './storage';
+import { createCommitPack } from './test-helpers';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Bootstrapper', () => {
+  const testDataDir = './test-data-bootstrap';
+  const workDir = './test-data-bootstrap-work';
+  // Peers are addressed by path; git fetches from them like from a URL
+  const peerDir = path.resolve(testDataDir, 'peer');
+  const localDir = path.join(testDataDir, 'local');
+  const progressPath = path.join(localDir, '.txlog', 'bootstrap.json');
+  let commit: string;
+  let peerStorage: RepoStorage;
+  let peerJournal: ReplicationJournal;
+  let storage: RepoStorage;
+  let journal: ReplicationJournal;
+
+  beforeAll(async () => {
+    ({ commit } = await createCommitPack(workDir));
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    peerStorage = new RepoStorage(peerDir);
+    await peerStorage.createRepo('alice/project');
+    await peerStorage.createRepo('bob/empty');
+    await runGit(['-C', workDir, 'push', '-q', peerStorage.getRepoPath('alice/project'), 'main', 'main:feature']);
+    peerJournal = new ReplicationJournal(path.join(peerDir, '.txlog', 'journal.log'));
+    await peerJournal.initialize();
+    await peerJournal.record({ transaction_id: 'txn-1', repo_id: 'alice/project', operation: 'create' });
+    await peerJournal.record({
+      transaction_id: 'txn-2',
+      repo_id: 'alice/project',
+      operation: 'push',
+      updates: [{ ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: commit }]
+    });
+
+    mockedAxios.get.mockImplementation(async (url: string, config: any) => {
+      if (url === `${peerDir}/replicate/repos`) {
+        const repos = config.params.page === 1 ? await peerStorage.listRepos() : [];
+        return { data: { repos: repos.map(repo_id => ({ repo_id })), total: repos.length } };
+      }
+      return {
+        data: {
+          server_id: 'server-2',
+          last_seq: peerJournal.getLastSeq(),
+          entries: peerJournal.entriesAfter(config.params.after, config.params.limit)
+        }
+      };
+    });
+
+    storage = new RepoStorage(localDir);
+    await storage.initialize();
+    journal = new ReplicationJournal(path.join(localDir, '.txlog', 'journal.log'));
+    await journal.initialize();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should copy and verify every repository on the peer', async () => {
+    const bootstrapper = new Bootstrapper(storage, journal, progressPath);
+    await bootstrapper.request(peerDir);
+    const progress = await bootstrapper.run();
+
+    expect(progress).toMatchObject({
+      peer_url: peerDir,
+      state: 'complete',
+      snapshot_seq: 2,
+      repos: { 'alice/project': 'verified', 'bob/empty': 'verified' },
+      total: 2,
+      verified: 2
+    });
+    expect(await storage.listRepos()).toEqual(expect.arrayContaining(['alice/project', 'bob/empty']));
+    expect(await storage.listRefs('alice/project')).toEqual(new Map([
+      ['refs/heads/feature', commit],
+      ['refs/heads/main', commit]
+    ]));
+  });
+
+  it('should import the peer journal up to the snapshot', async () => {
+    const bootstrapper = new Bootstrapper(storage, journal, progressPath);
+    await bootstrapper.request(peerDir);
+    await bootstrapper.run();
+
+    expect(journal.has('txn-1')).toBe(true);
+    expect(journal.has('txn-2')).toBe(true);
+  });
+
+  it('should install membership changes from the imported journal', async () => {
+    const next = { epoch: 1, members: [{ url: 'http://localhost:3001' }, { url: 'http://localhost:3003' }] };
+    await peerJournal.record({
+      transaction_id: 'txn-3',
+      repo_id: MEMBERSHIP_REPO_ID,
+      operation: 'membership',
+      membership: { previous: { epoch: 0, members: [{ url: 'http://localhost:3001' }] }, next }
+    });
+    const membership = new ClusterMembership(
+      path.join(localDir, '.txlog', 'membership.json'),
+      { url: 'http://localhost:3003' },
+      ['http://localhost:3001']
+    );
+
+    const bootstrapper = new Bootstrapper(storage, journal, progressPath, { membership });
+    await bootstrapper.request(peerDir);
+    await bootstrapper.run();
+
+    expect(membership.get()).toEqual(next);
+    // Peers catching up from this node's journal learn it too
+    expect(journal.entriesAfter(0).find(entry => entry.transaction_id === 'txn-3')?.membership?.next).toEqual(next);
+  });
+
+  it('should resume after an interruption without copying verified repos again', async () => {
+    const mirrorFetch = jest.spyOn(storage, 'mirrorFetch');
+    mirrorFetch.mockImplementationOnce(RepoStorage.prototype.mirrorFetch);
+    mirrorFetch.mockRejectedValueOnce(new Error('connection reset'));
+
+    const bootstrapper = new Bootstrapper(storage, journal, progressPath);
+    await bootstrapper.request(peerDir);
+    await expect(bootstrapper.run()).rejects.toThrow('connection reset');
+
+    // A restarted node picks up the persisted progress
+    const restarted = new Bootstrapper(storage, journal, progressPath);
+    await restarted.initialize();
+    expect(restarted.isPending()).toBe(true);
+    expect(restarted.getProgress()).toMatchObject({
+      verified: 1,
+      total: 2,
+      last_error: 'connection reset'
+    });
+
+    const progress = await restarted.run();
+
+    expect(progress.state).toBe('complete');
+    expect(mirrorFetch).toHaveBeenCalledTimes(3);
+    expect(mirrorFetch.mock.calls.map(call => call[0])).toEqual(
+      ['alice/project', 'bob/empty', 'bob/empty']
+    );
+  });
+
+  it('should drop repositories the peer no longer has when resuming', async () => {
+    jest.spyOn(storage, 'mirrorFetch')
+      .mockImplementationOnce(RepoStorage.prototype.mirrorFetch)
+      .mockRejectedValueOnce(new Error('connection reset'));
+
+    const bootstrapper = new Bootstrapper(storage, journal, progressPath);
+    await bootstrapper.request(peerDir);
+    await expect(bootstrapper.run()).rejects.toThrow('connection reset');
+    // The failed first copy left no empty repository behind
+    expect(await storage.listRepos()).toEqual(['alice/project']);
+
+    await peerStorage.trashRepo('bob/empty', 'txn-3');
+    const progress = await bootstrapper.run();
+
+    expect(progress).toMatchObject({
+      state: 'complete',
+      repos: { 'alice/project': 'verified' },
+      total: 1,
+      verified: 1
+    });
+    expect(progress.repos).not.toHaveProperty('bob/empty');
+    expect(await storage.listRepos()).toEqual(['alice/project']);
+  });
+
+  it('should fail when a copy does not match the peer', async () => {
+    jest.spyOn(storage, 'listRemoteRefs').mockResolvedValue(
+      new Map([['refs/heads/main', 'f'.repeat(40)]])
+    );
+
+    const bootstrapper = new Bootstrapper(storage, journal, progressPath, { verifyAttempts: 2 });
+    await bootstrapper.request(peerDir);
+
+    await expect(bootstrapper.run()).rejects.toThrow(/does not match/);
+    expect(bootstrapper.isPending()).toBe(true);
+  });
+});
@@ -0,0 +1,308 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { RepoStorage } from './storage';
+import { ReplicationJournal, JournalEntry } from './replication-journal';
+import { AccessStore } from './access-store';
+import { CatalogEntry, RepoCatalog } from './repo-catalog';
+import { ClusterMembership } from './membership';
+import { logger } from './logger';
+
+export type RepoCopyState = 'pending' | 'verified';
+
+// Persisted after every repository, so an interrupted bootstrap resumes
+// where it stopped
+export interface BootstrapProgress {
+  peer_url: string;
+  state: 'copying' | 'complete';
+  // The peer's journal position before copying started; everything up to
+  // here is in the copies, later writes are replayed by catch-up
+  snapshot_seq: number;
+  repos: Record<string, RepoCopyState>;
+  total: number;
+  verified: number;
+  started_at: string;
+  completed_at?: string;
+  last_error?: string;
+}
+
+export interface BootstrapOptions {
+  verifyAttempts?: number; // Fetches per repo before giving up on a ref mismatch
+  pageSize?: number;
+  accessStore?: AccessStore; // Receives the peer's access changes
+  catalog?: RepoCatalog; // Takes over the peer's entries for the copies
+  membership?: ClusterMembership; // Receives the peer's membership changes
+}
+
+/**
+ * Full copy of a healthy peer onto a new (or rebuilt) node.
+ *
+ * The peer's journal position is taken first, then every repository it
+ * lists is mirrored over smart HTTP and checked: object connectivity must
+ * be complete and the refs must match what the peer advertises. Finally the
+ * peer's journal up to the snapshot is imported, so catch-up knows those
+ * writes are already here and only replays what came after. Access and
+ * membership changes in that history are applied as they are imported.
+ */
+export class Bootstrapper {
+  private storage: RepoStorage;
+  private journal: ReplicationJournal;
+  private progressPath: string;
+  private verifyAttempts: number;
+  private pageSize: number;
+  private accessStore: AccessStore | null;
+  private catalog: RepoCatalog | null;
+  private membership: ClusterMembership | null;
+  private requestTimeout: number = 5000;
+  private progress: BootstrapProgress | null = null;
+
+  constructor(
+    storage: RepoStorage,
+    journal: ReplicationJournal,
+    progressPath: string,
+    options: BootstrapOptions = {}
+  ) {
+    this.storage = storage;
+    this.journal = journal;
+    this.progressPath = progressPath;
+    this.verifyAttempts = options.verifyAttempts ?? 3;
+    this.pageSize = options.pageSize ?? 100;
+    this.accessStore = options.accessStore ?? null;
+    this.catalog = options.catalog ?? null;
+    this.membership = options.membership ?? null;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      this.progress = JSON.parse(await fs.readFile(this.progressPath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  getProgress(): BootstrapProgress | null {
+    return this.progress ? { ...this.progress, repos: { ...this.progress.repos } } : null;
+  }
+
+  // A bootstrap was requested (or interrupted) and has not finished
+  isPending(): boolean {
+    return this.progress?.state === 'copying';
+  }
+
+  hasCompleted(): boolean {
+    return this.progress?.state === 'complete';
+  }
+
+  // Start a bootstrap from the peer; resumes one already under way from it
+  async request(peerUrl: string): Promise<void> {
+    if (this.isPending() && this.progress!.peer_url === peerUrl) {
+      return;
+    }
+
+    this.progress = {
+      peer_url: peerUrl,
+      state: 'copying',
+      snapshot_seq: -1,
+      repos: {},
+      total: 0,
+      verified: 0,
+      started_at: new Date().toISOString()
+    };
+    await this.save();
+  }
+
+  async run(): Promise<BootstrapProgress> {
+    const progress = this.progress;
+    if (!progress || progress.state !== 'copying') {
+      throw new Error('No bootstrap requested');
+    }
+
+    try {
+      const peerUrl = progress.peer_url;
+
+      if (progress.snapshot_seq < 0) {
+        progress.snapshot_seq = (await this.fetchJournal(peerUrl, 0, 1)).last_seq;
+        await this.save();
+      }
+
+      const listing = await this.listRepos(peerUrl);
+      for (const repoId of [...listing.keys()].sort()) {
+        progress.repos[repoId] = progress.repos[repoId] || 'pending';
+      }
+      // Listed by an interrupted run but deleted or renamed on the peer
+      // since: catch-up replays what happened to them
+      for (const [repoId, state] of Object.entries(progress.repos)) {
+        if (state === 'pending' && !listing.has(repoId)) {
+          delete progress.repos[repoId];
+        }
+      }
+      this.updateCounts();
+      await this.save();
+
+      for (const [repoId, state] of Object.entries(progress.repos)) {
+        if (state === 'verified') {
+          continue;
+        }
+
+        await this.copyRepo(peerUrl, repoId);
+        await this.catalog?.put(listing.get(repoId)!);
+        progress.repos[repoId] = 'verified';
+        this.updateCounts();
+        await this.save();
+        logger.info('bootstrap.repo', `Bootstrapped ${repoId} (${progress.verified}/${progress.total})`, { repo_id: repoId });
+      }
+
+      await this.importJournal(peerUrl, progress.snapshot_seq);
+
+      progress.state = 'complete';
+      progress.completed_at = new Date().toISOString();
+      progress.last_error = undefined;
+      await this.save();
+    } catch (error: any) {
+      progress.last_error = error.message;
+      await this.save();
+      throw error;
+    }
+
+    return this.getProgress()!;
+  }
+
+  // The peer's catalog, read page by page
+  private async listRepos(peerUrl: string): Promise<Map<string, CatalogEntry>> {
+    const listing = new Map<string, CatalogEntry>();
+
+    for (let page = 1; ; page++) {
+      const response = await axios.get(`${peerUrl}/replicate/repos`, {
+        params: { page, per_page: this.pageSize },
+        timeout: this.requestTimeout
+      });
+      const entries = response.data.repos as CatalogEntry[];
+      entries.forEach(entry => listing.set(entry.repo_id, entry));
+
+      if (entries.length < this.pageSize) {
+        return listing;
+      }
+    }
+  }
+
+  private async copyRepo(peerUrl: string, repoId: string): Promise<void> {
+    const remoteUrl = `${peerUrl}/${repoId}.git`;
+
+    // A write landing on the peer between fetch and check shows up as a
+    // ref mismatch; fetching again picks it up
+    for (let attempt = 1; ; attempt++) {
+      await this.fetchCopy(repoId, remoteUrl);
+      await this.storage.verifyRepo(repoId);
+
+      const mismatch = await this.findRefMismatch(repoId, remoteUrl);
+      if (!mismatch) {
+        return;
+      }
+      if (attempt >= this.verifyAttempts) {
+        throw new Error(`Copy of ${repoId} does not match ${peerUrl}: ${mismatch}`);
+      }
+    }
+  }
+
+  // A repository new here is staged until its first fetch succeeds, so one
+  // the peer cannot serve leaves nothing behind
+  private async fetchCopy(repoId: string, remoteUrl: string): Promise<void> {
+    if (await this.storage.repoExists(repoId)) {
+      await this.storage.mirrorFetch(repoId, remoteUrl);
+      return;
+    }
+
+    const stagingId = uuidv4();
+    try {
+      await this.storage.stageRepo(stagingId);
+      await this.storage.mirrorFetch(repoId, remoteUrl, stagingId);
+      await this.storage.applyStagedRepo(repoId, stagingId);
+    } finally {
+      await this.storage.discardStaging(stagingId);
+    }
+  }
+
+  private async findRefMismatch(repoId: string, remoteUrl: string): Promise<string | undefined> {
+    const [local, remote] = await Promise.all([
+      this.storage.listRefs(repoId),
+      this.storage.listRemoteRefs(remoteUrl)
+    ]);
+
+    for (const [ref, sha] of remote) {
+      if (local.get(ref) !== sha) {
+        return `${ref} is ${local.get(ref) || 'missing'}, expected ${sha}`;
+      }
+    }
+    for (const ref of local.keys()) {
+      if (!remote.has(ref)) {
+        return `${ref} does not exist on the peer`;
+      }
+    }
+    return undefined;
+  }
+
+  // Record the peer's history up to the snapshot as applied here
+  private async importJournal(peerUrl: string, snapshotSeq: number): Promise<void> {
+    let after = 0;
+
+    while (after < snapshotSeq) {
+      const page = await this.fetchJournal(peerUrl, after, this.pageSize);
+      const entries = page.entries.filter(entry => entry.seq <= snapshotSeq);
+
+      for (const entry of entries) {
+        if (entry.access) {
+          await this.accessStore?.apply(entry.access);
+        }
+        // Only a newer epoch is installed
+        if (entry.operation === 'membership' && entry.membership) {
+          await this.membership?.apply(entry.membership.next);
+        }
+        await this.journal.record({
+          transaction_id: entry.transaction_id,
+          repo_id: entry.repo_id,
+          operation: entry.operation,
+          updates: entry.updates,
+          target_repo_id: entry.target_repo_id,
+          trash_id: entry.trash_id,
+          access: entry.access,
+          metadata: entry.metadata,
+          membership: entry.membership,
+          at: entry.at
+        });
+      }
+
+      if (page.entries.length < this.pageSize) {
+        return;
+      }
+      after = page.entries[page.entries.length - 1].seq;
+    }
+  }
+
+  private async fetchJournal(
+    peerUrl: string,
+    after: number,
+    limit: number
+  ): Promise<{ last_seq: number; entries: JournalEntry[] }> {
+    const response = await axios.get(`${peerUrl}/replicate/journal`, {
+      params: { after, limit },
+      timeout: this.requestTimeout
+    });
+    return response.data;
+  }
+
+  private updateCounts(): void {
+    const states = Object.values(this.progress!.repos);
+    this.progress!.total = states.length;
+    this.progress!.verified = states.filter(state => state === 'verified').length;
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.progressPath), { recursive: true });
+    const tempPath = `${this.progressPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.progress));
+    await fs.rename(tempPath, this.progressPath);
+  }
+}
@@ -0,0 +1,333 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { Bootstrapper } from './bootstrap';
+import { CatchUpManager } from './catch-up';
+import { runGit } from './git-command';
+import { ReplicationHandler } from './replication-handler';
+import { ReplicationJournal } from './replication-journal';
+import { RepoStorage, ZERO_SHA } from './storage';
+import { createCommitPack } from './test-helpers';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('CatchUpManager', () => {
+  const testDataDir = './test-data-catch-up';
+  const workDir = './test-data-catch-up-work';
+  // Peers are addressed by path; git fetches from them like from a URL
+  const peerDir = path.resolve(testDataDir, 'peer');
+  const localDir = path.join(testDataDir, 'local');
+  let commit: string;
+  let peerJournal: ReplicationJournal;
+  let storage: RepoStorage;
+  let journal: ReplicationJournal;
+  let handler: ReplicationHandler;
+
+  const servePeerJournal = () => {
+    mockedAxios.get.mockImplementation(async (url: string, config: any) => ({
+      data: {
+        server_id: 'server-2',
+        last_seq: peerJournal.getLastSeq(),
+        entries: peerJournal.entriesAfter(config.params.after, config.params.limit)
+      }
+    }));
+  };
+
+  const createManager = (options = {}) => new CatchUpManager(
+    storage,
+    journal,
+    handler,
+    [peerDir],
+    path.join(localDir, '.txlog', 'watermarks.json'),
+    { pageSize: 1, ...options }
+  );
+
+  beforeAll(async () => {
+    ({ commit } = await createCommitPack(workDir));
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    // The peer committed a create and a push while this node was down
+    const peerStorage = new RepoStorage(peerDir);
+    await peerStorage.createRepo('alice/project');
+    await runGit(['-C', workDir, 'push', '-q', peerStorage.getRepoPath('alice/project'), 'main']);
+    peerJournal = new ReplicationJournal(path.join(peerDir, '.txlog', 'journal.log'));
+    await peerJournal.initialize();
+    await peerJournal.record({ transaction_id: 'txn-1', repo_id: 'alice/project', operation: 'create' });
+    await peerJournal.record({
+      transaction_id: 'txn-2',
+      repo_id: 'alice/project',
+      operation: 'push',
+      updates: [{ ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: commit }]
+    });
+
+    storage = new RepoStorage(localDir);
+    await storage.initialize();
+    journal = new ReplicationJournal(path.join(localDir, '.txlog', 'journal.log'));
+    await journal.initialize();
+    handler = new ReplicationHandler('server-1', storage);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should stay out of write quorum until caught up', async () => {
+    const catchUp = createManager();
+    expect(handler.isInQuorum()).toBe(false);
+    expect(catchUp.getStatus().state).toBe('catching-up');
+
+    servePeerJournal();
+    expect(await catchUp.runOnce()).toBe(true);
+
+    expect(handler.isInQuorum()).toBe(true);
+    expect(catchUp.getStatus()).toMatchObject({
+      state: 'in-sync',
+      watermarks: { [peerDir]: 2 },
+      replayed: 2
+    });
+  });
+
+  it('should replay missed writes in order, fetching their objects', async () => {
+    servePeerJournal();
+    await createManager().runOnce();
+
+    expect(await storage.hasObject('alice/project', commit)).toBe(true);
+    expect((await storage.listRefs('alice/project')).get('refs/heads/main')).toBe(commit);
+    expect(journal.entriesAfter(0).map(entry => entry.transaction_id)).toEqual(['txn-1', 'txn-2']);
+  });
+
+  it('should resume from the persisted watermark', async () => {
+    servePeerJournal();
+    await createManager().runOnce();
+
+    await peerJournal.record({ transaction_id: 'txn-3', repo_id: 'bob/tools', operation: 'create' });
+    const restarted = createManager();
+    await restarted.initialize();
+    await restarted.runOnce();
+
+    expect(mockedAxios.get).toHaveBeenLastCalledWith(
+      `${peerDir}/replicate/journal`,
+      expect.objectContaining({ params: { after: 3, limit: 1 } })
+    );
+    expect(await storage.repoExists('bob/tools')).toBe(true);
+    expect(restarted.getStatus().replayed).toBe(1);
+  });
+
+  it('should skip writes that were already applied here', async () => {
+    await journal.record({ transaction_id: 'txn-1', repo_id: 'alice/project', operation: 'create' });
+
+    servePeerJournal();
+    const catchUp = createManager();
+    await catchUp.runOnce();
+
+    expect(catchUp.getStatus().replayed).toBe(1);
+  });
+
+  it('should never move a ref back to an older commit', async () => {
+    servePeerJournal();
+    await createManager().runOnce();
+
+    // Another peer's journal still has an earlier write to main
+    const parent = (await runGit(['-C', workDir, 'rev-parse', 'HEAD'])).toString().trim();
+    await fs.writeFile(path.join(workDir, 'CHANGES.md'), 'v2\n');
+    await runGit(['-C', workDir, 'add', 'CHANGES.md']);
+    await runGit([
+      '-c', 'user.name=Test', '-c', 'user.email=test@example.com',
+      '-C', workDir, 'commit', '-q', '-m', 'Second commit'
+    ]);
+    const head = (await runGit(['-C', workDir, 'rev-parse', 'HEAD'])).toString().trim();
+    await runGit(['-C', workDir, 'push', '-q', new RepoStorage(peerDir).getRepoPath('alice/project'), 'main']);
+    await storage.fetchObjects('alice/project', `${peerDir}/alice/project.git`, [head]);
+    await storage.setRefs('alice/project', [{ ref: 'refs/heads/main', old_sha: parent, new_sha: head }]);
+
+    await peerJournal.record({
+      transaction_id: 'txn-older',
+      repo_id: 'alice/project',
+      operation: 'push',
+      updates: [{ ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: parent }]
+    });
+    await createManager().runOnce();
+
+    expect((await storage.listRefs('alice/project')).get('refs/heads/main')).toBe(head);
+    await runGit(['-C', workDir, 'reset', '-q', '--hard', parent]);
+  });
+
+  it('should replay a forced update that rewinds a branch', async () => {
+    servePeerJournal();
+    await createManager().runOnce();
+
+    // main moved on here, then was force-reset to its parent on the peer
+    const parent = commit;
+    await fs.writeFile(path.join(workDir, 'CHANGES.md'), 'v2\n');
+    await runGit(['-C', workDir, 'add', 'CHANGES.md']);
+    await runGit([
+      '-c', 'user.name=Test', '-c', 'user.email=test@example.com',
+      '-C', workDir, 'commit', '-q', '-m', 'Second commit'
+    ]);
+    const head = (await runGit(['-C', workDir, 'rev-parse', 'HEAD'])).toString().trim();
+    await runGit(['-C', workDir, 'push', '-q', path.resolve(storage.getRepoPath('alice/project')), 'main']);
+
+    await peerJournal.record({
+      transaction_id: 'txn-reset',
+      repo_id: 'alice/project',
+      operation: 'update-ref',
+      updates: [{ ref: 'refs/heads/main', old_sha: head, new_sha: parent }]
+    });
+    await createManager().runOnce();
+
+    expect((await storage.listRefs('alice/project')).get('refs/heads/main')).toBe(parent);
+    await runGit(['-C', workDir, 'reset', '-q', '--hard', parent]);
+  });
+
+  it('should not let a late ref deletion remove a ref recreated since', async () => {
+    servePeerJournal();
+    await createManager().runOnce();
+
+    // main was deleted at `commit` and recreated at a new commit; the
+    // deletion only arrives now, from another peer's journal
+    await fs.writeFile(path.join(workDir, 'CHANGES.md'), 'v2\n');
+    await runGit(['-C', workDir, 'add', 'CHANGES.md']);
+    await runGit([
+      '-c', 'user.name=Test', '-c', 'user.email=test@example.com',
+      '-C', workDir, 'commit', '-q', '-m', 'Second commit'
+    ]);
+    const head = (await runGit(['-C', workDir, 'rev-parse', 'HEAD'])).toString().trim();
+    await runGit(['-C', workDir, 'push', '-q', path.resolve(storage.getRepoPath('alice/project')), 'main']);
+    await runGit(['-C', workDir, 'push', '-q', path.resolve(storage.getRepoPath('alice/project')), 'main:refs/heads/old']);
+
+    await peerJournal.record({
+      transaction_id: 'txn-delete-main',
+      repo_id: 'alice/project',
+      operation: 'update-ref',
+      updates: [{ ref: 'refs/heads/main', old_sha: commit, new_sha: ZERO_SHA }]
+    });
+    // A deletion of a ref still at the deleted value applies
+    await peerJournal.record({
+      transaction_id: 'txn-delete-old',
+      repo_id: 'alice/project',
+      operation: 'update-ref',
+      updates: [{ ref: 'refs/heads/old', old_sha: head, new_sha: ZERO_SHA }]
+    });
+    await createManager().runOnce();
+
+    const refs = await storage.listRefs('alice/project');
+    expect(refs.get('refs/heads/main')).toBe(head);
+    expect(refs.has('refs/heads/old')).toBe(false);
+    await runGit(['-C', workDir, 'reset', '-q', '--hard', commit]);
+  });
+
+  it('should replay renames and deletes', async () => {
+    await peerJournal.record({
+      transaction_id: 'txn-3',
+      repo_id: 'alice/project',
+      operation: 'rename',
+      target_repo_id: 'bob/project'
+    });
+    await peerJournal.record({ transaction_id: 'txn-4', repo_id: 'bob/project', operation: 'delete' });
+
+    servePeerJournal();
+    await createManager().runOnce();
+
+    expect(await storage.listRepos()).toEqual([]);
+    expect(await storage.getTrashEntry('txn-4')).toMatchObject({ repo_id: 'bob/project' });
+  });
+
+  it('should drain a push whose repository the peer deleted later', async () => {
+    await new RepoStorage(peerDir).trashRepo('alice/project', 'txn-3');
+    await peerJournal.record({ transaction_id: 'txn-3', repo_id: 'alice/project', operation: 'delete' });
+
+    servePeerJournal();
+    const catchUp = createManager();
+    expect(await catchUp.runOnce()).toBe(true);
+
+    expect(catchUp.getStatus().watermarks).toEqual({ [peerDir]: 3 });
+    expect(await storage.listRepos()).toEqual([]);
+    expect(await storage.getTrashEntry('txn-3')).toMatchObject({ repo_id: 'alice/project' });
+    expect(journal.entriesAfter(0).map(entry => entry.transaction_id)).toEqual(['txn-1', 'txn-2', 'txn-3']);
+  });
+
+  it('should not bring back a repository whose delete was already replayed', async () => {
+    await peerJournal.record({ transaction_id: 'txn-3', repo_id: 'alice/project', operation: 'delete' });
+    // Learnt from another peer first
+    await journal.record({ transaction_id: 'txn-3', repo_id: 'alice/project', operation: 'delete' });
+
+    servePeerJournal();
+    expect(await createManager().runOnce()).toBe(true);
+
+    expect(await storage.listRepos()).toEqual([]);
+    expect(journal.has('txn-2')).toBe(true);
+  });
+
+  it('should fetch a push from the new id of a repository the peer renamed later', async () => {
+    await new RepoStorage(peerDir).moveRepo('alice/project', 'bob/project');
+    await peerJournal.record({
+      transaction_id: 'txn-3',
+      repo_id: 'alice/project',
+      operation: 'rename',
+      target_repo_id: 'bob/project'
+    });
+
+    servePeerJournal();
+    const catchUp = createManager();
+    expect(await catchUp.runOnce()).toBe(true);
+
+    expect(catchUp.getStatus().watermarks).toEqual({ [peerDir]: 3 });
+    expect(await storage.listRepos()).toEqual(['bob/project']);
+    expect((await storage.listRefs('bob/project')).get('refs/heads/main')).toBe(commit);
+  });
+
+  it('should bootstrap before catching up and only then rejoin write quorum', async () => {
+    const bootstrapper = new Bootstrapper(storage, journal, path.join(localDir, '.txlog', 'bootstrap.json'));
+    const catchUp = createManager({ bootstrapper });
+    await bootstrapper.request(peerDir);
+    await catchUp.initialize();
+
+    expect(catchUp.getStatus().state).toBe('bootstrapping');
+    expect(handler.isInQuorum()).toBe(false);
+
+    mockedAxios.get.mockImplementation(async (url: string, config: any) => {
+      if (url === `${peerDir}/replicate/repos`) {
+        return { data: { repos: [{ repo_id: 'alice/project' }], total: 1 } };
+      }
+      return {
+        data: {
+          server_id: 'server-2',
+          last_seq: peerJournal.getLastSeq(),
+          entries: peerJournal.entriesAfter(config.params.after, config.params.limit)
+        }
+      };
+    });
+    expect(await catchUp.runOnce()).toBe(true);
+
+    // Everything up to the snapshot came with the copy; nothing is replayed
+    expect(catchUp.getStatus()).toMatchObject({
+      state: 'in-sync',
+      watermarks: { [peerDir]: 2 },
+      replayed: 0,
+      bootstrap: { state: 'complete', verified: 1 }
+    });
+    expect((await storage.listRefs('alice/project')).get('refs/heads/main')).toBe(commit);
+    expect(handler.isInQuorum()).toBe(true);
+  });
+
+  it('should remain catching up while no peer answers', async () => {
+    mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const catchUp = createManager();
+    expect(await catchUp.runOnce()).toBe(false);
+
+    expect(handler.isInQuorum()).toBe(false);
+    expect(catchUp.getStatus()).toMatchObject({
+      state: 'catching-up',
+      last_error: `${peerDir}: connect ECONNREFUSED`
+    });
+  });
+});
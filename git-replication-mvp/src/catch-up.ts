@@ -0,0 +1,499 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { RepoStorage, RefUpdate, ZERO_SHA } from './storage';
+import { ReplicationHandler } from './replication-handler';
+import { ReplicationJournal, JournalEntry } from './replication-journal';
+import { Bootstrapper, BootstrapProgress } from './bootstrap';
+import { AccessStore } from './access-store';
+import { RepoCatalog } from './repo-catalog';
+import { ClusterMembership } from './membership';
+import { logger } from './logger';
+
+export type SyncState = 'bootstrapping' | 'catching-up' | 'in-sync';
+
+export interface CatchUpStatus {
+  state: SyncState;
+  watermarks: Record<string, number>;
+  replayed: number; // Entries applied since startup
+  last_run?: string;
+  last_error?: string;
+  bootstrap?: BootstrapProgress;
+}
+
+export interface CatchUpOptions {
+  // Peers that must be drained before the node counts as caught up. A write
+  // the node missed lives on at least quorumSize + 1 other nodes, so reading
+  // peers - quorumSize of them is enough to see every one.
+  quorumSize?: number;
+  intervalMs?: number; // Retry delay while too few peers answer
+  pageSize?: number;
+  bootstrapper?: Bootstrapper;
+  accessStore?: AccessStore; // Receives replayed access changes
+  catalog?: RepoCatalog; // Records replayed writes
+  membership?: ClusterMembership; // Receives replayed membership changes
+}
+
+interface JournalPage {
+  server_id: string;
+  last_seq: number;
+  entries: JournalEntry[];
+}
+
+// What later entries in a peer's journal did to a repository
+interface LaterHistory {
+  removal?: JournalEntry; // The first delete or rename of it
+  location: string | null; // Its id at the end, null once deleted for good
+}
+
+/**
+ * Brings a node that was offline back up to date before it votes again.
+ *
+ * Each peer's replication journal is read from the watermark (the last of
+ * that peer's sequence numbers already replayed here). Entries are replayed
+ * in order: missing objects are fetched from the peer over smart HTTP and
+ * the refs are moved to the committed values. Transactions already in the
+ * local journal are skipped, so replaying the same write from several
+ * peers, or after a crash mid-page, is harmless. A write whose repository
+ * a later entry deleted or renamed is superseded: it is journaled without
+ * bringing the repository back.
+ *
+ * A node with peers starts out of write quorum and rejoins once enough
+ * peers have been drained. A pending bootstrap runs first; catch-up then
+ * continues from the bootstrap peer's snapshot position.
+ */
+export class CatchUpManager {
+  private storage: RepoStorage;
+  private journal: ReplicationJournal;
+  private handler: ReplicationHandler;
+  private peerUrls: string[];
+  private watermarkPath: string;
+  private requiredPeers: number;
+  private intervalMs: number;
+  private pageSize: number;
+  private bootstrapper: Bootstrapper | null;
+  private accessStore: AccessStore | null;
+  private catalog: RepoCatalog | null;
+  private membership: ClusterMembership | null;
+  private requestTimeout: number = 5000;
+  private watermarks: Record<string, number> = {};
+  private state: SyncState;
+  private replayed = 0;
+  private lastRun?: string;
+  private lastError?: string;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<boolean> | null = null;
+
+  constructor(
+    storage: RepoStorage,
+    journal: ReplicationJournal,
+    handler: ReplicationHandler,
+    peerUrls: string[],
+    watermarkPath: string,
+    options: CatchUpOptions = {}
+  ) {
+    this.storage = storage;
+    this.journal = journal;
+    this.handler = handler;
+    this.peerUrls = peerUrls;
+    this.watermarkPath = watermarkPath;
+    this.requiredPeers = Math.max(1, peerUrls.length - (options.quorumSize ?? 0));
+    this.intervalMs = options.intervalMs ?? 5000;
+    this.pageSize = options.pageSize ?? 100;
+    this.bootstrapper = options.bootstrapper ?? null;
+    this.accessStore = options.accessStore ?? null;
+    this.catalog = options.catalog ?? null;
+    this.membership = options.membership ?? null;
+
+    this.state = 'in-sync';
+    if (peerUrls.length > 0) {
+      this.setState('catching-up');
+    }
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      this.watermarks = JSON.parse(await fs.readFile(this.watermarkPath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // An interrupted bootstrap resumes on start()
+    await this.bootstrapper?.initialize();
+    if (this.bootstrapper?.isPending()) {
+      this.setState('bootstrapping');
+    }
+  }
+
+  // Copy everything from the peer, then catch up; returns immediately
+  async bootstrap(peerUrl: string): Promise<void> {
+    if (!this.bootstrapper) {
+      throw new Error('Bootstrap is not configured');
+    }
+
+    await this.bootstrapper.request(peerUrl);
+    this.setState('bootstrapping');
+    this.start();
+  }
+
+  // Retry in the background until caught up
+  start(): void {
+    if (this.timer || this.state === 'in-sync') {
+      return;
+    }
+
+    const attempt = () => {
+      this.runOnce()
+        .then(caughtUp => {
+          if (caughtUp) {
+            this.stop();
+          }
+        })
+        .catch(error => {
+          logger.error('catch-up.failed', `Catch-up failed: ${error.message}`);
+        });
+    };
+
+    this.timer = setInterval(attempt, this.intervalMs);
+    this.timer.unref();
+    attempt();
+  }
+
+  // The node may have missed writes (e.g. in maintenance): leave the write
+  // quorum until caught up again
+  resync(): void {
+    if (this.peerUrls.length === 0 || this.state === 'bootstrapping') {
+      return;
+    }
+    this.setState('catching-up');
+    this.start();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Follow a membership change. A node that had no peers cannot have been
+  // told about writes; with its first peers (e.g. a saved member list
+  // loaded after a restart) it catches up from them before voting again.
+  setPeers(peerUrls: string[], quorumSize: number): void {
+    const hadPeers = this.peerUrls.length > 0;
+    this.peerUrls = peerUrls;
+    this.requiredPeers = Math.max(1, peerUrls.length - quorumSize);
+    if (!hadPeers) {
+      this.resync();
+    }
+  }
+
+  getStatus(): CatchUpStatus {
+    return {
+      state: this.state,
+      watermarks: { ...this.watermarks },
+      replayed: this.replayed,
+      last_run: this.lastRun,
+      last_error: this.lastError,
+      bootstrap: this.bootstrapper?.getProgress() || undefined
+    };
+  }
+
+  // One pass over every peer; resolves true once the node is in sync.
+  // Concurrent callers share the pass in progress.
+  runOnce(): Promise<boolean> {
+    if (!this.running) {
+      this.running = this.catchUp().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async catchUp(): Promise<boolean> {
+    if (this.bootstrapper?.isPending()) {
+      try {
+        const progress = await this.bootstrapper.run();
+        await this.saveWatermark(progress.peer_url, progress.snapshot_seq);
+        this.setState('catching-up');
+      } catch (error: any) {
+        this.lastRun = new Date().toISOString();
+        this.lastError = `bootstrap: ${error.message}`;
+        logger.warn('bootstrap.incomplete', `Bootstrap incomplete: ${error.message}`);
+        return false;
+      }
+    }
+
+    if (this.peerUrls.length === 0) {
+      this.setState('in-sync');
+      return true;
+    }
+
+    const errors: string[] = [];
+    let drained = 0;
+
+    for (const peerUrl of this.peerUrls) {
+      try {
+        await this.drainPeer(peerUrl);
+        drained++;
+      } catch (error: any) {
+        errors.push(`${peerUrl}: ${error.message}`);
+      }
+    }
+
+    this.lastRun = new Date().toISOString();
+    this.lastError = errors.length > 0 ? errors.join('; ') : undefined;
+
+    if (drained >= this.requiredPeers) {
+      if (this.state !== 'in-sync') {
+        logger.info('catch-up.in-sync', `Caught up with ${drained} peer(s); rejoining write quorum`);
+      }
+      this.setState('in-sync');
+      return true;
+    }
+
+    logger.warn(
+      'catch-up.incomplete',
+      `Catch-up incomplete: drained ${drained} of ${this.requiredPeers} required peer(s)` +
+      (this.lastError ? ` (${this.lastError})` : '')
+    );
+    return false;
+  }
+
+  // Only an in-sync node votes on writes
+  private setState(state: SyncState): void {
+    this.state = state;
+    this.handler.setOutOfQuorum(
+      state === 'in-sync' ? null : state === 'bootstrapping' ? 'bootstrapping' : 'catching up with peers'
+    );
+  }
+
+  private async drainPeer(peerUrl: string): Promise<void> {
+    let after = this.watermarks[peerUrl] || 0;
+
+    for (;;) {
+      const page = await this.fetchPage(peerUrl, after);
+
+      // The peer's journal restarted (e.g. its data was rebuilt); its
+      // sequence numbers no longer line up with our watermark
+      if (page.last_seq < after) {
+        after = 0;
+        continue;
+      }
+
+      for (const entry of page.entries) {
+        if (await this.replay(peerUrl, entry)) {
+          this.replayed++;
+        }
+        after = entry.seq;
+      }
+
+      await this.saveWatermark(peerUrl, after);
+
+      if (page.entries.length < this.pageSize) {
+        return;
+      }
+    }
+  }
+
+  private async fetchPage(peerUrl: string, after: number): Promise<JournalPage> {
+    const response = await axios.get(`${peerUrl}/replicate/journal`, {
+      params: { after, limit: this.pageSize },
+      timeout: this.requestTimeout
+    });
+    return response.data as JournalPage;
+  }
+
+  // Apply one committed write; false when it was already applied here
+  private async replay(peerUrl: string, entry: JournalEntry): Promise<boolean> {
+    if (this.journal.has(entry.transaction_id)) {
+      return false;
+    }
+
+    const applied = await this.replayRepository(peerUrl, entry);
+    if (!applied) {
+      logger.info('catch-up.superseded', 'Skipped a write to a repository a later write deleted or renamed', {
+        transaction_id: entry.transaction_id,
+        repo_id: entry.repo_id,
+        operation: entry.operation
+      });
+    }
+
+    // Access changes replay in any order; later values win
+    if (entry.access) {
+      await this.accessStore?.apply(entry.access);
+    }
+    // As do membership changes: only a newer epoch is installed
+    if (entry.operation === 'membership' && entry.membership) {
+      await this.membership?.apply(entry.membership.next);
+    }
+    if (applied) {
+      await this.catalog?.recordWrite(entry);
+    }
+
+    await this.journal.record({
+      transaction_id: entry.transaction_id,
+      repo_id: entry.repo_id,
+      operation: entry.operation,
+      updates: entry.updates,
+      target_repo_id: entry.target_repo_id,
+      trash_id: entry.trash_id,
+      access: entry.access,
+      metadata: entry.metadata,
+      membership: entry.membership,
+      at: entry.at
+    });
+    return true;
+  }
+
+  // Apply the write's repository changes; false when it is superseded
+  private async replayRepository(peerUrl: string, entry: JournalEntry): Promise<boolean> {
+    const { repo_id, operation } = entry;
+
+    if (operation === 'create' || operation === 'push' || operation === 'update-ref') {
+      if (!(await this.storage.repoExists(repo_id))) {
+        // Gone because a later delete or rename was already replayed here
+        // (e.g. from another peer's journal): creating it would undo that
+        const { removal } = await this.findLater(peerUrl, entry);
+        if (removal && this.journal.has(removal.transaction_id)) {
+          return false;
+        }
+        await this.storage.createRepo(repo_id, entry.metadata?.default_branch);
+      }
+    }
+
+    if (operation === 'push' || operation === 'update-ref') {
+      const updates = entry.updates || [];
+      const missing: string[] = [];
+      for (const update of updates) {
+        if (update.new_sha !== ZERO_SHA && !(await this.storage.hasObject(repo_id, update.new_sha))) {
+          missing.push(update.new_sha);
+        }
+      }
+
+      if (missing.length > 0 && !(await this.fetchMissing(peerUrl, entry, missing))) {
+        return false;
+      }
+
+      const current = await this.storage.listRefs(repo_id);
+      const forward: RefUpdate[] = [];
+      for (const update of updates) {
+        if (!(await this.isSuperseded(repo_id, update, current.get(update.ref)))) {
+          forward.push(update);
+        }
+      }
+      if (forward.length > 0) {
+        await this.storage.setRefs(repo_id, forward);
+      }
+    }
+
+    if (operation === 'delete' && (await this.storage.repoExists(repo_id))) {
+      await this.storage.trashRepo(repo_id, entry.transaction_id);
+    } else if (
+      operation === 'rename' &&
+      (await this.storage.repoExists(repo_id)) &&
+      !(await this.storage.repoExists(entry.target_repo_id!))
+    ) {
+      await this.storage.moveRepo(repo_id, entry.target_repo_id!);
+    } else if (
+      operation === 'restore' &&
+      (await this.storage.getTrashEntry(entry.trash_id!)) &&
+      !(await this.storage.repoExists(repo_id))
+    ) {
+      await this.storage.restoreRepo(entry.trash_id!);
+    } else if (
+      operation === 'update-repo' &&
+      entry.metadata?.default_branch &&
+      (await this.storage.repoExists(repo_id))
+    ) {
+      await this.storage.setDefaultBranch(repo_id, entry.metadata.default_branch);
+    }
+    return true;
+  }
+
+  // Fetch the write's objects from the peer. Its copy of the repository
+  // may be gone since: after a later rename they are fetched from the new
+  // id; after a later delete there is nothing to fetch and false is
+  // returned, the write being superseded.
+  private async fetchMissing(peerUrl: string, entry: JournalEntry, missing: string[]): Promise<boolean> {
+    try {
+      await this.storage.fetchObjects(entry.repo_id, `${peerUrl}/${entry.repo_id}.git`, missing);
+      return true;
+    } catch (error) {
+      const { location } = await this.findLater(peerUrl, entry);
+      if (location === entry.repo_id) {
+        throw error;
+      }
+      if (location === null) {
+        return false;
+      }
+      await this.storage.fetchObjects(entry.repo_id, `${peerUrl}/${location}.git`, missing);
+      return true;
+    }
+  }
+
+  // Read the rest of the peer's journal after the entry and follow its
+  // repository through deletes, restores and renames
+  private async findLater(peerUrl: string, entry: JournalEntry): Promise<LaterHistory> {
+    let removal: JournalEntry | undefined;
+    let location = entry.repo_id;
+    let trashId: string | null = null; // Set while the repository is deleted
+
+    let after = entry.seq;
+    for (;;) {
+      const page = await this.fetchPage(peerUrl, after);
+      for (const later of page.entries) {
+        if (trashId) {
+          if (later.operation === 'restore' && later.trash_id === trashId) {
+            trashId = null;
+          }
+        } else if (later.repo_id === location && (later.operation === 'delete' || later.operation === 'rename')) {
+          removal = removal || later;
+          if (later.operation === 'delete') {
+            trashId = later.transaction_id;
+          } else {
+            location = later.target_repo_id!;
+          }
+        }
+        after = later.seq;
+      }
+      if (page.entries.length < this.pageSize) {
+        return { removal, location: trashId ? null : location };
+      }
+    }
+  }
+
+  // Peers' journals interleave differently, so an older write can arrive
+  // after a newer one to the same ref; never move a ref backwards. A ref
+  // still at the write's old value takes it as is, so forced updates that
+  // rewind a branch replay too. A deletion is older than a ref that was
+  // recreated or moved on from the deleted value since; it only applies to
+  // a ref that is behind that value (or to one this node cannot compare).
+  private async isSuperseded(
+    repoId: string,
+    update: RefUpdate,
+    current: string | undefined
+  ): Promise<boolean> {
+    if (!current || current === update.new_sha || current === update.old_sha) {
+      return false;
+    }
+    if (update.new_sha === ZERO_SHA) {
+      if (update.old_sha === ZERO_SHA || !(await this.storage.hasObject(repoId, update.old_sha))) {
+        return false;
+      }
+      return !(await this.storage.isAncestor(repoId, current, update.old_sha));
+    }
+    return this.storage.isAncestor(repoId, update.new_sha, current);
+  }
+
+  private async saveWatermark(peerUrl: string, seq: number): Promise<void> {
+    this.watermarks[peerUrl] = seq;
+
+    await fs.mkdir(path.dirname(this.watermarkPath), { recursive: true });
+    const tempPath = `${this.watermarkPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.watermarks));
+    await fs.rename(tempPath, this.watermarkPath);
+  }
+}
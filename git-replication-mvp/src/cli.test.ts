@@ -0,0 +1,91 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import { formatTable, main } from './cli';
+import { stopServer, waitForServer } from './test-helpers';
+
+describe('gitrep CLI', () => {
+  const serverUrl = 'http://localhost:3000';
+  const testDataDir = './test-data-cli';
+
+  // Run a command and capture what it prints
+  const gitrep = async (...argv: string[]) => {
+    const output = { code: 0, out: '', err: '' };
+    output.code = await main(['--server', serverUrl, ...argv], {
+      out: text => { output.out += text; },
+      err: text => { output.err += text; }
+    });
+    return output;
+  };
+
+  beforeAll(async () => {
+    process.env.DATA_DIR = testDataDir;
+    require('./server');
+    await waitForServer(1000);
+  });
+
+  afterAll(async () => {
+    await stopServer();
+    delete process.env.DATA_DIR;
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should create, list, inspect and delete repositories', async () => {
+    const created = await gitrep('repos', 'create', 'alice/cli-demo', '--description', 'Demo', '--json');
+    expect(created.code).toBe(0);
+    expect(JSON.parse(created.out)).toMatchObject({ repo_id: 'alice/cli-demo', created: true });
+
+    const listed = await gitrep('repos', 'list', '--owner', 'alice');
+    expect(listed.out).toMatch(/^REPO +VISIBILITY +DEFAULT BRANCH +SIZE +PUSHED\nalice\/cli-demo +public +main /);
+    expect(listed.out).toContain('1 of 1 (page 1)');
+
+    expect((await gitrep('repos', 'get', 'alice/cli-demo')).out).toContain('Description:     Demo');
+
+    const deleted = await gitrep('repos', 'delete', 'alice/cli-demo');
+    expect(deleted.out).toMatch(/^Deleted alice\/cli-demo; restorable as trash /);
+
+    const missing = await gitrep('repos', 'get', 'alice/cli-demo');
+    expect(missing).toMatchObject({ code: 1, err: 'Error: HTTP 404: Not Found\n' });
+  });
+
+  it('should put the server into maintenance and back', async () => {
+    const entered = await gitrep('maintenance', 'on', '--reason', 'disk swap');
+    expect(entered.out).toMatch(/is in maintenance since .*: disk swap/);
+    expect((await axios.get(`${serverUrl}/health`)).data.status).toBe('maintenance');
+
+    // The server refuses to vote on writes meanwhile
+    await expect(axios.post(`${serverUrl}/replicate/prepare`, {
+      transaction_id: 'txn-maintenance',
+      coordinator_id: 'server-2',
+      repo_id: 'alice/maintenance'
+    })).rejects.toMatchObject({ response: { status: 503, data: { error: 'In maintenance' } } });
+
+    const left = await gitrep('maintenance', 'off', '--json');
+    expect(JSON.parse(left.out)).toMatchObject({ maintenance: null, sync: 'in-sync' });
+  });
+
+  it('should report cluster state', async () => {
+    expect((await gitrep('health')).out).toMatch(/: healthy, in-sync, cpu .*\n\n\(none\)\n$/);
+    expect((await gitrep('in-doubt', 'list')).out).toBe('(none)\n');
+    expect(JSON.parse((await gitrep('in-doubt', 'resolve', '--json')).out)).toEqual({
+      committed: [],
+      aborted: [],
+      blocked: []
+    });
+    expect((await gitrep('check')).code).toBe(0);
+  });
+
+  it('should reject bad command lines', async () => {
+    expect(await gitrep('repos', 'frobnicate')).toMatchObject({ code: 2, err: expect.stringContaining('Unknown command') });
+    expect(await gitrep('repos', 'get', 'no-slash')).toMatchObject({ code: 2 });
+    expect(await gitrep('in-doubt', 'resolve', 'txn-1')).toMatchObject({
+      code: 2,
+      err: expect.stringContaining('Give either --commit or --abort')
+    });
+  });
+
+  it('should pad table columns', () => {
+    expect(formatTable(['A', 'LONGER'], [['wide cell', 1], ['x', null]])).toBe(
+      'A          LONGER\nwide cell  1\nx'
+    );
+  });
+});
@@ -0,0 +1,405 @@
+#!/usr/bin/env node
+import axios, { AxiosInstance } from 'axios';
+import { parseArgs } from 'util';
+import type { AntiEntropyStatus } from './anti-entropy';
+import type { SyncState } from './catch-up';
+import type { BlockedTransaction, ResolutionReport } from './in-doubt-resolver';
+import type { MaintenanceState } from './maintenance';
+import type { MembershipConfig } from './membership';
+import type { PeerHealth } from './peer-health';
+import type { WriteOutcome } from './quorum-policy';
+import type { CatalogEntry } from './repo-catalog';
+
+const USAGE = `Usage: gitrep [--server URL] [--token TOKEN] [--json] <command>
+
+Repositories:
+  repos list [--owner USER] [--prefix TEXT] [--visibility all|public|private]
+             [--sort name|created|pushed|size] [--page N] [--per-page N]
+  repos create USER/REPO [--description TEXT] [--default-branch NAME] [--private]
+  repos get USER/REPO
+  repos delete USER/REPO
+
+Cluster (admin):
+  health                                This server and its peers as it sees them
+  in-doubt list                         Prepared transactions nobody could resolve
+  in-doubt resolve                      Ask the peers about them again now
+  in-doubt resolve TXN_ID --commit|--abort
+                                        Decide one by hand
+  check                                 Run an anti-entropy pass now
+  maintenance status|on|off [--reason TEXT]
+  members list                          The cluster's members and epoch
+  members add URL                       Add a running server
+  members remove URL
+  members replace URL NEW_URL           Swap one member for another in one change
+
+--server defaults to $GITREP_SERVER or http://localhost:3000 and --token to
+$GITREP_TOKEN. --json prints the server's response instead of a table.
+`;
+
+const OPTIONS = {
+  server: { type: 'string' },
+  token: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  owner: { type: 'string' },
+  prefix: { type: 'string' },
+  visibility: { type: 'string' },
+  sort: { type: 'string' },
+  direction: { type: 'string' },
+  page: { type: 'string' },
+  'per-page': { type: 'string' },
+  description: { type: 'string' },
+  'default-branch': { type: 'string' },
+  private: { type: 'boolean' },
+  commit: { type: 'boolean' },
+  abort: { type: 'boolean' },
+  reason: { type: 'string' }
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+// What a command prints: the response as is for --json, otherwise text
+interface Output {
+  json: unknown;
+  text: string;
+}
+
+// Response bodies, as far as the commands read them
+interface WriteSummary {
+  replicated: boolean;
+  outcome: WriteOutcome;
+  peers_confirmed: number;
+}
+
+type RepoEntry = CatalogEntry & { private: boolean };
+
+interface RepoList {
+  repos: RepoEntry[];
+  count: number;
+  total: number;
+  page: number;
+}
+
+type RepoCreated = RepoEntry & WriteSummary;
+
+interface RepoDeleted extends WriteSummary {
+  repo_id: string;
+  trash_id: string;
+}
+
+interface Health {
+  server_id: string;
+  status: 'healthy' | 'degraded' | 'maintenance';
+  sync: SyncState;
+  load: { cpu: number; memory: number };
+  maintenance: MaintenanceState | null;
+  peer_health: PeerHealth[];
+}
+
+interface Settled {
+  transaction_id: string;
+  decision: 'commit' | 'abort';
+}
+
+interface MaintenanceStatus {
+  server_id: string;
+  maintenance: MaintenanceState | null;
+  sync: SyncState;
+}
+
+// A membership change also reports how it replicated
+type Members = MembershipConfig & Partial<WriteSummary>;
+
+type Command = (client: AxiosInstance, args: string[], options: Options) => Promise<Output>;
+
+// A mistake in the command line rather than a failed request
+class UsageError extends Error {}
+
+export interface CliIo {
+  out: (text: string) => void;
+  err: (text: string) => void;
+}
+
+const COMMANDS: Record<string, Command> = {
+  'repos list': async (client, args, options) => {
+    const { data } = await client.get<RepoList>('/repos', {
+      params: {
+        owner: options.owner,
+        prefix: options.prefix,
+        visibility: options.visibility,
+        sort: options.sort,
+        direction: options.direction,
+        page: options.page,
+        per_page: options['per-page']
+      }
+    });
+    const table = formatTable(
+      ['REPO', 'VISIBILITY', 'DEFAULT BRANCH', 'SIZE', 'PUSHED'],
+      data.repos.map(repo => [
+        repo.repo_id,
+        repo.private ? 'private' : 'public',
+        repo.default_branch,
+        formatBytes(repo.size_bytes),
+        repo.pushed_at || '-'
+      ])
+    );
+    return { json: data, text: `${table}\n${data.count} of ${data.total} (page ${data.page})` };
+  },
+
+  'repos create': async (client, args, options) => {
+    const { data } = await client.post<RepoCreated>('/repos', {
+      repo_id: repoArg(args),
+      description: options.description,
+      default_branch: options['default-branch'],
+      private: options.private
+    });
+    return { json: data, text: `Created ${data.repo_id} (${describeWrite(data)})` };
+  },
+
+  'repos get': async (client, args) => {
+    const { data } = await client.get<RepoEntry>(repoPath(repoArg(args)));
+    return {
+      json: data,
+      text: formatFields([
+        ['Repository', data.repo_id],
+        ['Description', data.description || '-'],
+        ['Default branch', data.default_branch],
+        ['Visibility', data.private ? 'private' : 'public'],
+        ['Size', formatBytes(data.size_bytes)],
+        ['Created', data.created_at],
+        ['Pushed', data.pushed_at || '-']
+      ])
+    };
+  },
+
+  'repos delete': async (client, args) => {
+    const { data } = await client.delete<RepoDeleted>(repoPath(repoArg(args)));
+    return { json: data, text: `Deleted ${data.repo_id}; restorable as trash ${data.trash_id} (${describeWrite(data)})` };
+  },
+
+  health: async client => {
+    const { data } = await client.get<Health>('/health');
+    const summary = `${data.server_id}: ${data.status}, ${data.sync}, cpu ${data.load.cpu}%, memory ${data.load.memory}%` +
+      (data.maintenance ? `\nIn maintenance since ${data.maintenance.since}: ${data.maintenance.reason}` : '');
+    const peers = formatTable(
+      ['PEER', 'STATUS', 'LATENCY', 'LAST SEEN', 'ERROR'],
+      data.peer_health.map(peer => [
+        peer.url,
+        peer.status,
+        peer.latency_ms === undefined ? '-' : `${peer.latency_ms}ms`,
+        peer.last_seen || '-',
+        peer.error || ''
+      ])
+    );
+    return { json: data, text: `${summary}\n\n${peers}` };
+  },
+
+  'in-doubt list': async client => {
+    const { data } = await client.get<{ blocked: BlockedTransaction[] }>('/replicate/in-doubt');
+    return { json: data, text: formatBlocked(data.blocked) };
+  },
+
+  'in-doubt resolve': async (client, args, options) => {
+    if (args.length === 0) {
+      const { data } = await client.post<ResolutionReport>('/replicate/in-doubt');
+      return {
+        json: data,
+        text: `Committed: ${data.committed.length}, aborted: ${data.aborted.length}, still blocked: ${data.blocked.length}` +
+          (data.blocked.length > 0 ? `\n\n${formatBlocked(data.blocked)}` : '')
+      };
+    }
+
+    if (options.commit === options.abort) {
+      throw new UsageError('Give either --commit or --abort');
+    }
+    const decision = options.commit ? 'commit' : 'abort';
+    const { data } = await client.post<Settled>(`/replicate/in-doubt/${encodeURIComponent(args[0])}`, { decision });
+    return { json: data, text: `${data.transaction_id}: ${decision}` };
+  },
+
+  check: async client => {
+    const { data } = await client.post<AntiEntropyStatus>('/replicate/anti-entropy');
+    const table = formatTable(
+      ['REPO', 'STATUS', 'MAJORITY', 'DETAILS'],
+      data.differences.map(difference => [
+        difference.repo_id,
+        difference.status,
+        difference.majority === undefined ? '-' : difference.majority ?? 'missing',
+        difference.details || ''
+      ])
+    );
+    return { json: data, text: `Compared with ${data.peers_compared} peer(s); ${data.repairs} repair(s) since startup\n\n${table}` };
+  },
+
+  'maintenance status': async client => describeMaintenance((await client.get<MaintenanceStatus>('/replicate/maintenance')).data),
+
+  'maintenance on': async (client, args, options) =>
+    describeMaintenance((await client.post<MaintenanceStatus>('/replicate/maintenance', { enabled: true, reason: options.reason })).data),
+
+  'maintenance off': async client =>
+    describeMaintenance((await client.post<MaintenanceStatus>('/replicate/maintenance', { enabled: false })).data),
+
+  'members list': async client => describeMembers((await client.get<Members>('/cluster/members')).data),
+
+  'members add': async (client, args) =>
+    describeMembers((await client.post<Members>('/cluster/members', { url: urlArgs(args, 1)[0] })).data),
+
+  'members remove': async (client, args) =>
+    describeMembers((await client.delete<Members>('/cluster/members', { params: { url: urlArgs(args, 1)[0] } })).data),
+
+  'members replace': async (client, args) => {
+    const [url, new_url] = urlArgs(args, 2);
+    return describeMembers((await client.post<Members>('/cluster/members/replace', { url, new_url })).data);
+  }
+};
+
+/**
+ * Runs one gitrep command against a server's HTTP API and returns the
+ * exit code: 0 on success, 1 when the request failed, 2 for a bad command
+ * line.
+ */
+export async function main(argv: string[], io: CliIo = defaultIo): Promise<number> {
+  let options: Options;
+  let positionals: string[];
+  try {
+    ({ values: options, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+  } catch (error: any) {
+    io.err(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (options.help || positionals.length === 0) {
+    (options.help ? io.out : io.err)(USAGE);
+    return options.help ? 0 : 2;
+  }
+
+  // Commands are one word (health) or two (repos list)
+  const name = [positionals.slice(0, 2).join(' '), positionals[0]].find(candidate => COMMANDS[candidate]);
+  if (!name) {
+    io.err(`Unknown command: ${positionals.join(' ')}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const token = options.token ?? process.env.GITREP_TOKEN;
+  const client = axios.create({
+    baseURL: options.server ?? process.env.GITREP_SERVER ?? 'http://localhost:3000',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    timeout: 60000
+  });
+
+  try {
+    const output = await COMMANDS[name](client, positionals.slice(name.split(' ').length), options);
+    io.out(`${options.json ? JSON.stringify(output.json, null, 2) : output.text}\n`);
+    return 0;
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      io.err(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    const body = error.response?.data;
+    if (options.json && body) {
+      io.err(`${JSON.stringify(body, null, 2)}\n`);
+    } else {
+      const details = body?.details ? `: ${typeof body.details === 'string' ? body.details : JSON.stringify(body.details)}` : '';
+      const status = error.response ? `HTTP ${error.response.status}: ` : '';
+      io.err(`Error: ${status}${body?.error || error.response?.statusText || error.message}${details}\n`);
+    }
+    return 1;
+  }
+}
+
+// Columns padded to their widest cell
+export function formatTable(columns: string[], rows: unknown[][]): string {
+  if (rows.length === 0) {
+    return '(none)';
+  }
+  const cells = [columns, ...rows.map(row => row.map(cell => String(cell ?? '')))];
+  const widths = columns.map((_, index) => Math.max(...cells.map(row => row[index].length)));
+  return cells
+    .map(row => row.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd())
+    .join('\n');
+}
+
+function formatFields(fields: Array<[string, unknown]>): string {
+  const width = Math.max(...fields.map(([label]) => label.length));
+  return fields.map(([label, value]) => `${`${label}:`.padEnd(width + 1)}  ${value}`).join('\n');
+}
+
+function formatBytes(bytes: number | undefined): string {
+  if (bytes === undefined) {
+    return '-';
+  }
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatBlocked(blocked: BlockedTransaction[]): string {
+  return formatTable(
+    ['TRANSACTION', 'REPO', 'COORDINATOR', 'PREPARED AT', 'REASON'],
+    blocked.map(transaction => [
+      transaction.transaction_id,
+      transaction.repo_id,
+      transaction.coordinator_id,
+      transaction.prepared_at,
+      transaction.reason
+    ])
+  );
+}
+
+function describeWrite(data: WriteSummary): string {
+  return data.replicated ? `${data.outcome}, ${data.peers_confirmed} peer(s) confirmed` : 'not replicated';
+}
+
+function describeMaintenance(data: MaintenanceStatus): Output {
+  return {
+    json: data,
+    text: data.maintenance
+      ? `${data.server_id} is in maintenance since ${data.maintenance.since}: ${data.maintenance.reason}`
+      : `${data.server_id} is in service (${data.sync})`
+  };
+}
+
+// The member list as the server has it after the request
+function describeMembers(data: Members): Output {
+  const table = formatTable(
+    ['URL', 'SERVER'],
+    data.members.map(member => [member.url, member.server_id || '-'])
+  );
+  const change = data.replicated === undefined ? '' : ` (${describeWrite(data as WriteSummary)})`;
+  return { json: data, text: `Membership epoch ${data.epoch}${change}\n\n${table}` };
+}
+
+function urlArgs(args: string[], count: number): string[] {
+  if (args.length !== count) {
+    throw new UsageError(count === 1 ? 'Expected one server URL' : `Expected ${count} server URLs`);
+  }
+  return args;
+}
+
+function repoArg(args: string[]): string {
+  if (args.length !== 1 || !/^[^/]+\/[^/]+$/.test(args[0])) {
+    throw new UsageError('Expected one repository as USER/REPO');
+  }
+  return args[0];
+}
+
+function repoPath(repoId: string): string {
+  return `/repos/${repoId.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+const defaultIo: CliIo = {
+  out: text => process.stdout.write(text),
+  err: text => process.stderr.write(text)
+};
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
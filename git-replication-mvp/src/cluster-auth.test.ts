@@ -0,0 +1,120 @@
+import axios from 'axios';
+import express, { Request, Response } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ClusterAuth, captureRawBody } from './cluster-auth';
+
+describe('ClusterAuth', () => {
+  const secret = 'cluster-secret';
+  const members = ['server-1', 'server-2'];
+  let server: Server;
+  let baseUrl: string;
+
+  const post = (path: string, body: object, headers: Record<string, string>) =>
+    axios.create().post(`${baseUrl}${path}`, JSON.stringify(body), {
+      headers: { ...headers, 'Content-Type': 'application/json' }
+    });
+
+  beforeAll(async () => {
+    // A peer endpoint behind the middleware of server-2
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    const peerOnly = new ClusterAuth('server-2', secret, members).middleware();
+    app.all('/replicate/*', peerOnly, (req: Request, res: Response) => {
+      res.status(200).json({ node: res.locals.clusterNode, query: req.query });
+    });
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should accept requests signed by a member through the axios interceptor', async () => {
+    const client = axios.create();
+    new ClusterAuth('server-1', secret, members).install(client, [baseUrl]);
+
+    const posted = await client.post(`${baseUrl}/replicate/prepare`, { transaction_id: 'txn-1', coordinator_id: 'server-1' });
+    const fetched = await client.get(`${baseUrl}/replicate/journal`, { params: { after: 3, limit: 10 } });
+
+    expect(posted.data.node).toBe('server-1');
+    expect(fetched.data).toEqual({ node: 'server-1', query: { after: '3', limit: '10' } });
+  });
+
+  it('should leave requests to other hosts unsigned', async () => {
+    const client = axios.create();
+    new ClusterAuth('server-1', secret, members).install(client, ['http://localhost:1']);
+
+    await expect(client.post(`${baseUrl}/replicate/prepare`, {})).rejects.toMatchObject({
+      response: { status: 401, data: { details: 'Missing cluster signature' } }
+    });
+  });
+
+  it('should reject a tampered body', async () => {
+    const body = { transaction_id: 'txn-1', coordinator_id: 'server-1' };
+    const headers = new ClusterAuth('server-1', secret, members).sign('POST', '/replicate/commit', JSON.stringify(body));
+
+    await expect(post('/replicate/commit', { ...body, transaction_id: 'txn-2' }, headers)).rejects.toMatchObject({
+      response: { status: 401, data: { details: 'Invalid cluster signature' } }
+    });
+  });
+
+  it('should reject a signature made with another secret', async () => {
+    const headers = new ClusterAuth('server-1', 'guessed', members).sign('POST', '/replicate/abort', '{}');
+
+    await expect(post('/replicate/abort', {}, headers)).rejects.toMatchObject({
+      response: { status: 401, data: { details: 'Invalid cluster signature' } }
+    });
+  });
+
+  it('should reject a replayed request', async () => {
+    const headers = new ClusterAuth('server-1', secret, members).sign('POST', '/replicate/abort', '{}');
+
+    await post('/replicate/abort', {}, headers);
+    await expect(post('/replicate/abort', {}, headers)).rejects.toMatchObject({
+      response: { status: 401, data: { details: 'Replayed request' } }
+    });
+  });
+
+  it('should reject a request signed outside the allowed window', async () => {
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now - 120000);
+    const headers = new ClusterAuth('server-1', secret, members).sign('POST', '/replicate/abort', '{}');
+    dateSpy.mockRestore();
+
+    await expect(post('/replicate/abort', {}, headers)).rejects.toMatchObject({
+      response: { status: 401, data: { details: 'Request timestamp outside the allowed window' } }
+    });
+  });
+
+  it('should reject nodes that are not cluster members', async () => {
+    const headers = new ClusterAuth('server-9', secret, members).sign('POST', '/replicate/abort', '{}');
+
+    await expect(post('/replicate/abort', {}, headers)).rejects.toMatchObject({
+      response: { status: 403, data: { details: 'Unknown cluster member: server-9' } }
+    });
+  });
+
+  it('should reject a member acting for another coordinator', async () => {
+    const body = { transaction_id: 'txn-1', coordinator_id: 'server-2' };
+    const headers = new ClusterAuth('server-1', secret, members).sign('POST', '/replicate/commit', JSON.stringify(body));
+
+    await expect(post('/replicate/commit', body, headers)).rejects.toMatchObject({
+      response: { status: 403, data: { details: 'coordinator_id server-2 does not match signing member server-1' } }
+    });
+  });
+
+  it('should verify git read credentials from members', () => {
+    const verifier = new ClusterAuth('server-2', secret, members);
+    const value = (auth: ClusterAuth) => auth.readHeader().slice('X-Cluster-Read: '.length);
+
+    expect(verifier.verifyReadHeader(value(new ClusterAuth('server-1', secret, members)))).toBe('server-1');
+    expect(() => verifier.verifyReadHeader(value(new ClusterAuth('server-1', 'guessed', members))))
+      .toThrow('Invalid cluster read credential');
+    expect(() => verifier.verifyReadHeader(value(new ClusterAuth('server-9', secret, members))))
+      .toThrow('Invalid cluster read credential');
+  });
+});
@@ -0,0 +1,241 @@
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+export const NODE_HEADER = 'x-cluster-node';
+export const TIMESTAMP_HEADER = 'x-cluster-timestamp';
+export const NONCE_HEADER = 'x-cluster-nonce';
+export const SIGNATURE_HEADER = 'x-cluster-signature';
+// Credential for git fetches from peers: "<node> <timestamp> <hmac>"
+export const READ_HEADER = 'X-Cluster-Read';
+
+// Body fields naming the node a request acts for; they must match the signer
+const IDENTITY_FIELDS = ['coordinator_id', 'owner'];
+
+export class ClusterAuthError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ClusterAuthError';
+    this.status = status;
+  }
+}
+
+export interface ClusterAuthOptions {
+  // How far a request's timestamp may be from this node's clock
+  maxSkewMs?: number;
+}
+
+// Request bodies exactly as received, for checking signatures
+const rawBodies = new WeakMap<IncomingMessage, Buffer>();
+
+// `verify` hook for express.json(): keeps the bytes the signature covers
+export function captureRawBody(req: IncomingMessage, res: ServerResponse, buf: Buffer): void {
+  rawBodies.set(req, buf);
+}
+
+/**
+ * HMAC-SHA256 authentication of peer-to-peer traffic with a shared cluster
+ * secret.
+ *
+ * The signature covers the method, path and query, the signing node's id,
+ * a timestamp, a one-time nonce and the SHA-256 of the body. A request is
+ * accepted only from a known cluster member, within `maxSkewMs` of this
+ * node's clock, with a nonce not seen before (nonces are remembered for as
+ * long as their timestamps stay acceptable), and with any `coordinator_id`
+ * or `owner` in the body naming the signer.
+ */
+export class ClusterAuth {
+  private serverId: string;
+  private secret: string;
+  // Members from the environment, always accepted
+  private configuredMembers: string[];
+  private members: Set<string>;
+  private maxSkewMs: number;
+  // nonce -> when it can be forgotten
+  private nonces: Map<string, number> = new Map();
+
+  constructor(serverId: string, secret: string, members: string[], options: ClusterAuthOptions = {}) {
+    if (!secret) {
+      throw new Error('Cluster secret must not be empty');
+    }
+    this.serverId = serverId;
+    this.secret = secret;
+    this.configuredMembers = members;
+    this.members = new Set(members);
+    this.maxSkewMs = options.maxSkewMs ?? 60000;
+  }
+
+  // Follow a membership change: also accept the members' server ids
+  setMembers(serverIds: string[]): void {
+    this.members = new Set([...this.configuredMembers, ...serverIds]);
+  }
+
+  // Signature headers for a request from this node
+  sign(method: string, path: string, body: string): Record<string, string> {
+    const timestamp = String(Date.now());
+    const nonce = uuidv4();
+    return {
+      [NODE_HEADER]: this.serverId,
+      [TIMESTAMP_HEADER]: timestamp,
+      [NONCE_HEADER]: nonce,
+      [SIGNATURE_HEADER]: this.signature(method, path, this.serverId, timestamp, nonce, body)
+    };
+  }
+
+  // Resolves the signing node's id, or throws ClusterAuthError
+  verify(req: Request): string {
+    const node = req.get(NODE_HEADER);
+    const timestamp = req.get(TIMESTAMP_HEADER);
+    const nonce = req.get(NONCE_HEADER);
+    const signature = req.get(SIGNATURE_HEADER);
+
+    if (!node || !timestamp || !nonce || !signature) {
+      throw new ClusterAuthError(401, 'Missing cluster signature');
+    }
+    if (!this.members.has(node)) {
+      throw new ClusterAuthError(403, `Unknown cluster member: ${node}`);
+    }
+
+    const now = Date.now();
+    const sentAt = Number(timestamp);
+    if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > this.maxSkewMs) {
+      throw new ClusterAuthError(401, 'Request timestamp outside the allowed window');
+    }
+
+    const body = rawBodies.get(req) ?? '';
+    const expected = Buffer.from(this.signature(req.method, req.originalUrl, node, timestamp, nonce, body));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      throw new ClusterAuthError(401, 'Invalid cluster signature');
+    }
+
+    // Checked after the signature, so forged requests cannot burn nonces
+    this.forgetExpiredNonces(now);
+    if (this.nonces.has(nonce)) {
+      throw new ClusterAuthError(401, 'Replayed request');
+    }
+    this.nonces.set(nonce, sentAt + this.maxSkewMs);
+
+    for (const field of IDENTITY_FIELDS) {
+      const claimed = req.body?.[field];
+      if (claimed !== undefined && claimed !== node) {
+        throw new ClusterAuthError(403, `${field} ${claimed} does not match signing member ${node}`);
+      }
+    }
+
+    return node;
+  }
+
+  // A git fetch sends the same headers with each of its requests, so this
+  // credential has no nonce; it is only good for reads, within the window
+  readHeader(): string {
+    const timestamp = String(Date.now());
+    return `${READ_HEADER}: ${this.serverId} ${timestamp} ${this.readSignature(this.serverId, timestamp)}`;
+  }
+
+  // Resolves the fetching node's id, or throws ClusterAuthError
+  verifyReadHeader(value: string): string {
+    const [node, timestamp, signature] = value.split(' ');
+
+    if (!node || !timestamp || !signature || !this.members.has(node)) {
+      throw new ClusterAuthError(401, 'Invalid cluster read credential');
+    }
+    if (Math.abs(Date.now() - Number(timestamp)) > this.maxSkewMs) {
+      throw new ClusterAuthError(401, 'Cluster read credential expired');
+    }
+
+    const expected = Buffer.from(this.readSignature(node, timestamp));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      throw new ClusterAuthError(401, 'Invalid cluster read credential');
+    }
+    return node;
+  }
+
+  // Express middleware for the peer-only endpoints
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      try {
+        res.locals.clusterNode = this.verify(req);
+      } catch (error: any) {
+        if (!(error instanceof ClusterAuthError)) {
+          throw error;
+        }
+        res.status(error.status).json({
+          error: 'Cluster authentication failed',
+          details: error.message
+        });
+        return;
+      }
+      next();
+    };
+  }
+
+  // Sign every request the instance sends to one of the peers; a function
+  // gives the peers at the time of each request
+  install(instance: AxiosInstance, peerUrls: string[] | (() => string[])): void {
+    instance.interceptors.request.use(config => {
+      const url = config.url || '';
+      const peers = typeof peerUrls === 'function' ? peerUrls() : peerUrls;
+      if (!peers.some(peerUrl => url.startsWith(`${peerUrl}/`))) {
+        return config;
+      }
+      return this.signConfig(config);
+    });
+  }
+
+  // Sends the body and query exactly as signed
+  signConfig(config: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
+    const url = new URL(config.url!);
+    for (const [key, value] of Object.entries(config.params || {})) {
+      url.searchParams.set(key, String(value));
+    }
+    config.url = url.toString();
+    config.params = undefined;
+
+    const body = config.data === undefined
+      ? ''
+      : typeof config.data === 'string' ? config.data : JSON.stringify(config.data);
+    if (config.data !== undefined) {
+      config.data = body;
+      config.headers.set('Content-Type', 'application/json');
+    }
+
+    const method = (config.method || 'get').toUpperCase();
+    for (const [header, value] of Object.entries(this.sign(method, `${url.pathname}${url.search}`, body))) {
+      config.headers.set(header, value);
+    }
+    return config;
+  }
+
+  private signature(
+    method: string,
+    path: string,
+    node: string,
+    timestamp: string,
+    nonce: string,
+    body: string | Buffer
+  ): string {
+    const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update([method.toUpperCase(), path, node, timestamp, nonce, bodyHash].join('\n'))
+      .digest('hex');
+  }
+
+  private readSignature(node: string, timestamp: string): string {
+    return crypto.createHmac('sha256', this.secret).update(`git-read\n${node}\n${timestamp}`).digest('hex');
+  }
+
+  private forgetExpiredNonces(now: number): void {
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt < now) {
+        this.nonces.delete(nonce);
+      }
+    }
+  }
+}
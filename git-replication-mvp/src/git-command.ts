@@ -0,0 +1,58 @@
+import { spawn, ChildProcess } from 'child_process';
+
+export interface GitCommandOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  input?: Buffer | string;
+}
+
+export class GitCommandError extends Error {
+  exitCode: number | null;
+  stderr: string;
+
+  constructor(args: string[], exitCode: number | null, stderr: string) {
+    super(`git ${args.join(' ')} failed (exit ${exitCode}): ${stderr.trim()}`);
+    this.name = 'GitCommandError';
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * Spawn a git process without waiting for it. Used for streaming the
+ * smart HTTP services, where stdin/stdout are piped to the HTTP request.
+ */
+export function spawnGit(args: string[], options: GitCommandOptions = {}): ChildProcess {
+  return spawn('git', args, {
+    cwd: options.cwd,
+    env: { ...process.env, ...options.env },
+    stdio: ['pipe', 'pipe', 'pipe']
+  });
+}
+
+/**
+ * Run a git command to completion and return its stdout.
+ * Rejects with GitCommandError on a non-zero exit code.
+ */
+export function runGit(args: string[], options: GitCommandOptions = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawnGit(args, options);
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout!.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr!.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new GitCommandError(args, code, Buffer.concat(stderr).toString()));
+      }
+    });
+
+    // The process may exit before consuming all input (e.g. on a bad pack)
+    child.stdin!.on('error', () => {});
+    child.stdin!.end(options.input);
+  });
+}
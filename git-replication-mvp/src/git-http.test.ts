@@ -0,0 +1,128 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { runGit } from './git-command';
+import { RepoStorage } from './storage';
+import { stopServer, waitForServer } from './test-helpers';
+
+const gitIdentity = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com'];
+
+describe('Git Smart HTTP', () => {
+  const serverUrl = 'http://localhost:3000';
+  const testDataDir = './test-data-git-http';
+  const workDir = './test-data-git-http-work';
+  let storage: RepoStorage;
+
+  beforeAll(async () => {
+    process.env.DATA_DIR = testDataDir;
+    require('./server');
+    await waitForServer(1000);
+
+    // Seed a bare repo with one commit on main
+    storage = new RepoStorage(testDataDir);
+    await storage.createRepo('alice/project');
+
+    const source = path.join(workDir, 'source');
+    await fs.mkdir(source, { recursive: true });
+    await runGit(['init', '-b', 'main', source]);
+    await fs.writeFile(path.join(source, 'README.md'), 'hello\n');
+    await runGit([...gitIdentity, '-C', source, 'add', 'README.md']);
+    await runGit([...gitIdentity, '-C', source, 'commit', '-m', 'Initial commit']);
+    await runGit(['-C', source, 'push', path.resolve(storage.getRepoPath('alice/project')), 'main']);
+  });
+
+  afterAll(async () => {
+    await stopServer();
+    delete process.env.DATA_DIR;
+    await fs.rm(testDataDir, { recursive: true, force: true });
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('GET /:user/:repo.git/info/refs', () => {
+    it('should advertise refs for git-upload-pack', async () => {
+      const response = await axios.get(
+        `${serverUrl}/alice/project.git/info/refs?service=git-upload-pack`,
+        { responseType: 'text' }
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/x-git-upload-pack-advertisement');
+      expect(response.data.startsWith('001e# service=git-upload-pack\n0000')).toBe(true);
+      expect(response.data).toContain('refs/heads/main');
+    });
+
+    it('should reject dumb protocol requests', async () => {
+      await expect(
+        axios.get(`${serverUrl}/alice/project.git/info/refs`)
+      ).rejects.toMatchObject({
+        response: { status: 403 }
+      });
+    });
+
+    it('should return 404 for unknown repository', async () => {
+      await expect(
+        axios.get(`${serverUrl}/alice/missing.git/info/refs?service=git-upload-pack`)
+      ).rejects.toMatchObject({
+        response: { status: 404 }
+      });
+    });
+  });
+
+  describe('git clone', () => {
+    it('should clone a repository over HTTP', async () => {
+      const clone = path.join(workDir, 'clone');
+      await runGit(['clone', `${serverUrl}/alice/project.git`, clone]);
+
+      const readme = await fs.readFile(path.join(clone, 'README.md'), 'utf8');
+      expect(readme).toBe('hello\n');
+    });
+  });
+
+  describe('git push', () => {
+    it('should advertise refs for git-receive-pack', async () => {
+      const response = await axios.get(
+        `${serverUrl}/alice/project.git/info/refs?service=git-receive-pack`,
+        { responseType: 'text' }
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/x-git-receive-pack-advertisement');
+      expect(response.data).toContain('refs/heads/main\0report-status');
+    });
+
+    it('should answer 404 when the repository goes away while refs are listed', async () => {
+      jest.spyOn(RepoStorage.prototype, 'repoExists')
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      jest.spyOn(RepoStorage.prototype, 'listRefs').mockRejectedValueOnce(new Error('not a git repository'));
+
+      await expect(
+        axios.get(`${serverUrl}/alice/project.git/info/refs?service=git-receive-pack`)
+      ).rejects.toMatchObject({
+        response: { status: 404 }
+      });
+    });
+
+    it('should push new commits and branches over HTTP', async () => {
+      const clone = path.join(workDir, 'push-clone');
+      await runGit(['clone', `${serverUrl}/alice/project.git`, clone]);
+      await fs.writeFile(path.join(clone, 'CHANGES.md'), 'v2\n');
+      await runGit([...gitIdentity, '-C', clone, 'add', 'CHANGES.md']);
+      await runGit([...gitIdentity, '-C', clone, 'commit', '-m', 'Second commit']);
+      await runGit(['-C', clone, 'push', 'origin', 'main', 'main:refs/heads/feature']);
+
+      const head = (await runGit(['-C', clone, 'rev-parse', 'HEAD'])).toString().trim();
+      const refs = await storage.listRefs('alice/project');
+      expect(refs.get('refs/heads/main')).toBe(head);
+      expect(refs.get('refs/heads/feature')).toBe(head);
+    });
+
+    it('should delete a branch over HTTP', async () => {
+      const clone = path.join(workDir, 'push-clone');
+      await runGit(['-C', clone, 'push', 'origin', ':refs/heads/feature']);
+
+      const refs = await storage.listRefs('alice/project');
+      expect(refs.has('refs/heads/feature')).toBe(false);
+    });
+  });
+});
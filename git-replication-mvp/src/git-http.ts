@@ -0,0 +1,289 @@
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import zlib from 'zlib';
+import { RepoStorage, RefUpdate, ZERO_SHA } from './storage';
+import { GitServer, PushResult } from './git-server';
+import { spawnGit } from './git-command';
+import { decodePktLines, encodePktLine, encodeSideband, FLUSH_PKT } from './pkt-line';
+
+const SUPPORTED_SERVICES = ['git-upload-pack', 'git-receive-pack'];
+
+// Pushes are not handled by `git receive-pack`, so we advertise only the
+// capabilities GitServer.pushRefs implements.
+const RECEIVE_PACK_CAPABILITIES = [
+  'report-status',
+  'delete-refs',
+  'side-band-64k',
+  'quiet',
+  'atomic',
+  'ofs-delta',
+  'agent=git-replication-mvp'
+];
+
+interface ReceivePackRequest {
+  updates: RefUpdate[];
+  capabilities: string[];
+  pack: Buffer | null;
+}
+
+/**
+ * Serves the Git smart HTTP protocol from the bare repositories in
+ * RepoStorage, so `git clone http://node/user/repo.git` works against
+ * any replica. Pushes are handed to GitServer, which makes this node
+ * the 2PC coordinator for the write.
+ */
+export class GitHttpHandler {
+  private storage: RepoStorage;
+  private gitServer: GitServer;
+
+  constructor(storage: RepoStorage, gitServer: GitServer) {
+    this.storage = storage;
+    this.gitServer = gitServer;
+  }
+
+  // GET /:user/:repo.git/info/refs?service=git-upload-pack|git-receive-pack
+  async handleInfoRefs(req: Request, res: Response): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+    const service = req.query.service;
+
+    if (typeof service !== 'string' || !SUPPORTED_SERVICES.includes(service)) {
+      res.status(403).send('Only the smart HTTP protocol is supported');
+      return;
+    }
+
+    if (!(await this.repoAvailable(repo_id))) {
+      res.status(404).send('Repository not found');
+      return;
+    }
+
+    if (service === 'git-receive-pack') {
+      try {
+        await this.advertiseReceivePack(res, repo_id);
+      } catch (error: any) {
+        // Deleted or renamed since the check above
+        if (!(await this.storage.repoExists(repo_id))) {
+          res.status(404).send('Repository not found');
+        } else {
+          res.status(500).send(`Failed to list refs: ${error.message}`);
+        }
+      }
+      return;
+    }
+
+    const protocol = req.get('Git-Protocol');
+
+    res.status(200);
+    res.setHeader('Content-Type', `application/x-${service}-advertisement`);
+    res.setHeader('Cache-Control', 'no-cache');
+
+    // Protocol v2 clients expect the capability advertisement directly
+    if (!protocol?.includes('version=2')) {
+      res.write(encodePktLine(`# service=${service}\n`));
+      res.write(FLUSH_PKT);
+    }
+
+    this.runService(res, service, ['--stateless-rpc', '--advertise-refs'], repo_id, protocol);
+  }
+
+  // POST /:user/:repo.git/git-upload-pack
+  async handleUploadPack(req: Request, res: Response): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+
+    if (!(await this.repoAvailable(repo_id))) {
+      res.status(404).send('Repository not found');
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-git-upload-pack-result');
+    res.setHeader('Cache-Control', 'no-cache');
+
+    this.runService(
+      res,
+      'git-upload-pack',
+      ['--stateless-rpc'],
+      repo_id,
+      req.get('Git-Protocol'),
+      this.requestBody(req)
+    );
+  }
+
+  // POST /:user/:repo.git/git-receive-pack
+  async handleReceivePack(req: Request, res: Response): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+
+    if (!(await this.repoAvailable(repo_id))) {
+      res.status(404).send('Repository not found');
+      return;
+    }
+
+    let request: ReceivePackRequest;
+    try {
+      request = parseReceivePackRequest(await readStream(this.requestBody(req)));
+    } catch (error: any) {
+      res.status(400).send(`Invalid receive-pack request: ${error.message}`);
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-git-receive-pack-result');
+    res.setHeader('Cache-Control', 'no-cache');
+
+    if (request.updates.length === 0) {
+      res.end();
+      return;
+    }
+
+    let result: PushResult;
+    try {
+      result = await this.gitServer.pushRefs(
+        repo_id,
+        request.updates,
+        request.pack,
+        request.capabilities.includes('atomic')
+      );
+    } catch (error: any) {
+      result = {
+        refs: request.updates.map(update => ({ ref: update.ref, error: error.message }))
+      };
+    }
+
+    if (!request.capabilities.includes('report-status')) {
+      res.end();
+      return;
+    }
+
+    const report = encodeReportStatus(result);
+    res.end(
+      request.capabilities.includes('side-band-64k')
+        ? Buffer.concat([encodeSideband(1, report), FLUSH_PKT])
+        : report
+    );
+  }
+
+  private async advertiseReceivePack(res: Response, repoId: string): Promise<void> {
+    const refs = await this.storage.listRefs(repoId);
+    const capabilities = RECEIVE_PACK_CAPABILITIES.join(' ');
+    const lines: Buffer[] = [];
+
+    if (refs.size === 0) {
+      lines.push(encodePktLine(`${ZERO_SHA} capabilities^{}\0${capabilities}\n`));
+    } else {
+      let first = true;
+      for (const [ref, sha] of refs) {
+        lines.push(encodePktLine(first ? `${sha} ${ref}\0${capabilities}\n` : `${sha} ${ref}\n`));
+        first = false;
+      }
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-git-receive-pack-advertisement');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.end(Buffer.concat([
+      encodePktLine('# service=git-receive-pack\n'),
+      FLUSH_PKT,
+      ...lines,
+      FLUSH_PKT
+    ]));
+  }
+
+  private async repoAvailable(repoId: string): Promise<boolean> {
+    return RepoStorage.isValidRepoId(repoId) && this.storage.repoExists(repoId);
+  }
+
+  // Git clients gzip large request bodies
+  private requestBody(req: Request): Readable {
+    return req.get('Content-Encoding') === 'gzip'
+      ? req.pipe(zlib.createGunzip())
+      : req;
+  }
+
+  private runService(
+    res: Response,
+    service: string,
+    args: string[],
+    repoId: string,
+    protocol: string | undefined,
+    input?: Readable
+  ): void {
+    // Replicas catching up fetch the objects of replayed writes by SHA
+    const config = service === 'git-upload-pack'
+      ? ['-c', 'uploadpack.allowReachableSHA1InWant=true']
+      : [];
+    const child = spawnGit(
+      [...config, service.replace(/^git-/, ''), ...args, this.storage.getRepoPath(repoId)],
+      { env: protocol ? { GIT_PROTOCOL: protocol } : {} }
+    );
+
+    child.on('error', (error) => {
+      if (!res.headersSent) {
+        res.status(500).send(`Failed to run ${service}: ${error.message}`);
+      } else {
+        res.destroy(error);
+      }
+    });
+
+    if (input) {
+      child.stdin!.on('error', () => {});
+      input.pipe(child.stdin!);
+    } else {
+      child.stdin!.end();
+    }
+
+    child.stdout!.pipe(res);
+  }
+}
+
+function readStream(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+// Request body: "<old> <new> <ref>" commands (the first carrying
+// capabilities after a NUL), a flush packet, then the packfile if any
+// ref is created or updated.
+function parseReceivePackRequest(body: Buffer): ReceivePackRequest {
+  if (body.length === 0 || body.toString('ascii', 0, 4) === '0000') {
+    return { updates: [], capabilities: [], pack: null };
+  }
+
+  const { lines, offset } = decodePktLines(body);
+  const updates: RefUpdate[] = [];
+  let capabilities: string[] = [];
+
+  lines.forEach((line, index) => {
+    let command = line.toString('utf8').replace(/\n$/, '');
+
+    if (index === 0) {
+      const nul = command.indexOf('\0');
+      if (nul !== -1) {
+        capabilities = command.slice(nul + 1).split(' ').filter(Boolean);
+        command = command.slice(0, nul);
+      }
+    }
+
+    const match = /^([0-9a-f]{40}) ([0-9a-f]{40}) (refs\/\S+)$/.exec(command);
+    if (!match) {
+      throw new Error(`Malformed command: ${command}`);
+    }
+
+    updates.push({ old_sha: match[1], new_sha: match[2], ref: match[3] });
+  });
+
+  const pack = offset < body.length ? body.subarray(offset) : null;
+  return { updates, capabilities, pack };
+}
+
+function encodeReportStatus(result: PushResult): Buffer {
+  return Buffer.concat([
+    encodePktLine(`unpack ${result.unpackError ? result.unpackError.split('\n')[0] : 'ok'}\n`),
+    ...result.refs.map(({ ref, error }) =>
+      encodePktLine(error ? `ng ${ref} ${error.split('\n')[0]}\n` : `ok ${ref}\n`)
+    ),
+    FLUSH_PKT
+  ]);
+}
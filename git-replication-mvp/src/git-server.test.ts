@@ -0,0 +1,449 @@
+import axios from 'axios';
+import { Request, Response } from 'express';
+import fs from 'fs/promises';
+import path from 'path';
+import { runGit } from './git-command';
+import { GitServer } from './git-server';
+import { RepoCatalog } from './repo-catalog';
+import { RepoStorage, ZERO_SHA } from './storage';
+import { createCommitPack } from './test-helpers';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('GitServer', () => {
+  const testDataDir = './test-data-git-server';
+  const workDir = './test-data-git-server-work';
+  let storage: RepoStorage;
+  let gitServer: GitServer;
+  let pack: Buffer;
+  let commit: string;
+
+  // The peer grants repository leases but fails every replication call
+  const failReplication = () => {
+    mockedAxios.post.mockImplementation(async (url: string) => {
+      if (url.includes('/replicate/locks/')) {
+        return { status: 200, data: { granted: true } };
+      }
+      throw new Error('Connection refused');
+    });
+  };
+
+  const mockResponse = () => {
+    const res: any = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response & { status: jest.Mock; json: jest.Mock };
+  };
+
+  beforeAll(async () => {
+    ({ commit, pack } = await createCommitPack(workDir));
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    storage = new RepoStorage(testDataDir);
+    gitServer = new GitServer(testDataDir, 'server-1', ['http://localhost:3001']);
+    await gitServer.initialize();
+    await storage.createRepo('alice/project');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('pushRefs', () => {
+    const update = () => ({ ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: commit });
+
+    it('should replicate the push and then update the local ref', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+
+      const result = await gitServer.pushRefs('alice/project', [update()], pack);
+
+      expect(result.refs).toEqual([{ ref: 'refs/heads/main', error: undefined }]);
+      expect((await storage.listRefs('alice/project')).get('refs/heads/main')).toBe(commit);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.objectContaining({
+          operation: 'push',
+          updates: [update()],
+          pack: pack.toString('base64')
+        }),
+        expect.any(Object)
+      );
+    });
+
+    it('should reject the ref and leave it unchanged when quorum is missed', async () => {
+      failReplication();
+
+      const result = await gitServer.pushRefs('alice/project', [update()], pack);
+
+      expect(result.refs[0].error).toContain('Quorum not reached');
+      expect((await storage.listRefs('alice/project')).has('refs/heads/main')).toBe(false);
+    });
+
+    it('should reject updates based on a stale old value', async () => {
+      const stale = { ...update(), old_sha: commit };
+
+      const result = await gitServer.pushRefs('alice/project', [stale], pack);
+
+      expect(result.refs[0].error).toBe('stale info');
+      expect(mockedAxios.post).not.toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should fail fast with repository busy while another server holds the lock', async () => {
+      gitServer.getLockTable().tryAcquire('alice/project', 'server-2', 'lease-1', 60000);
+
+      const result = await gitServer.pushRefs('alice/project', [update()], pack);
+
+      expect(result.refs).toEqual([{ ref: 'refs/heads/main', error: 'repository busy' }]);
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+      expect((await storage.listRefs('alice/project')).has('refs/heads/main')).toBe(false);
+    });
+
+    it('should release the lock once the push completes', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+
+      await gitServer.pushRefs('alice/project', [update()], pack);
+
+      expect(gitServer.getLockTable().get('alice/project')).toBeUndefined();
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/locks/release',
+        expect.objectContaining({ repo_id: 'alice/project' }),
+        expect.any(Object)
+      );
+    });
+
+    it('should report a corrupt packfile as an unpack error', async () => {
+      const result = await gitServer.pushRefs('alice/project', [update()], Buffer.from('PACKgarbage'));
+
+      expect(result.unpackError).toBeDefined();
+      expect(result.refs[0].error).toBe('unpacker error');
+    });
+
+    it('should not leave staged objects behind when quorum is missed', async () => {
+      failReplication();
+
+      await gitServer.pushRefs('alice/project', [update()], pack);
+
+      expect(await storage.hasObject('alice/project', commit)).toBe(false);
+      const staging = await fs.readdir(`${testDataDir}/.staging`);
+      expect(staging).toEqual([]);
+    });
+
+    it('should report a committed push as accepted and redo it after a restart when applying it here fails', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      const failure = jest.spyOn(RepoStorage.prototype, 'updateRefs').mockRejectedValueOnce(new Error('disk full'));
+
+      const result = await gitServer.pushRefs('alice/project', [update()], pack);
+
+      expect(result.refs).toEqual([{ ref: 'refs/heads/main', error: undefined }]);
+      expect((await storage.listRefs('alice/project')).has('refs/heads/main')).toBe(false);
+      const [owed] = gitServer.getReplicationCoordinator()!.getOwedWrites();
+      expect(owed.write).toMatchObject({ operation: 'push', updates: [update()] });
+      expect(owed.write).not.toHaveProperty('pack');
+      failure.mockRestore();
+
+      // The staged objects were kept for the redo
+      const restarted = new GitServer(testDataDir, 'server-1', ['http://localhost:3001']);
+      await restarted.initialize();
+      await restarted.redoOwedWrites();
+
+      expect((await storage.listRefs('alice/project')).get('refs/heads/main')).toBe(commit);
+      expect(restarted.getReplicationCoordinator()!.getOwedWrites()).toEqual([]);
+      expect(await fs.readdir(`${testDataDir}/.staging`)).toEqual([]);
+    });
+  });
+
+  describe('handleCreateRepo', () => {
+    const createRequest = (repo_id: string) => ({ body: { repo_id } }) as Request;
+
+    it('should create the repository once peers commit', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      const res = mockResponse();
+
+      await gitServer.handleCreateRepo(createRequest('bob/new-repo'), res);
+
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(await storage.repoExists('bob/new-repo')).toBe(true);
+    });
+
+    it('should leave no local repository when replication fails', async () => {
+      failReplication();
+      const res = mockResponse();
+
+      await gitServer.handleCreateRepo(createRequest('bob/new-repo'), res);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(await storage.repoExists('bob/new-repo')).toBe(false);
+      expect(await storage.listRepos()).toEqual(['alice/project']);
+      expect(await fs.readdir(`${testDataDir}/.staging`)).toEqual([]);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/abort',
+        expect.any(Object),
+        expect.any(Object)
+      );
+    });
+
+    it('should reject ids that leave the owner\'s namespace before replicating', async () => {
+      for (const repoId of ['alice/../bob/squat', 'alice/../../x']) {
+        const res = mockResponse();
+
+        await gitServer.handleCreateRepo(createRequest(repoId), res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+      }
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+      expect(await storage.repoExists('bob/squat')).toBe(false);
+      expect(await storage.listRepos()).toEqual(['alice/project']);
+    });
+
+    it('should answer 409 repository busy when the peer holds the lock', async () => {
+      mockedAxios.post.mockImplementation(async (url: string) => {
+        if (url.endsWith('/replicate/locks/acquire')) {
+          throw Object.assign(new Error('Request failed with status code 409'), {
+            response: {
+              status: 409,
+              data: {
+                error: 'Repository busy',
+                holder: { repo_id: 'bob/new-repo', owner: 'server-2', lease_id: 'lease-1', expires_at: '2030-01-01T00:00:00.000Z' }
+              }
+            }
+          });
+        }
+        return { status: 200, data: {} };
+      });
+      const res = mockResponse();
+
+      await gitServer.handleCreateRepo(createRequest('bob/new-repo'), res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Repository busy',
+        details: 'Repository busy: bob/new-repo is locked by server-2 until 2030-01-01T00:00:00.000Z'
+      });
+      expect(await storage.repoExists('bob/new-repo')).toBe(false);
+      expect(gitServer.getLockTable().get('bob/new-repo')).toBeUndefined();
+    });
+  });
+
+  describe('delete, rename and restore', () => {
+    const repoRequest = (params: object, body: object = {}) => ({ params, body }) as unknown as Request;
+
+    it('should replicate a delete and keep the repository in the trash under its transaction id', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      const res = mockResponse();
+
+      await gitServer.handleDeleteRepo(repoRequest({ user: 'alice', repo: 'project' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      const { trash_id } = res.json.mock.calls[0][0];
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.objectContaining({ transaction_id: trash_id, repo_id: 'alice/project', operation: 'delete' }),
+        expect.any(Object)
+      );
+      expect(await storage.repoExists('alice/project')).toBe(false);
+      expect(await storage.getTrashEntry(trash_id)).toMatchObject({ repo_id: 'alice/project' });
+    });
+
+    it('should keep the repository when the delete misses quorum', async () => {
+      failReplication();
+      const res = mockResponse();
+
+      await gitServer.handleDeleteRepo(repoRequest({ user: 'alice', repo: 'project' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(await storage.repoExists('alice/project')).toBe(true);
+      expect(await storage.listTrash()).toEqual([]);
+    });
+
+    it('should restore a deleted repository through the trash', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      await storage.trashRepo('alice/project', 'txn-delete');
+      const res = mockResponse();
+
+      await gitServer.handleRestoreRepo(repoRequest({ id: 'txn-delete' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(await storage.repoExists('alice/project')).toBe(true);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.objectContaining({ repo_id: 'alice/project', operation: 'restore', trash_id: 'txn-delete' }),
+        expect.any(Object)
+      );
+    });
+
+    it('should transfer a repository to another owner', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      const res = mockResponse();
+
+      await gitServer.handleRenameRepo(
+        repoRequest({ user: 'alice', repo: 'project' }, { new_repo_id: 'bob/project' }),
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(await storage.listRepos()).toEqual(['bob/project']);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.objectContaining({ repo_id: 'alice/project', operation: 'rename', target_repo_id: 'bob/project' }),
+        expect.any(Object)
+      );
+    });
+
+    it('should not rename onto an existing repository', async () => {
+      await storage.createRepo('bob/project');
+      const res = mockResponse();
+
+      await gitServer.handleRenameRepo(
+        repoRequest({ user: 'alice', repo: 'project' }, { new_repo_id: 'bob/project' }),
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(await storage.repoExists('alice/project')).toBe(true);
+    });
+
+    it('should reject a new id that is not a string', async () => {
+      const res = mockResponse();
+
+      await gitServer.handleRenameRepo(
+        repoRequest({ user: 'alice', repo: 'project' }, { new_repo_id: ['bob/project'] }),
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+      expect(await storage.repoExists('alice/project')).toBe(true);
+    });
+  });
+
+  describe('handleUpdateRefs', () => {
+    const updateRequest = (body: any) =>
+      ({ params: { user: 'alice', repo: 'project' }, body }) as unknown as Request;
+    const tagUpdate = () => ({ ref: 'refs/tags/v1', old_sha: ZERO_SHA, new_sha: commit });
+
+    beforeEach(async () => {
+      await runGit(['-C', workDir, 'push', '-q', path.resolve(storage.getRepoPath('alice/project')), 'main']);
+    });
+
+    it('should replicate the update as a compare-and-swap and then apply it', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      const res = mockResponse();
+
+      await gitServer.handleUpdateRefs(updateRequest({ updates: [tagUpdate()] }), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect((await storage.listRefs('alice/project')).get('refs/tags/v1')).toBe(commit);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.objectContaining({ operation: 'update-ref', updates: [tagUpdate()], force: false }),
+        expect.any(Object)
+      );
+    });
+
+    it('should reject malformed updates', async () => {
+      const res = mockResponse();
+
+      await gitServer.handleUpdateRefs(updateRequest({ updates: [{ ref: 'main', new_sha: commit }] }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should reject a stale old value without replicating', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: {} });
+      const res = mockResponse();
+
+      await gitServer.handleUpdateRefs(updateRequest({
+        updates: [{ ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: commit }]
+      }), res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Ref update rejected',
+        rejected: { 'refs/heads/main': 'stale info' }
+      });
+      expect(mockedAxios.post).not.toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should report a conflict when a participant votes no', async () => {
+      mockedAxios.post.mockImplementation(async (url: string) => {
+        if (url.endsWith('/replicate/prepare')) {
+          throw Object.assign(new Error('Request failed with status code 409'), {
+            response: { status: 409, data: { error: 'Prepare rejected', details: 'refs/tags/v1: stale info' } }
+          });
+        }
+        return { status: 200, data: {} };
+      });
+      const res = mockResponse();
+
+      await gitServer.handleUpdateRefs(updateRequest({ updates: [tagUpdate()] }), res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: 'Ref update rejected',
+        rejections: { 'http://localhost:3001': 'refs/tags/v1: stale info' }
+      }));
+      expect((await storage.listRefs('alice/project')).has('refs/tags/v1')).toBe(false);
+    });
+  });
+
+  describe('repository catalog', () => {
+    let catalog: RepoCatalog;
+
+    beforeEach(async () => {
+      catalog = new RepoCatalog(path.join(testDataDir, '.txlog', 'catalog.json'), storage);
+      gitServer = new GitServer(testDataDir, 'server-1', ['http://localhost:3001'], null, undefined, null, null, catalog);
+      await catalog.reconcile();
+    });
+
+    it('should replicate a metadata update and move HEAD to the new default branch', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      const res = mockResponse();
+
+      await gitServer.handleUpdateRepo(
+        { params: { user: 'alice', repo: 'project' }, body: { description: 'Docs', default_branch: 'trunk' } } as unknown as Request,
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ description: 'Docs', default_branch: 'trunk' }));
+      expect(await storage.getDefaultBranch('alice/project')).toBe('trunk');
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.objectContaining({ operation: 'update-repo', metadata: { description: 'Docs', default_branch: 'trunk' } }),
+        expect.any(Object)
+      );
+    });
+
+    it('should page the listing and reject unknown sort keys', async () => {
+      await storage.createRepo('bob/project');
+      await catalog.reconcile();
+      const list = (query: any) => {
+        const res = mockResponse();
+        gitServer.handleListRepos({ query } as unknown as Request, res);
+        return res;
+      };
+
+      expect(list({ per_page: '1', page: '2' }).json).toHaveBeenCalledWith(expect.objectContaining({
+        repos: [expect.objectContaining({ repo_id: 'bob/project', private: false })],
+        count: 1,
+        total: 2
+      }));
+      expect(list({ sort: 'stars' }).status).toHaveBeenCalledWith(400);
+    });
+  });
+});
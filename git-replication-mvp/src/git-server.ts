@@ -1,74 +1,223 @@
 import { Request, Response } from 'express';
-import { RepoStorage } from './storage';
-import { ReplicationCoordinator } from './replication';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { RepoStorage, RefUpdate, TrashEntry, ZERO_SHA } from './storage';
+import { ReplicationCoordinator, ReplicationResult, WriteData } from './replication';
+import { TransactionLog } from './transaction-log';
+import { applyToStorage } from './replication-handler';
+import { JournalEntry, ReplicationJournal } from './replication-journal';
+import { QuorumConfig } from './quorum-policy';
+import { isWellFormed, checkRefUpdates } from './ref-updates';
+import { ACCESS_REPO_ID, AccessChange, AccessStore } from './access-store';
+import { CATALOG_SORTS, CatalogEntry, CatalogSort, RepoCatalog, RepoMetadata, checkMetadata } from './repo-catalog';
+import { MetricsRegistry } from './metrics';
+import { ClusterMember, ClusterMembership, MEMBERSHIP_REPO_ID } from './membership';
+import { logger } from './logger';
+import {
+  LockBackend,
+  LockTable,
+  LocalLockBackend,
+  PeerQuorumLockBackend,
+  RepositoryBusyError
+} from './repo-lock';
+
+export interface RefUpdateResult {
+  ref: string;
+  error?: string; // Set when the ref was rejected
+}
+
+export interface PushResult {
+  unpackError?: string;
+  refs: RefUpdateResult[];
+}
+
+// Most repositories one page of GET /repos returns
+const MAX_PER_PAGE = 100;
 
 export class GitServer {
   private storage: RepoStorage;
   private replicationCoordinator: ReplicationCoordinator | null = null;
+  private journal: ReplicationJournal | null;
+  private lockTable: LockTable = new LockTable();
+  private lockBackend: LockBackend;
+  private accessStore: AccessStore | null;
+  private catalog: RepoCatalog | null;
+  private membership: ClusterMembership | null;
 
-  constructor(dataDir: string, serverId: string, peerUrls: string[] = []) {
+  constructor(
+    dataDir: string,
+    serverId: string,
+    peerUrls: string[] = [],
+    journal: ReplicationJournal | null = null,
+    quorumConfig: QuorumConfig = new QuorumConfig(),
+    lockBackend: LockBackend | null = null,
+    accessStore: AccessStore | null = null,
+    catalog: RepoCatalog | null = null,
+    metrics: MetricsRegistry = new MetricsRegistry(),
+    membership: ClusterMembership | null = null
+  ) {
     this.storage = new RepoStorage(dataDir);
+    this.journal = journal;
+    this.accessStore = accessStore;
+    this.catalog = catalog;
+    this.membership = membership;
 
-    if (peerUrls.length > 0) {
-      this.replicationCoordinator = new ReplicationCoordinator(serverId, peerUrls);
+    // With runtime membership even a single server coordinates, so it can
+    // add members
+    if (peerUrls.length > 0 || membership) {
+      const coordinator = new ReplicationCoordinator(
+        serverId,
+        peerUrls,
+        new TransactionLog(path.join(dataDir, '.txlog', 'coordinator.log')),
+        new TransactionLog(path.join(dataDir, '.txlog', 'handoff.log')),
+        quorumConfig,
+        metrics,
+        membership
+      );
+      this.replicationCoordinator = coordinator;
+      this.lockBackend = lockBackend || new PeerQuorumLockBackend(serverId, this.lockTable, peerUrls, {
+        isAvailable: peerUrl => coordinator.getPeerHealthMonitor().isAvailable(peerUrl)
+      });
+    } else {
+      this.lockBackend = lockBackend || new LocalLockBackend(serverId, this.lockTable);
     }
   }
 
   async initialize(): Promise<void> {
     await this.storage.initialize();
+    await this.replicationCoordinator?.initialize();
+  }
+
+  getReplicationCoordinator(): ReplicationCoordinator | null {
+    return this.replicationCoordinator;
+  }
+
+  // Leases this node has granted, to itself or to peers
+  getLockTable(): LockTable {
+    return this.lockTable;
+  }
+
+  getLockBackend(): LockBackend {
+    return this.lockBackend;
   }
 
+  // Follow a membership change
+  setPeers(peerUrls: string[]): void {
+    this.replicationCoordinator?.setPeers(peerUrls);
+    if (this.lockBackend instanceof PeerQuorumLockBackend) {
+      this.lockBackend.setPeers(peerUrls);
+    }
+  }
+
+  // POST /repos - `private` (default false) only matters with access
+  // control; `description` and `default_branch` go to the catalog
   async handleCreateRepo(req: Request, res: Response): Promise<void> {
-    const { repo_id } = req.body;
+    const { repo_id, description, default_branch } = req.body;
 
     if (!repo_id) {
       res.status(400).json({ error: 'Missing repo_id' });
       return;
     }
+    if (typeof repo_id !== 'string' || !RepoStorage.isValidRepoId(repo_id)) {
+      res.status(400).json({
+        error: 'Invalid repo_id',
+        details: 'Expected "owner/name"'
+      });
+      return;
+    }
+    if (req.body.private !== undefined && typeof req.body.private !== 'boolean') {
+      res.status(400).json({ error: 'Invalid private: expected a boolean' });
+      return;
+    }
+    const metadata: RepoMetadata = { description, default_branch };
+    const invalid = checkMetadata(metadata);
+    if (invalid) {
+      res.status(400).json({ error: 'Invalid metadata', details: invalid });
+      return;
+    }
+
+    const at = new Date().toISOString();
+    // A new repository starts without collaborators, whatever an earlier
+    // repository under this id had
+    const access: AccessChange | undefined = this.accessStore
+      ? { type: 'reset-repo', repo_id, private: req.body.private === true, at }
+      : undefined;
+    const stagingId = uuidv4();
 
     try {
-      // Check if repo already exists
-      if (await this.storage.repoExists(repo_id)) {
-        res.status(409).json({ error: 'Repository already exists' });
+      await this.withRepoLock(repo_id, () => this.createRepo(repo_id, stagingId, { access, metadata, at }, res));
+    } catch (error: any) {
+      if (error instanceof RepositoryBusyError) {
+        res.status(409).json({
+          error: 'Repository busy',
+          details: error.message
+        });
         return;
       }
+      res.status(500).json({
+        error: 'Failed to create repository',
+        details: error.message
+      });
+    } finally {
+      // No-op once the staged repo has been moved into place; kept while
+      // this node still owes the committed create
+      if (!this.replicationCoordinator?.owes(stagingId)) {
+        await this.storage.discardStaging(stagingId);
+      }
+    }
+  }
 
-      // Create repo locally
-      await this.storage.createRepo(repo_id);
-
-      // Replicate to peers if coordinator is configured
-      let replicationResult = null;
-      if (this.replicationCoordinator) {
-        replicationResult = await this.replicationCoordinator.replicateWrite({
-          repo_id,
-          ref: 'refs/heads/main',
-          commit: 'initial',
-          operation: 'create'
-        });
+  private async createRepo(
+    repo_id: string,
+    stagingId: string,
+    write: Pick<WriteData, 'access' | 'metadata' | 'at'>,
+    res: Response
+  ): Promise<void> {
+    // Check if repo already exists
+    if (await this.storage.repoExists(repo_id)) {
+      res.status(409).json({ error: 'Repository already exists' });
+      return;
+    }
 
-        if (!replicationResult.success) {
-          // Rollback local creation if replication fails
-          // (In production, this would be more sophisticated)
-          res.status(500).json({
-            error: 'Replication failed',
-            details: replicationResult.error
-          });
-          return;
-        }
-      }
+    // Stage the repo locally; it only becomes visible once the peers
+    // have committed, so a failed replication leaves nothing behind.
+    await this.storage.stageRepo(stagingId, write.metadata?.default_branch);
 
-      res.status(201).json({
-        repo_id,
-        created: true,
-        replicated: replicationResult !== null,
-        peers_confirmed: replicationResult?.peersConfirmed || 0
-      });
-    } catch (error: any) {
+    // The staging id doubles as the transaction id, as on participants
+    const writeData: WriteData = {
+      repo_id,
+      ref: 'refs/heads/main',
+      commit: 'initial',
+      operation: 'create',
+      ...write
+    };
+    const replicationResult = await this.replicate(writeData, stagingId);
+    if (replicationResult && !replicationResult.success) {
       res.status(500).json({
-        error: 'Failed to create repository',
-        details: error.message
+        error: 'Replication failed',
+        details: replicationResult.error,
+        outcome: replicationResult.outcome,
+        transaction_id: replicationResult.transactionId,
+        confirmed_peers: replicationResult.confirmedPeers,
+        failed_peers: replicationResult.failedPeers,
+        peer_errors: replicationResult.peerErrors
       });
+      return;
     }
+
+    await this.commitLocally(stagingId, writeData);
+
+    res.status(201).json({
+      repo_id,
+      created: true,
+      ...this.describe(repo_id),
+      replicated: replicationResult !== null,
+      outcome: replicationResult?.outcome || 'optimal',
+      peers_confirmed: replicationResult?.peersConfirmed || 0,
+      confirmed_peers: replicationResult?.confirmedPeers || [],
+      failed_peers: replicationResult?.failedPeers || [],
+      peers_pending: replicationResult?.peersPending || []
+    });
   }
 
   async handleGetRepo(req: Request, res: Response): Promise<void> {
@@ -88,7 +237,7 @@ export class GitServer {
       res.status(200).json({
         repo_id,
         exists: true,
-        path: this.storage.getRepoPath(repo_id)
+        ...this.describe(repo_id)
       });
     } catch (error: any) {
       res.status(500).json({
@@ -98,18 +247,702 @@ export class GitServer {
     }
   }
 
-  async handleListRepos(req: Request, res: Response): Promise<void> {
+  // GET /repos?owner=&prefix=&visibility=&sort=&direction=&page=&per_page=
+  // One page of the catalog; only the repositories `visible` accepts are
+  // listed
+  handleListRepos(
+    req: Request,
+    res: Response,
+    visible: (repoId: string) => boolean = () => true
+  ): void {
+    if (!this.catalog) {
+      res.status(501).json({ error: 'Repository catalog is not configured' });
+      return;
+    }
+
+    const { owner, prefix, visibility, sort = 'name', direction } = req.query;
+    const page = Number(req.query.page ?? 1);
+    const perPage = Number(req.query.per_page ?? 30);
+
+    const invalid = [
+      !CATALOG_SORTS.includes(sort as CatalogSort) && `sort must be one of: ${CATALOG_SORTS.join(', ')}`,
+      direction !== undefined && direction !== 'asc' && direction !== 'desc' && 'direction must be asc or desc',
+      visibility !== undefined && !['all', 'public', 'private'].includes(visibility as string) &&
+        'visibility must be all, public or private',
+      !(Number.isInteger(page) && page >= 1) && 'page must be a positive integer',
+      !(Number.isInteger(perPage) && perPage >= 1 && perPage <= MAX_PER_PAGE) &&
+        `per_page must be between 1 and ${MAX_PER_PAGE}`
+    ].filter(Boolean);
+    if (invalid.length > 0) {
+      res.status(400).json({ error: 'Invalid query', details: invalid.join('; ') });
+      return;
+    }
+
+    const { entries, total } = this.catalog.list({
+      owner: typeof owner === 'string' ? owner : undefined,
+      prefix: typeof prefix === 'string' ? prefix : undefined,
+      include: entry =>
+        visible(entry.repo_id) &&
+        (visibility === undefined || visibility === 'all' ||
+          this.isPrivate(entry.repo_id) === (visibility === 'private')),
+      sort: sort as CatalogSort,
+      direction: direction as 'asc' | 'desc' | undefined,
+      page,
+      perPage
+    });
+
+    const repos = entries.map(entry => this.withVisibility(entry));
+    res.status(200).json({
+      repos,
+      count: repos.length,
+      total,
+      page,
+      per_page: perPage
+    });
+  }
+
+  // PATCH /repos/:user/:repo - change the description, default branch or
+  // visibility on every replica
+  async handleUpdateRepo(req: Request, res: Response): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+    const { description, default_branch } = req.body;
+    const isPrivate = req.body.private;
+
+    if (description === undefined && default_branch === undefined && isPrivate === undefined) {
+      res.status(400).json({ error: 'Nothing to update: expected description, default_branch or private' });
+      return;
+    }
+    if (isPrivate !== undefined && typeof isPrivate !== 'boolean') {
+      res.status(400).json({ error: 'Invalid private: expected a boolean' });
+      return;
+    }
+    if (isPrivate !== undefined && !this.accessStore) {
+      res.status(501).json({ error: 'Access control is not configured' });
+      return;
+    }
+    const metadata: RepoMetadata = { description, default_branch };
+    const invalid = checkMetadata(metadata);
+    if (invalid) {
+      res.status(400).json({ error: 'Invalid metadata', details: invalid });
+      return;
+    }
+
+    const at = new Date().toISOString();
+    const access: AccessChange | undefined = isPrivate === undefined
+      ? undefined
+      : { type: 'set-visibility', repo_id, private: isPrivate, at };
+
     try {
-      const repos = await this.storage.listRepos();
-      res.status(200).json({
-        repos,
-        count: repos.length
+      await this.withRepoLock(repo_id, () => this.updateRepo(repo_id, { metadata, access, at }, res));
+    } catch (error: any) {
+      this.sendWriteError(res, error, 'Failed to update repository');
+    }
+  }
+
+  private async updateRepo(
+    repo_id: string,
+    write: Pick<WriteData, 'access' | 'metadata' | 'at'>,
+    res: Response
+  ): Promise<void> {
+    if (!(await this.storage.repoExists(repo_id))) {
+      res.status(404).json({ error: `Repository not found: ${repo_id}` });
+      return;
+    }
+
+    const transactionId = uuidv4();
+    const writeData: WriteData = { repo_id, operation: 'update-repo', ...write };
+    const replicationResult = await this.replicate(writeData, transactionId);
+    if (replicationResult && !replicationResult.success) {
+      this.sendReplicationFailure(res, replicationResult);
+      return;
+    }
+
+    await this.commitLocally(transactionId, writeData);
+
+    res.status(200).json({
+      repo_id,
+      ...this.describe(repo_id),
+      ...this.summarize(replicationResult)
+    });
+  }
+
+  // DELETE /repos/:user/:repo - soft delete on every replica. The repository
+  // moves to the trash under the transaction id and can be restored until
+  // the retention period ends.
+  async handleDeleteRepo(req: Request, res: Response): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+
+    try {
+      await this.withRepoLock(repo_id, () => this.deleteRepo(repo_id, res));
+    } catch (error: any) {
+      this.sendWriteError(res, error, 'Failed to delete repository');
+    }
+  }
+
+  private async deleteRepo(repo_id: string, res: Response): Promise<void> {
+    if (!(await this.storage.repoExists(repo_id))) {
+      res.status(404).json({ error: `Repository not found: ${repo_id}` });
+      return;
+    }
+
+    // The transaction id names the trash entry
+    const trash_id = uuidv4();
+    const writeData: WriteData = { repo_id, operation: 'delete', at: new Date().toISOString() };
+    const replicationResult = await this.replicate(writeData, trash_id);
+    if (replicationResult && !replicationResult.success) {
+      this.sendReplicationFailure(res, replicationResult);
+      return;
+    }
+
+    await this.commitLocally(trash_id, writeData);
+
+    res.status(200).json({
+      repo_id,
+      deleted: true,
+      trash_id,
+      ...this.summarize(replicationResult)
+    });
+  }
+
+  // POST /repos/:user/:repo/rename - rename the repository, or transfer it
+  // to another owner, on every replica
+  async handleRenameRepo(req: Request, res: Response): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+    const { new_repo_id } = req.body;
+
+    if (typeof new_repo_id !== 'string' || !RepoStorage.isValidRepoId(new_repo_id) || new_repo_id === repo_id) {
+      res.status(400).json({
+        error: 'Invalid new_repo_id',
+        details: 'Expected "owner/name", different from the current id'
       });
+      return;
+    }
+
+    try {
+      // Hold both ids, so nothing is created under the new one meanwhile
+      await this.withRepoLock(repo_id, () =>
+        this.withRepoLock(new_repo_id, () => this.renameRepo(repo_id, new_repo_id, res))
+      );
     } catch (error: any) {
-      res.status(500).json({
-        error: 'Failed to list repositories',
+      this.sendWriteError(res, error, 'Failed to rename repository');
+    }
+  }
+
+  private async renameRepo(repo_id: string, new_repo_id: string, res: Response): Promise<void> {
+    if (!(await this.storage.repoExists(repo_id))) {
+      res.status(404).json({ error: `Repository not found: ${repo_id}` });
+      return;
+    }
+    if (await this.storage.repoExists(new_repo_id)) {
+      res.status(409).json({ error: 'Repository already exists', repo_id: new_repo_id });
+      return;
+    }
+
+    // Permissions move with the repository
+    const at = new Date().toISOString();
+    const access: AccessChange | undefined = this.accessStore
+      ? { type: 'rename-repo', repo_id, target_repo_id: new_repo_id, at }
+      : undefined;
+
+    const transactionId = uuidv4();
+    const writeData: WriteData = { repo_id, operation: 'rename', target_repo_id: new_repo_id, access, at };
+    const replicationResult = await this.replicate(writeData, transactionId);
+    if (replicationResult && !replicationResult.success) {
+      this.sendReplicationFailure(res, replicationResult);
+      return;
+    }
+
+    await this.commitLocally(transactionId, writeData);
+
+    res.status(200).json({
+      repo_id,
+      new_repo_id,
+      renamed: true,
+      ...this.summarize(replicationResult)
+    });
+  }
+
+  // POST /trash/:id/restore - bring a deleted repository back on every replica
+  async handleRestoreRepo(req: Request, res: Response): Promise<void> {
+    const trash_id = req.params.id;
+
+    try {
+      const entry = await this.storage.getTrashEntry(trash_id);
+      if (!entry) {
+        res.status(404).json({ error: `Not in trash: ${trash_id}` });
+        return;
+      }
+      await this.withRepoLock(entry.repo_id, () => this.restoreRepo(entry, res));
+    } catch (error: any) {
+      this.sendWriteError(res, error, 'Failed to restore repository');
+    }
+  }
+
+  private async restoreRepo(entry: TrashEntry, res: Response): Promise<void> {
+    const { repo_id, trash_id } = entry;
+
+    if (await this.storage.repoExists(repo_id)) {
+      res.status(409).json({ error: 'Repository already exists', repo_id });
+      return;
+    }
+
+    const transactionId = uuidv4();
+    const writeData: WriteData = { repo_id, operation: 'restore', trash_id, at: new Date().toISOString() };
+    const replicationResult = await this.replicate(writeData, transactionId);
+    if (replicationResult && !replicationResult.success) {
+      this.sendReplicationFailure(res, replicationResult);
+      return;
+    }
+
+    await this.commitLocally(transactionId, writeData);
+
+    res.status(200).json({
+      repo_id,
+      trash_id,
+      restored: true,
+      ...this.summarize(replicationResult)
+    });
+  }
+
+  // POST /repos/:user/:repo/refs - create, move or delete branches and tags.
+  // Every update is a compare-and-swap against its old_sha, on this node
+  // and on each participant; all of them apply or none does.
+  async handleUpdateRefs(req: Request, res: Response): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+    const { updates, force } = req.body;
+
+    if (!isWellFormed(updates)) {
+      res.status(400).json({
+        error: 'Missing or malformed ref updates',
+        details: 'Expected updates: [{ ref, old_sha, new_sha }] with one entry per ref'
+      });
+      return;
+    }
+
+    try {
+      await this.withRepoLock(repo_id, () => this.updateRefs(repo_id, updates, force === true, res));
+    } catch (error: any) {
+      this.sendWriteError(res, error, 'Failed to update refs');
+    }
+  }
+
+  private async updateRefs(
+    repo_id: string,
+    updates: RefUpdate[],
+    force: boolean,
+    res: Response
+  ): Promise<void> {
+    if (!(await this.storage.repoExists(repo_id))) {
+      res.status(404).json({ error: `Repository not found: ${repo_id}` });
+      return;
+    }
+
+    const rejected = await checkRefUpdates(this.storage, repo_id, updates, force);
+    if (rejected.size > 0) {
+      res.status(409).json({
+        error: 'Ref update rejected',
+        rejected: Object.fromEntries(rejected)
+      });
+      return;
+    }
+
+    const transactionId = uuidv4();
+    const writeData: WriteData = {
+      repo_id,
+      ref: updates[0].ref,
+      commit: updates[0].new_sha,
+      operation: 'update-ref',
+      updates,
+      force,
+      at: new Date().toISOString()
+    };
+    const replicationResult = await this.replicate(writeData, transactionId);
+
+    if (replicationResult && !replicationResult.success) {
+      // Peers that voted no disagree about the refs: a conflict, not an outage
+      if (Object.keys(replicationResult.rejections || {}).length > 0) {
+        res.status(409).json({
+          error: 'Ref update rejected',
+          details: replicationResult.error,
+          rejections: replicationResult.rejections,
+          outcome: replicationResult.outcome,
+          transaction_id: replicationResult.transactionId,
+          confirmed_peers: replicationResult.confirmedPeers,
+          failed_peers: replicationResult.failedPeers,
+          peer_errors: replicationResult.peerErrors
+        });
+        return;
+      }
+      this.sendReplicationFailure(res, replicationResult);
+      return;
+    }
+
+    await this.commitLocally(transactionId, writeData);
+
+    res.status(200).json({
+      repo_id,
+      updates,
+      ...this.summarize(replicationResult)
+    });
+  }
+
+  /**
+   * Replicate a change to users, tokens or permissions and apply it here.
+   * Access changes are serialized under the ACCESS_REPO_ID lease; on
+   * success `body` is sent with the given status.
+   */
+  async writeAccess(change: AccessChange, res: Response, status: number, body: object): Promise<void> {
+    if (!this.accessStore) {
+      res.status(501).json({ error: 'Access control is not configured' });
+      return;
+    }
+    const accessStore = this.accessStore;
+
+    try {
+      await this.withRepoLock(ACCESS_REPO_ID, async () => {
+        const reason = accessStore.check(change);
+        if (reason) {
+          res.status(409).json({ error: 'Access change rejected', details: reason });
+          return;
+        }
+
+        const transactionId = uuidv4();
+        const writeData: WriteData = { repo_id: ACCESS_REPO_ID, operation: 'access', access: change };
+        const replicationResult = await this.replicate(writeData, transactionId);
+        if (replicationResult && !replicationResult.success) {
+          this.sendReplicationFailure(res, replicationResult);
+          return;
+        }
+
+        await this.commitLocally(transactionId, writeData);
+
+        res.status(status).json({ ...body, ...this.summarize(replicationResult) });
+      });
+    } catch (error: any) {
+      this.sendWriteError(res, error, 'Failed to change access');
+    }
+  }
+
+  /**
+   * Replicate a new member list, voted on by the old and the new members.
+   * Changes are serialized under the MEMBERSHIP_REPO_ID lease; on success
+   * the installed config is sent with the given status.
+   */
+  async writeMembership(members: ClusterMember[], res: Response, status: number): Promise<void> {
+    if (!this.membership || !this.replicationCoordinator) {
+      res.status(501).json({ error: 'Cluster membership is not configured' });
+      return;
+    }
+    const membership = this.membership;
+    const coordinator = this.replicationCoordinator;
+
+    try {
+      await this.withRepoLock(MEMBERSHIP_REPO_ID, async () => {
+        const change = membership.beginChange(members);
+        try {
+          const reason = membership.check(change);
+          if (reason) {
+            res.status(409).json({ error: 'Membership change rejected', details: reason });
+            return;
+          }
+
+          const replicationResult = await coordinator.replicateWrite({
+            repo_id: MEMBERSHIP_REPO_ID,
+            operation: 'membership',
+            membership: change
+          });
+          if (!replicationResult.success) {
+            this.sendReplicationFailure(res, replicationResult);
+            return;
+          }
+
+          // Normally installed by this server's own vote already; not if
+          // its commit is still queued
+          await membership.apply(change.next);
+          await this.recordCommitted({
+            transaction_id: replicationResult.transactionId!,
+            repo_id: MEMBERSHIP_REPO_ID,
+            operation: 'membership',
+            membership: change
+          });
+
+          res.status(status).json({ ...membership.get(), ...this.summarize(replicationResult) });
+        } finally {
+          membership.endChange();
+        }
+      });
+    } catch (error: any) {
+      this.sendWriteError(res, error, 'Failed to change membership');
+    }
+  }
+
+  /**
+   * Apply a client push: stage the received objects, replicate them with
+   * the ref updates through 2PC and only move the local refs once quorum
+   * commits. With `atomic`, one rejected ref rejects the whole push.
+   */
+  async pushRefs(
+    repoId: string,
+    updates: RefUpdate[],
+    pack: Buffer | null,
+    atomic: boolean = false
+  ): Promise<PushResult> {
+    const stagingId = uuidv4();
+
+    try {
+      try {
+        await this.storage.stagePack(repoId, stagingId, pack);
+      } catch (error: any) {
+        return {
+          unpackError: error.message,
+          refs: updates.map(update => ({ ref: update.ref, error: 'unpacker error' }))
+        };
+      }
+
+      // Validate and replicate under the repository lease, so the refs
+      // checked here cannot move before the write commits
+      return await this.withRepoLock(repoId, () => this.applyPush(repoId, stagingId, updates, pack, atomic));
+    } catch (error: any) {
+      if (error instanceof RepositoryBusyError) {
+        return {
+          refs: updates.map(update => ({ ref: update.ref, error: 'repository busy' }))
+        };
+      }
+      throw error;
+    } finally {
+      // No-op once the staged objects have been applied; kept while this
+      // node still owes the committed push
+      if (!this.replicationCoordinator?.owes(stagingId)) {
+        await this.storage.discardStaging(stagingId);
+      }
+    }
+  }
+
+  private async applyPush(
+    repoId: string,
+    stagingId: string,
+    updates: RefUpdate[],
+    pack: Buffer | null,
+    atomic: boolean
+  ): Promise<PushResult> {
+    const rejected = await this.validateRefUpdates(repoId, stagingId, updates);
+
+    if (atomic && rejected.size > 0) {
+      for (const update of updates) {
+        if (!rejected.has(update.ref)) {
+          rejected.set(update.ref, 'atomic push failed');
+        }
+      }
+    }
+
+    const accepted = updates.filter(update => !rejected.has(update.ref));
+
+    if (accepted.length > 0) {
+      const error = await this.replicateAndApply(repoId, stagingId, accepted, pack);
+      if (error) {
+        accepted.forEach(update => rejected.set(update.ref, error));
+      }
+    }
+
+    return {
+      refs: updates.map(update => ({ ref: update.ref, error: rejected.get(update.ref) }))
+    };
+  }
+
+  // Replicate through 2PC; null when there are no peers to replicate to.
+  // The coordinator logs the write with its commit decision until
+  // commitLocally() has applied it here.
+  private async replicate(writeData: WriteData, transactionId: string): Promise<ReplicationResult | null> {
+    return this.replicationCoordinator
+      ? this.replicationCoordinator.replicateWrite(writeData, { transactionId, local: true })
+      : null;
+  }
+
+  /**
+   * Apply a committed write to this node's copy and journal it; staged
+   * objects and repositories are kept under the transaction id. After the
+   * commit decision the write stands whatever happens here, so a failure
+   * is logged and the write stays owed until redoOwedWrites(). Without
+   * peers nothing was committed elsewhere and the failure is thrown.
+   */
+  private async commitLocally(transactionId: string, writeData: WriteData): Promise<void> {
+    const { repo_id, operation } = writeData;
+    try {
+      await applyToStorage(this.storage, { ...writeData, transaction_id: transactionId, operation: operation! });
+      await this.recordCommitted({
+        transaction_id: transactionId,
+        repo_id,
+        operation: operation!,
+        updates: writeData.updates,
+        target_repo_id: writeData.target_repo_id,
+        trash_id: writeData.trash_id,
+        access: writeData.access,
+        metadata: writeData.metadata,
+        at: writeData.at
+      });
+      await this.replicationCoordinator?.markApplied(transactionId);
+    } catch (error: any) {
+      if (!this.replicationCoordinator) {
+        throw error;
+      }
+      logger.error('txn.local-apply-failed', `Committed write not applied here yet: ${error.message}`, {
+        transaction_id: transactionId,
+        role: 'coordinator',
+        repo_id,
+        operation
+      });
+    }
+  }
+
+  /**
+   * Apply the committed writes this node coordinated but had not applied
+   * when it stopped (crash, or a failure in commitLocally()). Runs at
+   * startup, once the journal, catalog and access store are loaded.
+   */
+  async redoOwedWrites(): Promise<void> {
+    for (const record of this.replicationCoordinator?.getOwedWrites() || []) {
+      logger.warn('txn.local-redo', 'Applying a committed write this node had not applied', {
+        transaction_id: record.transaction_id,
+        role: 'coordinator',
+        repo_id: record.repo_id,
+        operation: record.operation
+      });
+      await this.commitLocally(record.transaction_id, record.write!);
+    }
+  }
+
+  // Bring the access store and the catalog up to date with a write this
+  // node just applied, then journal it
+  private async recordCommitted(entry: Omit<JournalEntry, 'seq' | 'committed_at'>): Promise<void> {
+    if (entry.access) {
+      await this.accessStore?.apply(entry.access);
+    }
+    await this.catalog?.recordWrite(entry);
+    await this.journal?.record(entry);
+  }
+
+  // Catalog fields of a repository, with its visibility
+  private describe(repoId: string): Partial<CatalogEntry> & { private?: boolean } {
+    const entry = this.catalog?.get(repoId);
+    return entry ? this.withVisibility(entry) : {};
+  }
+
+  private withVisibility(entry: CatalogEntry): CatalogEntry & { private: boolean } {
+    return { ...entry, private: this.isPrivate(entry.repo_id) };
+  }
+
+  // Repositories without access settings count as private, as for reads
+  private isPrivate(repoId: string): boolean {
+    return this.accessStore ? this.accessStore.getRepoAccess(repoId)?.private ?? true : false;
+  }
+
+  private summarize(replicationResult: ReplicationResult | null) {
+    return {
+      replicated: replicationResult !== null,
+      outcome: replicationResult?.outcome || 'optimal',
+      peers_confirmed: replicationResult?.peersConfirmed || 0,
+      confirmed_peers: replicationResult?.confirmedPeers || [],
+      failed_peers: replicationResult?.failedPeers || [],
+      peers_pending: replicationResult?.peersPending || []
+    };
+  }
+
+  private sendReplicationFailure(res: Response, replicationResult: ReplicationResult): void {
+    res.status(500).json({
+      error: 'Replication failed',
+      details: replicationResult.error,
+      rejections: replicationResult.rejections,
+      outcome: replicationResult.outcome,
+      transaction_id: replicationResult.transactionId,
+      confirmed_peers: replicationResult.confirmedPeers,
+      failed_peers: replicationResult.failedPeers,
+      peer_errors: replicationResult.peerErrors
+    });
+  }
+
+  private sendWriteError(res: Response, error: any, message: string): void {
+    if (error instanceof RepositoryBusyError) {
+      res.status(409).json({
+        error: 'Repository busy',
         details: error.message
       });
+      return;
+    }
+    res.status(500).json({
+      error: message,
+      details: error.message
+    });
+  }
+
+  // Run a write holding the repository's cluster-wide lease. Throws
+  // RepositoryBusyError without waiting when another writer holds it.
+  private async withRepoLock<T>(repoId: string, write: () => Promise<T>): Promise<T> {
+    const lease = await this.lockBackend.acquire(repoId);
+    try {
+      return await write();
+    } finally {
+      await this.lockBackend.release(lease).catch(error => {
+        logger.error('lock.release-failed', `Failed to release lock on ${repoId}: ${error.message}`, { repo_id: repoId });
+      });
+    }
+  }
+
+  // Reject updates based on stale ref values or with missing objects
+  private async validateRefUpdates(
+    repoId: string,
+    stagingId: string,
+    updates: RefUpdate[]
+  ): Promise<Map<string, string>> {
+    const rejected = new Map<string, string>();
+    const currentRefs = await this.storage.listRefs(repoId);
+
+    for (const update of updates) {
+      const current = currentRefs.get(update.ref) || ZERO_SHA;
+      if (current !== update.old_sha) {
+        rejected.set(update.ref, 'stale info');
+        continue;
+      }
+
+      if (update.new_sha !== ZERO_SHA) {
+        try {
+          await this.storage.verifyStagedConnectivity(repoId, stagingId, [update.new_sha]);
+        } catch {
+          rejected.set(update.ref, 'missing necessary objects');
+        }
+      }
+    }
+
+    return rejected;
+  }
+
+  // Returns an error message for the client, or undefined on success
+  private async replicateAndApply(
+    repoId: string,
+    stagingId: string,
+    updates: RefUpdate[],
+    pack: Buffer | null
+  ): Promise<string | undefined> {
+    const writeData: WriteData = {
+      repo_id: repoId,
+      ref: updates[0].ref,
+      commit: updates[0].new_sha,
+      operation: 'push',
+      updates,
+      pack: pack ? pack.toString('base64') : null,
+      at: new Date().toISOString()
+    };
+
+    // The staged objects' id doubles as the transaction id
+    const replicationResult = await this.replicate(writeData, stagingId);
+    if (replicationResult && !replicationResult.success) {
+      return `replication failed: ${replicationResult.error}`;
+    }
+
+    try {
+      await this.commitLocally(stagingId, writeData);
+    } catch (error: any) {
+      return `failed to update ref: ${error.message}`;
     }
+    return undefined;
   }
 }
@@ -24,7 +24,10 @@ describe('Health Check', () => {
       server_id: expect.any(String),
       timestamp: expect.any(String),
       load: expect.any(Object),
-      peers: expect.any(Number)
+      sync: 'in-sync',
+      maintenance: null,
+      peers: 0,
+      peer_health: []
     });
   });
 
@@ -37,4 +40,15 @@ describe('Health Check', () => {
     expect(response.data.load.cpu).toBeGreaterThanOrEqual(0);
     expect(response.data.load.cpu).toBeLessThanOrEqual(100);
   });
+
+  it('should expose Prometheus metrics', async () => {
+    await axios.get(`${serverUrl}/health`);
+    const response = await axios.get(`${serverUrl}/metrics`);
+
+    expect(response.headers['content-type']).toMatch(/^text\/plain/);
+    expect(response.data).toContain('git_replication_in_sync 1');
+    expect(response.data).toMatch(/git_replication_http_requests_total\{method="GET",route="\/health",status="200"\} \d+/);
+    expect(response.data).toContain('git_replication_transactions_prepared 0');
+    expect(response.data).toMatch(/git_replication_disk_free_bytes \d+/);
+  });
 });
@@ -0,0 +1,87 @@
+import fs from 'fs/promises';
+import { Hint, HintedHandoffQueue } from './hinted-handoff';
+import { TransactionLog } from './transaction-log';
+
+describe('HintedHandoffQueue', () => {
+  const testDataDir = './test-data-hinted-handoff';
+  const logPath = `${testDataDir}/.txlog/handoff.log`;
+  const peerA = 'http://localhost:3001';
+  const peerB = 'http://localhost:3002';
+  let deliver: jest.Mock;
+  let queue: HintedHandoffQueue;
+
+  beforeEach(async () => {
+    deliver = jest.fn();
+    queue = new HintedHandoffQueue(new TransactionLog<Hint>(logPath), deliver, { baseDelayMs: 0 });
+    await queue.initialize();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should track queue depth per peer', async () => {
+    await queue.enqueue('txn-1', 'commit', [peerA]);
+    await queue.enqueue('txn-2', 'abort', [peerA, peerB]);
+
+    expect(queue.getDepths()).toEqual({ [peerA]: 2, [peerB]: 1 });
+    expect(queue.getPendingPeers('txn-2')).toEqual([peerA, peerB]);
+  });
+
+  it('should report zero depth for configured peers with nothing queued', () => {
+    expect(queue.getDepths([peerA])).toEqual({ [peerA]: 0 });
+  });
+
+  it('should remove hints once the peer acknowledges', async () => {
+    deliver.mockResolvedValue(undefined);
+    await queue.enqueue('txn-1', 'commit', [peerA]);
+
+    await queue.deliverDue();
+
+    expect(deliver).toHaveBeenCalledWith(peerA, 'commit', 'txn-1');
+    expect(queue.getPendingPeers('txn-1')).toEqual([]);
+  });
+
+  it('should keep retrying with backoff while the peer is unreachable', async () => {
+    const backoffQueue = new HintedHandoffQueue(null, deliver, { baseDelayMs: 60000 });
+    deliver.mockRejectedValue(new Error('Connection refused'));
+    await backoffQueue.enqueue('txn-1', 'commit', [peerA]);
+
+    // The first retry is not due yet
+    await backoffQueue.deliverDue();
+    expect(deliver).not.toHaveBeenCalled();
+    expect(backoffQueue.getPendingPeers('txn-1')).toEqual([peerA]);
+  });
+
+  it('should drop a hint the peer answers with a client error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    deliver.mockRejectedValue(Object.assign(new Error('Not found'), { response: { status: 404 } }));
+    await queue.enqueue('txn-1', 'commit', [peerA]);
+
+    await queue.deliverDue();
+
+    expect(queue.getPendingPeers('txn-1')).toEqual([]);
+  });
+
+  it('should keep retrying a hint refused as unauthenticated, timed out or rate limited', async () => {
+    await queue.enqueue('txn-1', 'commit', [peerA]);
+
+    for (const status of [401, 408, 429]) {
+      deliver.mockRejectedValueOnce(Object.assign(new Error(`HTTP ${status}`), { response: { status } }));
+      await queue.deliverDue();
+      expect(queue.getPendingPeers('txn-1')).toEqual([peerA]);
+    }
+  });
+
+  it('should survive a restart', async () => {
+    deliver.mockRejectedValue(new Error('Connection refused'));
+    await queue.enqueue('txn-1', 'abort', [peerB]);
+    await queue.deliverDue();
+
+    const restarted = new HintedHandoffQueue(new TransactionLog<Hint>(logPath), deliver);
+    await restarted.initialize();
+
+    expect(restarted.getPendingPeers('txn-1')).toEqual([peerB]);
+  });
+});
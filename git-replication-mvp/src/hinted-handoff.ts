@@ -0,0 +1,186 @@
+import { TransactionLog } from './transaction-log';
+import { logger } from './logger';
+
+export type HandoffMessage = 'commit' | 'abort';
+
+// Client errors that say nothing about the transaction: a signature the
+// peer refused (clock skew, a reused nonce), a timeout or rate limiting
+const RETRYABLE_STATUSES = [401, 408, 429];
+
+interface PeerHint {
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+}
+
+// Undelivered phase-2 message for one transaction, per peer still owed it
+export interface Hint {
+  transaction_id: string;
+  message: HandoffMessage;
+  peers: Record<string, PeerHint>;
+  created_at: string;
+}
+
+export type DeliverFn = (
+  peerUrl: string,
+  message: HandoffMessage,
+  transactionId: string
+) => Promise<void>;
+
+export interface HintedHandoffOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  intervalMs?: number;
+}
+
+/**
+ * Persistent queue of commit/abort messages a peer did not acknowledge.
+ * Each peer is retried with exponential backoff until it answers; a 4xx
+ * answer is final (the peer does not have the transaction or has already
+ * decided it), so the hint is dropped rather than retried forever. 401,
+ * 408 and 429 are the exceptions and are retried.
+ */
+export class HintedHandoffQueue {
+  private log: TransactionLog<Hint> | null;
+  private deliver: DeliverFn;
+  private hints: Map<string, Hint> = new Map();
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private delivering = false;
+
+  constructor(log: TransactionLog<Hint> | null, deliver: DeliverFn, options: HintedHandoffOptions = {}) {
+    this.log = log;
+    this.deliver = deliver;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.intervalMs = options.intervalMs ?? 1000;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.log) {
+      this.hints = await this.log.load();
+    }
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.delivering) {
+        this.deliverDue().catch(error => {
+          logger.error('handoff.failed', `Hinted handoff delivery failed: ${error.message}`);
+        });
+      }
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async enqueue(transactionId: string, message: HandoffMessage, peerUrls: string[]): Promise<void> {
+    if (peerUrls.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const hint: Hint = this.hints.get(transactionId) || {
+      transaction_id: transactionId,
+      message,
+      peers: {},
+      created_at: now
+    };
+
+    for (const peerUrl of peerUrls) {
+      hint.peers[peerUrl] = { attempts: 1, next_attempt_at: this.nextAttempt(1) };
+    }
+
+    await this.save(hint);
+  }
+
+  // Retry every hint whose backoff has expired
+  async deliverDue(): Promise<void> {
+    this.delivering = true;
+
+    try {
+      const now = Date.now();
+
+      for (const hint of Array.from(this.hints.values())) {
+        for (const [peerUrl, peerHint] of Object.entries(hint.peers)) {
+          if (Date.parse(peerHint.next_attempt_at) > now) {
+            continue;
+          }
+
+          try {
+            await this.deliver(peerUrl, hint.message, hint.transaction_id);
+            delete hint.peers[peerUrl];
+            logger.info('txn.handoff', `Delivered queued ${hint.message} to ${peerUrl}`, {
+              transaction_id: hint.transaction_id,
+              peer: peerUrl,
+              attempts: peerHint.attempts + 1
+            });
+          } catch (error: any) {
+            const status = error.response?.status;
+            if (status >= 400 && status < 500 && !RETRYABLE_STATUSES.includes(status)) {
+              logger.error('txn.handoff', `Dropping queued ${hint.message} to ${peerUrl}: HTTP ${status}`, {
+                transaction_id: hint.transaction_id,
+                peer: peerUrl,
+                status
+              });
+              delete hint.peers[peerUrl];
+            } else {
+              peerHint.attempts++;
+              peerHint.next_attempt_at = this.nextAttempt(peerHint.attempts);
+              peerHint.last_error = error.message;
+            }
+          }
+        }
+
+        await this.save(hint);
+      }
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  // Number of undelivered messages per peer
+  getDepths(peerUrls: string[] = []): Record<string, number> {
+    const depths: Record<string, number> = {};
+    peerUrls.forEach(peerUrl => { depths[peerUrl] = 0; });
+
+    for (const hint of this.hints.values()) {
+      for (const peerUrl of Object.keys(hint.peers)) {
+        depths[peerUrl] = (depths[peerUrl] || 0) + 1;
+      }
+    }
+
+    return depths;
+  }
+
+  getPendingPeers(transactionId: string): string[] {
+    return Object.keys(this.hints.get(transactionId)?.peers || {});
+  }
+
+  private async save(hint: Hint): Promise<void> {
+    if (Object.keys(hint.peers).length === 0) {
+      this.hints.delete(hint.transaction_id);
+      await this.log?.remove(hint.transaction_id);
+    } else {
+      this.hints.set(hint.transaction_id, hint);
+      await this.log?.append({ ...hint, peers: { ...hint.peers } });
+    }
+  }
+
+  private nextAttempt(attempts: number): string {
+    const delay = Math.min(this.baseDelayMs * 2 ** (attempts - 1), this.maxDelayMs);
+    return new Date(Date.now() + delay).toISOString();
+  }
+}
@@ -0,0 +1,129 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import { InDoubtResolver } from './in-doubt-resolver';
+import { ReplicationHandler } from './replication-handler';
+import { RepoStorage } from './storage';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('InDoubtResolver', () => {
+  const testDataDir = './test-data-in-doubt';
+  const peerUrls = ['http://localhost:3001', 'http://localhost:3002'];
+  let storage: RepoStorage;
+  let handler: ReplicationHandler;
+  let resolver: InDoubtResolver;
+
+  const prepareCreate = async (transaction_id: string, repo_id: string) => {
+    const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    await handler.handlePrepare({
+      body: {
+        transaction_id,
+        coordinator_id: 'server-1',
+        repo_id,
+        ref: 'refs/heads/main',
+        commit: 'initial',
+        operation: 'create'
+      }
+    } as any, res);
+    expect(res.status).toHaveBeenCalledWith(200);
+  };
+
+  const answer = (server_id: string, outcome: string, coordinator = false) =>
+    ({ status: 200, data: { transaction_id: 'x', outcome, coordinator, server_id } });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    storage = new RepoStorage(testDataDir);
+    await storage.initialize();
+    handler = new ReplicationHandler('server-3', storage);
+    resolver = new InDoubtResolver(handler, peerUrls, { timeoutMs: 0 });
+
+    await prepareCreate('txn-in-doubt', 'alice/in-doubt');
+    // Let the prepare age past the (zero) timeout
+    await new Promise(resolve => setTimeout(resolve, 5));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should commit when any peer reports commit', async () => {
+    mockedAxios.get
+      .mockRejectedValueOnce(new Error('Connection refused'))
+      .mockResolvedValueOnce(answer('server-2', 'commit'));
+
+    const report = await resolver.resolveOnce();
+
+    expect(report.committed).toEqual(['txn-in-doubt']);
+    expect(await storage.repoExists('alice/in-doubt')).toBe(true);
+    expect(handler.getPreparedTransactions()).toHaveLength(0);
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'http://localhost:3001/replicate/transactions/txn-in-doubt/outcome',
+      expect.any(Object)
+    );
+  });
+
+  it('should abort when the coordinator has no record of the transaction', async () => {
+    mockedAxios.get
+      .mockResolvedValueOnce(answer('server-1', 'unknown'))
+      .mockResolvedValueOnce(answer('server-2', 'in-doubt'));
+
+    const report = await resolver.resolveOnce();
+
+    expect(report.aborted).toEqual(['txn-in-doubt']);
+    expect(await storage.repoExists('alice/in-doubt')).toBe(false);
+    expect(await storage.stagingExists('txn-in-doubt')).toBe(false);
+  });
+
+  it('should report the transaction as blocked when nobody knows the outcome', async () => {
+    mockedAxios.get.mockRejectedValue(new Error('Connection refused'));
+
+    const report = await resolver.resolveOnce();
+
+    expect(report.blocked).toHaveLength(1);
+    expect(resolver.getBlocked()).toEqual([
+      expect.objectContaining({
+        transaction_id: 'txn-in-doubt',
+        repo_id: 'alice/in-doubt',
+        reason: expect.stringContaining('coordinator server-1 unreachable')
+      })
+    ]);
+    expect(handler.getPreparedTransactions()).toHaveLength(1);
+  });
+
+  it('should wait while the coordinator is still deciding', async () => {
+    mockedAxios.get
+      .mockResolvedValueOnce(answer('server-1', 'pending', true))
+      .mockResolvedValueOnce(answer('server-2', 'in-doubt'));
+
+    const report = await resolver.resolveOnce();
+
+    expect(report.blocked[0].reason).toBe('coordinator reports pending');
+    expect(handler.getPreparedTransactions()).toHaveLength(1);
+  });
+
+  it('should ignore prepared transactions younger than the timeout', async () => {
+    const patient = new InDoubtResolver(handler, peerUrls, { timeoutMs: 60000 });
+
+    const report = await patient.resolveOnce();
+
+    expect(report).toEqual({ committed: [], aborted: [], blocked: [] });
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+  });
+
+  it('should apply an operator\'s decision for a blocked transaction', async () => {
+    mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    await resolver.resolveOnce();
+    expect(resolver.getBlocked()).toHaveLength(1);
+
+    expect(await resolver.settle('txn-in-doubt', 'commit')).toBe(true);
+
+    expect(await storage.repoExists('alice/in-doubt')).toBe(true);
+    expect(resolver.getBlocked()).toEqual([]);
+    expect(await resolver.settle('txn-in-doubt', 'abort')).toBe(false);
+  });
+});
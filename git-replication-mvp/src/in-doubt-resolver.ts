@@ -0,0 +1,222 @@
+import axios from 'axios';
+import { ReplicationHandler, Transaction, TransactionOutcome } from './replication-handler';
+import { logger } from './logger';
+
+export interface BlockedTransaction {
+  transaction_id: string;
+  repo_id: string;
+  coordinator_id: string;
+  prepared_at: string;
+  last_checked: string;
+  reason: string;
+}
+
+export interface ResolutionReport {
+  committed: string[];
+  aborted: string[];
+  blocked: BlockedTransaction[];
+}
+
+interface PeerAnswer {
+  outcome: TransactionOutcome;
+  coordinator: boolean;
+  server_id: string;
+}
+
+export interface InDoubtResolverOptions {
+  timeoutMs?: number;  // How long a transaction may stay prepared
+  intervalMs?: number; // How often to look for in-doubt transactions
+}
+
+/**
+ * Background resolver for participants left in 'prepared' after the
+ * coordinator failed between prepare and commit.
+ *
+ * Prepared transactions older than the timeout are looked up on every peer
+ * via GET /replicate/transactions/:id/outcome. Any peer that committed or
+ * aborted settles it. If the coordinator answers but has no record, it never
+ * logged a decision, so the transaction is aborted (presumed abort). Anything
+ * else stays prepared and is reported as blocked.
+ */
+export class InDoubtResolver {
+  private handler: ReplicationHandler;
+  private peerUrls: string[];
+  private timeoutMs: number;
+  private intervalMs: number;
+  private requestTimeout: number = 5000;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private blocked: Map<string, BlockedTransaction> = new Map();
+
+  constructor(handler: ReplicationHandler, peerUrls: string[], options: InDoubtResolverOptions = {}) {
+    this.handler = handler;
+    this.peerUrls = peerUrls;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.intervalMs = options.intervalMs ?? 10000;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      // Skip a tick while the previous pass is still asking peers
+      if (this.running) {
+        return;
+      }
+      this.resolveOnce().catch(error => {
+        logger.error('in-doubt.failed', `In-doubt resolution failed: ${error.message}`);
+      });
+    }, this.intervalMs);
+
+    // Never keep the process alive just for the resolver
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Follow a membership change
+  setPeers(peerUrls: string[]): void {
+    this.peerUrls = peerUrls;
+  }
+
+  getBlocked(): BlockedTransaction[] {
+    return Array.from(this.blocked.values());
+  }
+
+  async resolveOnce(): Promise<ResolutionReport> {
+    this.running = true;
+    const report: ResolutionReport = { committed: [], aborted: [], blocked: [] };
+
+    try {
+      const cutoff = Date.now() - this.timeoutMs;
+      const inDoubt = this.handler.getPreparedTransactions().filter(
+        transaction => Date.parse(transaction.timestamp) < cutoff
+      );
+
+      // Forget blocked entries that were resolved by a late commit/abort
+      const stillPrepared = new Set(inDoubt.map(transaction => transaction.transaction_id));
+      for (const id of this.blocked.keys()) {
+        if (!stillPrepared.has(id)) {
+          this.blocked.delete(id);
+        }
+      }
+
+      for (const transaction of inDoubt) {
+        await this.resolve(transaction, report);
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return report;
+  }
+
+  // An operator's decision for a blocked transaction, e.g. once its
+  // coordinator is known to be lost for good. Returns false when the
+  // transaction is not prepared here.
+  async settle(transactionId: string, decision: 'commit' | 'abort'): Promise<boolean> {
+    const transaction = this.handler.getPreparedTransactions().find(
+      prepared => prepared.transaction_id === transactionId
+    );
+    if (!transaction) {
+      return false;
+    }
+
+    if (decision === 'commit') {
+      await this.handler.commitTransaction(transaction);
+    } else {
+      await this.handler.abortTransaction(transactionId);
+    }
+    this.blocked.delete(transactionId);
+    logger.warn('txn.in-doubt', `Operator settled in-doubt transaction: ${decision}`, this.fields(transaction));
+    return true;
+  }
+
+  private async resolve(transaction: Transaction, report: ResolutionReport): Promise<void> {
+    const answers = await this.askPeers(transaction.transaction_id);
+    const { decision, reason } = this.decide(transaction, answers);
+
+    if (decision === 'commit') {
+      await this.handler.commitTransaction(transaction);
+      this.blocked.delete(transaction.transaction_id);
+      report.committed.push(transaction.transaction_id);
+      logger.info('txn.in-doubt', 'Resolved in-doubt transaction: commit', this.fields(transaction));
+    } else if (decision === 'abort') {
+      await this.handler.abortTransaction(transaction.transaction_id);
+      this.blocked.delete(transaction.transaction_id);
+      report.aborted.push(transaction.transaction_id);
+      logger.info('txn.in-doubt', 'Resolved in-doubt transaction: abort', this.fields(transaction));
+    } else {
+      const blocked: BlockedTransaction = {
+        transaction_id: transaction.transaction_id,
+        repo_id: transaction.repo_id,
+        coordinator_id: transaction.coordinator_id,
+        prepared_at: transaction.timestamp,
+        last_checked: new Date().toISOString(),
+        reason: reason!
+      };
+      this.blocked.set(transaction.transaction_id, blocked);
+      report.blocked.push(blocked);
+      logger.warn('txn.in-doubt', `Transaction is blocked: ${reason}`, this.fields(transaction));
+    }
+  }
+
+  private fields(transaction: Transaction) {
+    return {
+      transaction_id: transaction.transaction_id,
+      correlation_id: transaction.correlation_id,
+      role: 'participant',
+      coordinator_id: transaction.coordinator_id,
+      repo_id: transaction.repo_id
+    };
+  }
+
+  private decide(
+    transaction: Transaction,
+    answers: PeerAnswer[]
+  ): { decision: 'commit' | 'abort' | 'blocked'; reason?: string } {
+    if (answers.some(answer => answer.outcome === 'commit')) {
+      return { decision: 'commit' };
+    }
+    if (answers.some(answer => answer.outcome === 'abort')) {
+      return { decision: 'abort' };
+    }
+
+    const coordinator = answers.find(
+      answer => answer.coordinator || answer.server_id === transaction.coordinator_id
+    );
+
+    if (!coordinator) {
+      return {
+        decision: 'blocked',
+        reason: `coordinator ${transaction.coordinator_id} unreachable and no peer knows the outcome`
+      };
+    }
+    if (coordinator.outcome === 'unknown') {
+      return { decision: 'abort' };
+    }
+    return { decision: 'blocked', reason: `coordinator reports ${coordinator.outcome}` };
+  }
+
+  private async askPeers(transactionId: string): Promise<PeerAnswer[]> {
+    const results = await Promise.allSettled(
+      this.peerUrls.map(peerUrl =>
+        axios.get(
+          `${peerUrl}/replicate/transactions/${encodeURIComponent(transactionId)}/outcome`,
+          { timeout: this.requestTimeout }
+        )
+      )
+    );
+
+    return results
+      .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
+      .map(result => result.value.data as PeerAnswer);
+  }
+}
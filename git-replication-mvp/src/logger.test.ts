@@ -0,0 +1,42 @@
+import { Logger, withCorrelationId } from './logger';
+
+describe('Logger', () => {
+  let logger: Logger;
+  let output: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new Logger();
+    logger.setServerId('server-1');
+    output = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    output.mockRestore();
+  });
+
+  it('should write one JSON object per event with the current correlation id', () => {
+    withCorrelationId('req-1', () => logger.info('txn.prepare', 'prepare done', { transaction_id: 'txn-1' }));
+
+    expect(JSON.parse(output.mock.calls[0][0])).toEqual({
+      time: expect.any(String),
+      level: 'info',
+      server_id: 'server-1',
+      event: 'txn.prepare',
+      message: 'prepare done',
+      correlation_id: 'req-1',
+      transaction_id: 'txn-1'
+    });
+  });
+
+  it('should keep the events of recent transactions only', () => {
+    logger.info('txn.prepare', 'prepare done', { transaction_id: 'txn-first' });
+    for (let i = 0; i < 1000; i++) {
+      logger.info('txn.prepare', 'prepare done', { transaction_id: `txn-${i}` });
+    }
+    logger.info('txn.commit', 'commit done', { transaction_id: 'txn-999' });
+    logger.info('startup.ready', 'ready');
+
+    expect(logger.timeline('txn-first')).toEqual([]);
+    expect(logger.timeline('txn-999').map(event => event.event)).toEqual(['txn.prepare', 'txn.commit']);
+  });
+});
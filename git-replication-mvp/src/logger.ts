@@ -0,0 +1,120 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+// Carries a request's correlation id to peers, and back to clients
+export const CORRELATION_HEADER = 'X-Correlation-Id';
+
+// Transactions whose events are kept for GET /replicate/transactions/:id/timeline
+const TIMELINE_TRANSACTIONS = 1000;
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export interface LogEvent {
+  time: string;
+  level: LogLevel;
+  server_id: string;
+  event: string; // Dotted name, e.g. txn.prepare
+  message: string;
+  correlation_id?: string;
+  transaction_id?: string;
+  [key: string]: unknown;
+}
+
+const context = new AsyncLocalStorage<{ correlationId: string }>();
+
+// The correlation id of the request being handled, if any
+export function currentCorrelationId(): string | undefined {
+  return context.getStore()?.correlationId;
+}
+
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return context.run({ correlationId }, fn);
+}
+
+function isValidCorrelationId(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w.:-]{1,128}$/.test(value);
+}
+
+/**
+ * Writes one JSON object per line to stdout (warnings and errors to
+ * stderr), tagged with the server id and the correlation id of the request
+ * being handled. Events of a transaction (those with a transaction_id) are
+ * also kept in memory for the most recent transactions, so a node can
+ * report its part of a transaction's timeline.
+ */
+export class Logger {
+  private serverId: string = 'unknown';
+  private timelines: Map<string, LogEvent[]> = new Map();
+
+  setServerId(serverId: string): void {
+    this.serverId = serverId;
+  }
+
+  info(event: string, message: string, fields: Record<string, unknown> = {}): void {
+    this.write('info', event, message, fields);
+  }
+
+  warn(event: string, message: string, fields: Record<string, unknown> = {}): void {
+    this.write('warn', event, message, fields);
+  }
+
+  error(event: string, message: string, fields: Record<string, unknown> = {}): void {
+    this.write('error', event, message, fields);
+  }
+
+  // This node's events for a transaction, oldest first
+  timeline(transactionId: string): LogEvent[] {
+    return [...(this.timelines.get(transactionId) || [])];
+  }
+
+  // Express middleware: take the caller's correlation id (a peer's, or a
+  // client's) or start a new one, and echo it in the response
+  correlate() {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      const header = req.get(CORRELATION_HEADER);
+      const correlationId = isValidCorrelationId(header) ? header : uuidv4();
+      res.set(CORRELATION_HEADER, correlationId);
+      withCorrelationId(correlationId, next);
+    };
+  }
+
+  private write(level: LogLevel, event: string, message: string, fields: Record<string, unknown>): void {
+    const entry: LogEvent = {
+      time: new Date().toISOString(),
+      level,
+      server_id: this.serverId,
+      event,
+      message,
+      correlation_id: currentCorrelationId(),
+      ...fields
+    };
+
+    if (entry.transaction_id) {
+      this.remember(entry);
+    }
+    const line = JSON.stringify(entry);
+    if (level === 'info') {
+      console.log(line);
+    } else {
+      console.error(line);
+    }
+  }
+
+  private remember(entry: LogEvent): void {
+    const transactionId = entry.transaction_id!;
+    const events = this.timelines.get(transactionId);
+    if (events) {
+      events.push(entry);
+      return;
+    }
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.timelines.size >= TIMELINE_TRANSACTIONS) {
+      this.timelines.delete(this.timelines.keys().next().value!);
+    }
+    this.timelines.set(transactionId, [entry]);
+  }
+}
+
+// The process-wide logger; server.ts sets its server id at startup
+export const logger = new Logger();
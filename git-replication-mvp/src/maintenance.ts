@@ -0,0 +1,85 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ReplicationHandler } from './replication-handler';
+import { ReplicationCoordinator } from './replication';
+import { CatchUpManager } from './catch-up';
+import { logger } from './logger';
+
+export interface MaintenanceState {
+  reason: string;
+  since: string;
+}
+
+/**
+ * Takes a node out of service for an operator: while in maintenance it
+ * neither votes on nor coordinates writes, and reports `maintenance` on
+ * /health so peers stop sending it prepares. Reads are still served.
+ *
+ * The node misses writes meanwhile, so leaving maintenance starts a
+ * catch-up and the node only votes again once it is in sync. The state is
+ * kept in a file, so a restart during maintenance does not end it.
+ */
+export class MaintenanceMode {
+  private filePath: string;
+  private handler: ReplicationHandler;
+  private coordinator: ReplicationCoordinator | null;
+  private catchUp: CatchUpManager;
+  private state: MaintenanceState | null = null;
+
+  constructor(
+    filePath: string,
+    handler: ReplicationHandler,
+    coordinator: ReplicationCoordinator | null,
+    catchUp: CatchUpManager
+  ) {
+    this.filePath = filePath;
+    this.handler = handler;
+    this.coordinator = coordinator;
+    this.catchUp = catchUp;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      this.apply(JSON.parse(await fs.readFile(this.filePath, 'utf8')));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  get(): MaintenanceState | null {
+    return this.state ? { ...this.state } : null;
+  }
+
+  // Entering again only updates the reason
+  async enter(reason: string): Promise<MaintenanceState> {
+    const state = { reason, since: this.state?.since ?? new Date().toISOString() };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(state));
+    await fs.rename(tempPath, this.filePath);
+
+    this.apply(state);
+    logger.warn('maintenance.entered', `Entered maintenance: ${reason}`, { reason });
+    return { ...state };
+  }
+
+  async leave(): Promise<void> {
+    if (!this.state) {
+      return;
+    }
+
+    await fs.rm(this.filePath, { force: true });
+    this.apply(null);
+    this.catchUp.resync();
+    logger.info('maintenance.left', 'Left maintenance; catching up before voting on writes');
+  }
+
+  private apply(state: MaintenanceState | null): void {
+    this.state = state;
+    this.handler.setMaintenance(state?.reason ?? null);
+    this.coordinator?.setMaintenance(state?.reason ?? null);
+  }
+}
@@ -0,0 +1,143 @@
+import axios from 'axios';
+import { Request, Response } from 'express';
+import { GitServer } from './git-server';
+import { ClusterMember, ClusterMembership, normalizeMemberUrl } from './membership';
+
+/**
+ * REST endpoints for the cluster's member list. Every change goes through
+ * GitServer.writeMembership(), so it is replicated like a write;
+ * authorization is left to the routes.
+ */
+export class MembershipHandler {
+  private membership: ClusterMembership;
+  private gitServer: GitServer;
+  private timeout: number = 5000;
+
+  constructor(membership: ClusterMembership, gitServer: GitServer) {
+    this.membership = membership;
+    this.gitServer = gitServer;
+  }
+
+  // GET /cluster/members
+  handleList(req: Request, res: Response): void {
+    const self = this.membership.getSelf();
+    res.status(200).json({
+      server_id: self.server_id,
+      self: self.url,
+      is_member: this.membership.isMember(),
+      ...this.membership.get(),
+      pending: this.membership.getPending()
+    });
+  }
+
+  // POST /cluster/members { url } - the new server must be running: its
+  // server id is read from its /health
+  async handleAdd(req: Request, res: Response): Promise<void> {
+    const url = normalizeMemberUrl(req.body.url);
+    if (!url) {
+      res.status(400).json({ error: 'Invalid url: expected an http(s) URL' });
+      return;
+    }
+
+    const { members } = this.membership.get();
+    if (members.some(member => member.url === url)) {
+      res.status(409).json({ error: `Already a member: ${url}` });
+      return;
+    }
+
+    const member = await this.describe(url, res);
+    if (!member) {
+      return;
+    }
+    if (members.some(existing => existing.server_id === member.server_id)) {
+      res.status(409).json({ error: `Server id already in use: ${member.server_id}` });
+      return;
+    }
+
+    await this.gitServer.writeMembership([...members, member], res, 201);
+  }
+
+  // DELETE /cluster/members?url=
+  async handleRemove(req: Request, res: Response): Promise<void> {
+    const url = this.findMember(req.query.url, res);
+    if (!url) {
+      return;
+    }
+
+    const { members } = this.membership.get();
+    await this.gitServer.writeMembership(members.filter(member => member.url !== url), res, 200);
+  }
+
+  // POST /cluster/members/replace { url, new_url } - one change, so the
+  // cluster never runs a member short
+  async handleReplace(req: Request, res: Response): Promise<void> {
+    const url = this.findMember(req.body.url, res);
+    if (!url) {
+      return;
+    }
+    const newUrl = normalizeMemberUrl(req.body.new_url);
+    if (!newUrl) {
+      res.status(400).json({ error: 'Invalid new_url: expected an http(s) URL' });
+      return;
+    }
+
+    const { members } = this.membership.get();
+    if (members.some(member => member.url === newUrl)) {
+      res.status(409).json({ error: `Already a member: ${newUrl}` });
+      return;
+    }
+
+    const member = await this.describe(newUrl, res);
+    if (!member) {
+      return;
+    }
+    if (members.some(existing => existing.url !== url && existing.server_id === member.server_id)) {
+      res.status(409).json({ error: `Server id already in use: ${member.server_id}` });
+      return;
+    }
+
+    await this.gitServer.writeMembership(
+      members.map(existing => (existing.url === url ? member : existing)),
+      res,
+      200
+    );
+  }
+
+  // The member to remove or replace; this server is not one of them, as
+  // it coordinates the change and must stay a member to do so
+  private findMember(value: unknown, res: Response): string | null {
+    const url = normalizeMemberUrl(value);
+    if (!url) {
+      res.status(400).json({ error: 'Invalid url: expected an http(s) URL' });
+      return null;
+    }
+    if (!this.membership.get().members.some(member => member.url === url)) {
+      res.status(404).json({ error: `Not a member: ${url}` });
+      return null;
+    }
+    if (url === this.membership.getSelf().url) {
+      res.status(409).json({
+        error: 'Cannot remove this server',
+        details: 'Send the change to another member'
+      });
+      return null;
+    }
+    return url;
+  }
+
+  private async describe(url: string, res: Response): Promise<ClusterMember | null> {
+    try {
+      const { data } = await axios.get(`${url}/health`, { timeout: this.timeout });
+      if (typeof data?.server_id !== 'string') {
+        throw new Error('no server_id in its /health');
+      }
+      return { url, server_id: data.server_id };
+    } catch (error: any) {
+      res.status(502).json({
+        error: `New member unreachable: ${url}`,
+        details: error.message
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import fs from 'fs/promises';
+import { ClusterMembership, MembershipConfig, checkMembers, jointQuorumShortfall, normalizeMemberUrl } from './membership';
+
+describe('ClusterMembership', () => {
+  const testDataDir = './test-data-membership';
+  const filePath = `${testDataDir}/.txlog/membership.json`;
+  const self = { url: 'http://localhost:3000', server_id: 'server-1' };
+  const peers = ['http://localhost:3001', 'http://localhost:3002'];
+
+  const config = (epoch: number, urls: string[]): MembershipConfig => ({
+    epoch,
+    members: urls.map(url => ({ url })),
+    updated_at: new Date().toISOString()
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should start from this server and PEER_URLS', async () => {
+    const membership = new ClusterMembership(filePath, self, peers);
+    await membership.initialize();
+
+    expect(membership.get()).toEqual({ epoch: 0, members: [self, ...peers.map(url => ({ url }))] });
+    expect(membership.getPeers()).toEqual(peers);
+    expect(membership.isMember()).toBe(true);
+  });
+
+  it('should install newer configs only and keep them across restarts', async () => {
+    const membership = new ClusterMembership(filePath, self, peers);
+    await membership.initialize();
+    const next = config(1, [self.url, 'http://localhost:3003']);
+
+    expect(await membership.apply(next)).toBe(true);
+    expect(await membership.apply(config(1, [self.url]))).toBe(false);
+    expect(membership.getPeers()).toEqual(['http://localhost:3003']);
+
+    // The saved list wins over the environment, and listeners hear of it
+    const restarted = new ClusterMembership(filePath, self, peers);
+    const listener = jest.fn();
+    restarted.onChange(listener);
+    await restarted.initialize();
+    expect(restarted.get()).toEqual(next);
+    expect(listener).toHaveBeenCalledWith(next);
+  });
+
+  it('should notice when this server was removed', async () => {
+    const membership = new ClusterMembership(filePath, self, peers);
+    await membership.apply(config(1, peers));
+
+    expect(membership.isMember()).toBe(false);
+    expect(membership.getPeers()).toEqual(peers);
+  });
+
+  it('should only vote for the change to the next epoch', async () => {
+    const membership = new ClusterMembership(filePath, self, peers);
+    const change = membership.beginChange([self, { url: 'http://localhost:3003' }]);
+
+    expect(change.previous.epoch).toBe(0);
+    expect(membership.check(change)).toBeNull();
+    expect(membership.getKnownUrls()).toContain('http://localhost:3003');
+
+    membership.endChange();
+    expect(membership.getKnownUrls()).not.toContain('http://localhost:3003');
+    expect(membership.check({ ...change, next: { ...change.next, epoch: 2 } }))
+      .toBe('Membership is at epoch 0, the change is for epoch 2');
+    expect(membership.check(undefined)).toBe('Missing membership change');
+  });
+
+  it('should track the prepared change of one transaction', () => {
+    const membership = new ClusterMembership(filePath, self, peers);
+    membership.setPending('txn-1');
+    membership.clearPending('txn-2');
+    expect(membership.getPending()).toBe('txn-1');
+    membership.clearPending('txn-1');
+    expect(membership.getPending()).toBeNull();
+  });
+
+  describe('jointQuorumShortfall', () => {
+    const change = {
+      previous: config(0, ['http://a', 'http://b', 'http://c']),
+      next: config(1, ['http://a', 'http://b', 'http://c', 'http://d'])
+    };
+
+    it('should need a majority of the old and of the new members', () => {
+      expect(jointQuorumShortfall(change, ['http://a', 'http://b', 'http://d'])).toBeNull();
+      expect(jointQuorumShortfall(change, ['http://a', 'http://b']))
+        .toBe('2 of 3 old and 3 of 4 new members, got 2 and 2');
+      expect(jointQuorumShortfall(change, ['http://a', 'http://d', 'http://e']))
+        .toBe('2 of 3 old and 3 of 4 new members, got 1 and 2');
+    });
+  });
+
+  describe('checkMembers', () => {
+    it('should reject empty, duplicate and malformed member lists', () => {
+      expect(checkMembers([])).toBe('A cluster needs at least one member');
+      expect(checkMembers([{ url: 'http://a' }, { url: 'http://a' }])).toBe('Duplicate member: http://a');
+      expect(checkMembers([{ url: 'http://a', server_id: 's' }, { url: 'http://b', server_id: 's' }]))
+        .toBe('Duplicate server id: s');
+      expect(checkMembers([{ url: 'ftp://a' }])).toBe('Invalid member URL: ftp://a');
+      expect(normalizeMemberUrl('http://localhost:3001/')).toBe('http://localhost:3001');
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from './logger';
+
+// Pseudo repository id membership changes replicate under: its lease
+// serializes changes started on different servers
+export const MEMBERSHIP_REPO_ID = '.cluster';
+
+export interface ClusterMember {
+  url: string;
+  server_id?: string; // Unknown for members seeded from PEER_URLS
+}
+
+export interface MembershipConfig {
+  epoch: number;
+  members: ClusterMember[];
+  updated_at?: string; // Unset for the seed
+}
+
+// A replicated membership change: the config it replaces and the next one
+export interface MembershipChange {
+  previous: MembershipConfig;
+  next: MembershipConfig;
+}
+
+const majority = (config: MembershipConfig) => Math.floor(config.members.length / 2) + 1;
+
+// Servers that vote on a change: the old members and the new ones
+export function votersOf(change: MembershipChange): string[] {
+  const urls = [...change.previous.members, ...change.next.members].map(member => member.url);
+  return Array.from(new Set(urls));
+}
+
+// Prepared servers a change needs at the least
+export function jointQuorumSize(change: MembershipChange): number {
+  return Math.max(majority(change.previous), majority(change.next));
+}
+
+// Why the servers that prepared are too few for the change, or null: it
+// needs a majority of the old members and a majority of the new ones
+export function jointQuorumShortfall(change: MembershipChange, prepared: string[]): string | null {
+  const count = (config: MembershipConfig) =>
+    config.members.filter(member => prepared.includes(member.url)).length;
+  const previous = count(change.previous);
+  const next = count(change.next);
+
+  if (previous >= majority(change.previous) && next >= majority(change.next)) {
+    return null;
+  }
+  return `${majority(change.previous)} of ${change.previous.members.length} old and ` +
+    `${majority(change.next)} of ${change.next.members.length} new members, got ${previous} and ${next}`;
+}
+
+// The URL's origin and path without a trailing slash, or null unless it is
+// an http(s) URL
+export function normalizeMemberUrl(url: unknown): string | null {
+  if (typeof url !== 'string') {
+    return null;
+  }
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+    return `${parsed.origin}${parsed.pathname}`.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+// Why a member list cannot be installed, or null
+export function checkMembers(members: ClusterMember[]): string | null {
+  if (!Array.isArray(members) || members.length === 0) {
+    return 'A cluster needs at least one member';
+  }
+  const urls = new Set<string>();
+  const serverIds = new Set<string>();
+  for (const member of members) {
+    if (normalizeMemberUrl(member?.url) !== member?.url) {
+      return `Invalid member URL: ${member?.url}`;
+    }
+    if (urls.has(member.url)) {
+      return `Duplicate member: ${member.url}`;
+    }
+    if (member.server_id !== undefined && serverIds.has(member.server_id)) {
+      return `Duplicate server id: ${member.server_id}`;
+    }
+    urls.add(member.url);
+    if (member.server_id !== undefined) {
+      serverIds.add(member.server_id);
+    }
+  }
+  return null;
+}
+
+/**
+ * The servers that make up the cluster, agreed on through replication.
+ *
+ * A change is a 2PC write ('membership') voted on by the old and the new
+ * members, which needs a majority of each, and bumps the epoch. Every write
+ * carries its coordinator's config: participants at an older epoch adopt
+ * it, and refuse writes from coordinators at an older epoch. A prepared
+ * change conflicts with every other write, so once a majority of the old
+ * members has prepared it no write can reach a majority under the old
+ * member list, and none reaches the new members before it commits.
+ *
+ * The seed (epoch 0) is this server and PEER_URLS. Committed configs are
+ * kept in a file and win over the environment after a restart.
+ */
+export class ClusterMembership {
+  private filePath: string;
+  private self: ClusterMember;
+  private config: MembershipConfig;
+  // Transaction id of a change prepared here and not yet decided
+  private pending: string | null = null;
+  // Change this server is coordinating; its new members get signed requests
+  private proposal: MembershipChange | null = null;
+  private listeners: Array<(config: MembershipConfig) => void> = [];
+  // Serializes installs, so a slow older config never overwrites a newer one
+  private installing: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, self: ClusterMember, peerUrls: string[]) {
+    this.filePath = filePath;
+    this.self = self;
+    this.config = {
+      epoch: 0,
+      members: [self, ...peerUrls.filter(url => url !== self.url).map(url => ({ url }))]
+    };
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      this.config = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      return;
+    }
+    this.notify();
+  }
+
+  get(): MembershipConfig {
+    return { ...this.config, members: this.config.members.map(member => ({ ...member })) };
+  }
+
+  getEpoch(): number {
+    return this.config.epoch;
+  }
+
+  getSelf(): ClusterMember {
+    return { ...this.self };
+  }
+
+  // Every member but this server
+  getPeers(): string[] {
+    return this.config.members.map(member => member.url).filter(url => url !== this.self.url);
+  }
+
+  isMember(): boolean {
+    return this.config.members.some(member => member.url === this.self.url);
+  }
+
+  // Servers this server may send peer requests to: the members, this one
+  // included, and the new members of a change it is coordinating
+  getKnownUrls(): string[] {
+    const members = [...this.config.members, ...(this.proposal?.next.members || [])];
+    return Array.from(new Set(members.map(member => member.url)));
+  }
+
+  getPending(): string | null {
+    return this.pending;
+  }
+
+  setPending(transactionId: string): void {
+    this.pending = transactionId;
+  }
+
+  // Only clears the marker of the given transaction
+  clearPending(transactionId: string): void {
+    if (this.pending === transactionId) {
+      this.pending = null;
+    }
+  }
+
+  onChange(listener: (config: MembershipConfig) => void): void {
+    this.listeners.push(listener);
+  }
+
+  // Start coordinating a change to the given members; endChange() once it
+  // is decided
+  beginChange(members: ClusterMember[]): MembershipChange {
+    this.proposal = {
+      previous: this.get(),
+      next: { epoch: this.config.epoch + 1, members, updated_at: new Date().toISOString() }
+    };
+    return this.proposal;
+  }
+
+  endChange(): void {
+    this.proposal = null;
+  }
+
+  // Why this server cannot vote for the change, or null
+  check(change: MembershipChange | undefined): string | null {
+    if (!change?.next) {
+      return 'Missing membership change';
+    }
+    if (change.next.epoch !== this.config.epoch + 1) {
+      return `Membership is at epoch ${this.config.epoch}, the change is for epoch ${change.next.epoch}`;
+    }
+    return checkMembers(change.next.members);
+  }
+
+  // Install a committed config. Older and equal epochs are ignored, so
+  // learning the same config twice (from its commit, from catch-up or from
+  // a coordinator's prepare) is harmless. Resolves true when it was new.
+  apply(config: MembershipConfig): Promise<boolean> {
+    const installed = this.installing.then(() => this.install(config));
+    this.installing = installed.catch(() => undefined);
+    return installed;
+  }
+
+  private async install(config: MembershipConfig): Promise<boolean> {
+    if (config.epoch <= this.config.epoch) {
+      return false;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(config));
+    await fs.rename(tempPath, this.filePath);
+
+    this.config = { ...config, members: config.members.map(member => ({ ...member })) };
+    const urls = config.members.map(member => member.url);
+    logger.info('membership.changed', `Membership epoch ${config.epoch}: ${urls.join(', ')}`, {
+      epoch: config.epoch,
+      members: urls
+    });
+    if (!this.isMember()) {
+      logger.warn('membership.removed', 'This server is no longer a cluster member', { epoch: config.epoch });
+    }
+    this.notify();
+    return true;
+  }
+
+  private notify(): void {
+    const config = this.get();
+    this.listeners.forEach(listener => listener(config));
+  }
+}
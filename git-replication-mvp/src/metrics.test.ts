@@ -0,0 +1,61 @@
+import { CpuUsage, MetricsRegistry } from './metrics';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters and gauges in the Prometheus text format', async () => {
+    const requests = registry.counter('requests_total', 'Requests');
+    requests.inc({ route: '/repos', status: '200' });
+    requests.inc({ status: '200', route: '/repos' }, 2);
+    requests.inc({ route: '/say "hi"', status: '500' });
+    registry.gauge('repositories', 'Repositories', () => 3);
+    registry.gauge('peer_up', 'Peers', async () => [{ labels: { peer: 'http://a' }, value: 1 }]);
+
+    expect(await registry.render()).toBe([
+      '# HELP requests_total Requests',
+      '# TYPE requests_total counter',
+      'requests_total{route="/repos",status="200"} 3',
+      'requests_total{route="/say \\"hi\\"",status="500"} 1',
+      '# HELP repositories Repositories',
+      '# TYPE repositories gauge',
+      'repositories 3',
+      '# HELP peer_up Peers',
+      '# TYPE peer_up gauge',
+      'peer_up{peer="http://a"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  it('should keep cumulative histogram buckets with a sum and count', async () => {
+    const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    latency.observe({ peer: 'a' }, 0.05);
+    latency.observe({ peer: 'a' }, 0.5);
+    latency.observe({ peer: 'a' }, 3);
+
+    expect(await registry.render()).toContain([
+      'latency_seconds_bucket{peer="a",le="0.1"} 1',
+      'latency_seconds_bucket{peer="a",le="1"} 2',
+      'latency_seconds_bucket{peer="a",le="+Inf"} 3',
+      'latency_seconds_sum{peer="a"} 3.55',
+      'latency_seconds_count{peer="a"} 3'
+    ].join('\n'));
+  });
+
+  it('should refuse to register a name twice', () => {
+    registry.counter('requests_total', 'Requests');
+    expect(() => registry.gauge('requests_total', 'Requests', () => 0)).toThrow('Metric already registered');
+  });
+});
+
+describe('CpuUsage', () => {
+  it('should report a share between 0 and 1', () => {
+    const cpu = new CpuUsage();
+    cpu.sample();
+    expect(cpu.current()).toBeGreaterThanOrEqual(0);
+    expect(cpu.current()).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,223 @@
+import os from 'os';
+import { NextFunction, Request, Response } from 'express';
+
+export type Labels = Record<string, string>;
+
+// A gauge read when the metrics are scraped: one value, or one per label set
+type GaugeValue = number | Array<{ labels: Labels; value: number }>;
+
+// Seconds; from a quick local call to a 5-second peer timeout
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  lines(): Promise<string[]>;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  readonly name: string;
+  readonly help: string;
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels = {}, by: number = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key) || { labels, value: 0 };
+    this.values.set(key, { labels: current.labels, value: current.value + by });
+  }
+
+  async lines(): Promise<string[]> {
+    return Array.from(this.values.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  readonly name: string;
+  readonly help: string;
+  private collect: () => GaugeValue | Promise<GaugeValue>;
+
+  constructor(name: string, help: string, collect: () => GaugeValue | Promise<GaugeValue>) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+  }
+
+  async lines(): Promise<string[]> {
+    const value = await this.collect();
+    const samples = typeof value === 'number' ? [{ labels: {}, value }] : value;
+    return samples.map(sample => `${this.name}${formatLabels(sample.labels)} ${sample.value}`);
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  readonly name: string;
+  readonly help: string;
+  private buckets: number[];
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, seconds: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (seconds <= bound) {
+        series!.counts[index]++;
+      }
+    });
+    series.sum += seconds;
+    series.count++;
+  }
+
+  // Call the returned function when the timed work is done
+  startTimer(labels: Labels): () => void {
+    const start = process.hrtime.bigint();
+    return () => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  async lines(): Promise<string[]> {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * The metrics a server exposes on GET /metrics, in the Prometheus text
+ * format. Components register counters and histograms and update them as
+ * they work; gauges are read from their owners when scraped, so they
+ * never go stale.
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: () => GaugeValue | Promise<GaugeValue>): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  async render(): Promise<string> {
+    const blocks = await Promise.all(Array.from(this.metrics.values(), async metric => [
+      `# HELP ${metric.name} ${metric.help}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...(await metric.lines())
+    ].join('\n')));
+    return `${blocks.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+// Count and time every request by its route pattern, so /repos/:user/:repo
+// is one series however many repositories there are
+export function httpMetrics(registry: MetricsRegistry) {
+  const requests = registry.counter('git_replication_http_requests_total', 'HTTP requests by route and status');
+  const duration = registry.histogram('git_replication_http_request_duration_seconds', 'HTTP request latency by route');
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const start = process.hrtime.bigint();
+    res.on('finish', () => {
+      const routePath = req.route?.path;
+      const route = routePath === undefined
+        ? 'unmatched'
+        : req.baseUrl + (Array.isArray(routePath) ? routePath.join(',') : String(routePath));
+      const labels = { method: req.method, route };
+      requests.inc({ ...labels, status: String(res.statusCode) });
+      duration.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    });
+    next();
+  };
+}
+
+function cpuTimes(): { idle: number; total: number } {
+  return os.cpus().reduce((sum, cpu) => ({
+    idle: sum.idle + cpu.times.idle,
+    total: sum.total + Object.values(cpu.times).reduce((a, b) => a + b, 0)
+  }), { idle: 0, total: 0 });
+}
+
+/**
+ * Share of the machine's CPU time in use. os.cpus() counts from boot, so
+ * usage is the difference between two samples taken `intervalMs` apart.
+ */
+export class CpuUsage {
+  private last = cpuTimes();
+  private usage: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  start(intervalMs: number = 5000): void {
+    this.timer = setInterval(() => this.sample(), intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  sample(): void {
+    const now = cpuTimes();
+    this.usage = CpuUsage.between(this.last, now);
+    this.last = now;
+  }
+
+  // From 0 to 1, over the last interval (or since start before the first)
+  current(): number {
+    return this.usage ?? CpuUsage.between(this.last, cpuTimes());
+  }
+
+  private static between(from: { idle: number; total: number }, to: { idle: number; total: number }): number {
+    const total = to.total - from.total;
+    return total > 0 ? 1 - (to.idle - from.idle) / total : 0;
+  }
+}
@@ -0,0 +1,84 @@
+import axios from 'axios';
+import { PeerHealthMonitor } from './peer-health';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('PeerHealthMonitor', () => {
+  const peerUrl = 'http://localhost:3001';
+  let monitor: PeerHealthMonitor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    monitor = new PeerHealthMonitor([peerUrl], { failureThreshold: 2 });
+  });
+
+  it('should start unknown but available', () => {
+    expect(monitor.getStatus(peerUrl)).toBe('unknown');
+    expect(monitor.isAvailable(peerUrl)).toBe(true);
+    expect(monitor.isFullStrength()).toBe(false);
+  });
+
+  it('should mark a healthy, in-sync peer as up', async () => {
+    mockedAxios.get.mockResolvedValue({ status: 200, data: { status: 'healthy', sync: 'in-sync' } });
+
+    await monitor.pollOnce();
+
+    expect(monitor.getAll()).toEqual([expect.objectContaining({
+      url: peerUrl,
+      status: 'up',
+      consecutive_failures: 0,
+      latency_ms: expect.any(Number)
+    })]);
+    expect(monitor.isFullStrength()).toBe(true);
+  });
+
+  it('should mark a peer that is still syncing as catching-up', async () => {
+    mockedAxios.get.mockResolvedValue({ status: 200, data: { status: 'degraded', sync: 'bootstrapping' } });
+
+    await monitor.pollOnce();
+
+    expect(monitor.getStatus(peerUrl)).toBe('catching-up');
+    expect(monitor.isAvailable(peerUrl)).toBe(false);
+  });
+
+  it('should skip a peer in maintenance', async () => {
+    mockedAxios.get.mockResolvedValue({
+      status: 200,
+      data: { status: 'maintenance', sync: 'in-sync', maintenance: { reason: 'disk swap', since: '...' } }
+    });
+
+    await monitor.pollOnce();
+
+    expect(monitor.getAll()).toEqual([expect.objectContaining({ status: 'maintenance', error: 'disk swap' })]);
+    expect(monitor.isAvailable(peerUrl)).toBe(false);
+  });
+
+  it('should mark a peer answering with an error as degraded', async () => {
+    mockedAxios.get.mockResolvedValue({ status: 500, data: {} });
+
+    await monitor.pollOnce();
+
+    expect(monitor.getStatus(peerUrl)).toBe('degraded');
+    expect(monitor.isAvailable(peerUrl)).toBe(true);
+  });
+
+  it('should mark a peer down only after repeated failures', async () => {
+    mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await monitor.pollOnce();
+    expect(monitor.getStatus(peerUrl)).toBe('unknown');
+
+    await monitor.pollOnce();
+    expect(monitor.getStatus(peerUrl)).toBe('down');
+    expect(monitor.isAvailable(peerUrl)).toBe(false);
+    expect(monitor.getAll()[0]).toMatchObject({
+      consecutive_failures: 2,
+      error: 'connect ECONNREFUSED'
+    });
+
+    mockedAxios.get.mockResolvedValue({ status: 200, data: { status: 'healthy', sync: 'in-sync' } });
+    await monitor.pollOnce();
+    expect(monitor.getStatus(peerUrl)).toBe('up');
+  });
+});
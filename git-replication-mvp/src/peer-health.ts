@@ -0,0 +1,166 @@
+import axios from 'axios';
+import { logger } from './logger';
+
+// 'unknown' until the first poll answers or fails for good
+export type PeerStatus = 'unknown' | 'up' | 'degraded' | 'catching-up' | 'maintenance' | 'down';
+
+export interface PeerHealth {
+  url: string;
+  status: PeerStatus;
+  last_checked?: string;
+  last_seen?: string; // Last time the peer answered at all
+  latency_ms?: number;
+  consecutive_failures: number;
+  error?: string;
+}
+
+export interface PeerHealthOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+  // Failed polls in a row before a peer counts as down
+  failureThreshold?: number;
+  // A peer answering slower than this is degraded
+  slowThresholdMs?: number;
+}
+
+// Peers worth sending a prepare to; the rest would fail or time out
+const AVAILABLE_STATUSES: PeerStatus[] = ['unknown', 'up', 'degraded'];
+
+/**
+ * Polls each peer's /health on a schedule and keeps a status per peer:
+ *
+ * - up: answered healthy and in sync
+ * - degraded: answered, but slowly or with an error status
+ * - catching-up: answered, but is bootstrapping or catching up and will
+ *   refuse to vote on writes
+ * - maintenance: answered, but an operator took it out of service
+ * - down: failed `failureThreshold` polls in a row
+ */
+export class PeerHealthMonitor {
+  private peers: Map<string, PeerHealth> = new Map();
+  private intervalMs: number;
+  private timeoutMs: number;
+  private failureThreshold: number;
+  private slowThresholdMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(peerUrls: string[], options: PeerHealthOptions = {}) {
+    peerUrls.forEach(url => {
+      this.peers.set(url, { url, status: 'unknown', consecutive_failures: 0 });
+    });
+    this.intervalMs = options.intervalMs ?? 5000;
+    this.timeoutMs = options.timeoutMs ?? 2000;
+    this.failureThreshold = options.failureThreshold ?? 2;
+    this.slowThresholdMs = options.slowThresholdMs ?? 1000;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const poll = () => {
+      if (!this.polling) {
+        this.pollOnce().catch(error => {
+          logger.error('peer-health.failed', `Peer health poll failed: ${error.message}`);
+        });
+      }
+    };
+
+    this.timer = setInterval(poll, this.intervalMs);
+    this.timer.unref();
+    poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async pollOnce(): Promise<void> {
+    this.polling = true;
+    try {
+      await Promise.all(Array.from(this.peers.keys()).map(url => this.poll(url)));
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Follow a membership change; peers that stay keep their status
+  setPeers(peerUrls: string[]): void {
+    for (const url of this.peers.keys()) {
+      if (!peerUrls.includes(url)) {
+        this.peers.delete(url);
+      }
+    }
+    peerUrls.filter(url => !this.peers.has(url)).forEach(url => {
+      this.peers.set(url, { url, status: 'unknown', consecutive_failures: 0 });
+    });
+  }
+
+  getStatus(url: string): PeerStatus {
+    return this.peers.get(url)?.status || 'unknown';
+  }
+
+  getAll(): PeerHealth[] {
+    return Array.from(this.peers.values()).map(peer => ({ ...peer }));
+  }
+
+  isAvailable(url: string): boolean {
+    return AVAILABLE_STATUSES.includes(this.getStatus(url));
+  }
+
+  // Every peer is up and in sync
+  isFullStrength(): boolean {
+    return Array.from(this.peers.values()).every(peer => peer.status === 'up');
+  }
+
+  private async poll(url: string): Promise<void> {
+    const peer = this.peers.get(url)!;
+    const started = Date.now();
+    peer.last_checked = new Date().toISOString();
+
+    try {
+      const response = await axios.get(`${url}/health`, {
+        timeout: this.timeoutMs,
+        // Any answer tells us the peer is alive; the status says how well
+        validateStatus: () => true
+      });
+      const latency = Date.now() - started;
+
+      peer.last_seen = peer.last_checked;
+      peer.latency_ms = latency;
+      peer.consecutive_failures = 0;
+
+      const sync = response.data?.sync;
+      if (response.status >= 400) {
+        peer.status = 'degraded';
+        peer.error = `HTTP ${response.status}`;
+      } else if (response.data?.status === 'maintenance') {
+        peer.status = 'maintenance';
+        peer.error = response.data.maintenance?.reason;
+      } else if (sync && sync !== 'in-sync') {
+        peer.status = 'catching-up';
+        peer.error = undefined;
+      } else if (latency > this.slowThresholdMs) {
+        peer.status = 'degraded';
+        peer.error = `slow response (${latency}ms)`;
+      } else {
+        peer.status = 'up';
+        peer.error = undefined;
+      }
+    } catch (error: any) {
+      peer.consecutive_failures++;
+      peer.error = error.message;
+      if (peer.consecutive_failures >= this.failureThreshold) {
+        if (peer.status !== 'down') {
+          logger.warn('peer.down', `Peer ${url} is down: ${error.message}`, { peer: url });
+        }
+        peer.status = 'down';
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+// Helpers for Git's pkt-line framing used by the smart HTTP protocol.
+// Each packet is prefixed with its total length as 4 hex digits;
+// "0000" is a flush packet marking the end of a section.
+
+export const FLUSH_PKT = Buffer.from('0000');
+
+export function encodePktLine(data: string | Buffer): Buffer {
+  const payload = typeof data === 'string' ? Buffer.from(data) : data;
+  const length = (payload.length + 4).toString(16).padStart(4, '0');
+  return Buffer.concat([Buffer.from(length), payload]);
+}
+
+/**
+ * Read pkt-lines starting at `offset` up to the next flush packet.
+ * Returns the packet payloads and the offset just past the flush.
+ */
+export function decodePktLines(data: Buffer, offset: number = 0): { lines: Buffer[]; offset: number } {
+  const lines: Buffer[] = [];
+
+  while (offset + 4 <= data.length) {
+    const length = parseInt(data.toString('ascii', offset, offset + 4), 16);
+
+    if (Number.isNaN(length) || (length > 0 && length < 4)) {
+      throw new Error(`Invalid pkt-line length at offset ${offset}`);
+    }
+    if (length === 0) {
+      return { lines, offset: offset + 4 };
+    }
+    if (offset + length > data.length) {
+      throw new Error('Truncated pkt-line');
+    }
+
+    lines.push(data.subarray(offset + 4, offset + length));
+    offset += length;
+  }
+
+  throw new Error('Missing flush packet');
+}
+
+// Max payload of a side-band-64k packet: 65520 bytes minus length and band byte
+const SIDEBAND_MAX_PAYLOAD = 65515;
+
+/**
+ * Wrap data in side-band packets (1 = data, 2 = progress, 3 = error).
+ */
+export function encodeSideband(band: 1 | 2 | 3, data: Buffer): Buffer {
+  const packets: Buffer[] = [];
+
+  for (let start = 0; start < data.length; start += SIDEBAND_MAX_PAYLOAD) {
+    const chunk = data.subarray(start, start + SIDEBAND_MAX_PAYLOAD);
+    packets.push(encodePktLine(Buffer.concat([Buffer.from([band]), chunk])));
+  }
+
+  return Buffer.concat(packets);
+}
@@ -0,0 +1,68 @@
+import {
+  AllPolicy,
+  MajorityPolicy,
+  NOfMPolicy,
+  QuorumConfig,
+  classifyWrite,
+  parseQuorumPolicy
+} from './quorum-policy';
+
+describe('Quorum policies', () => {
+  it('should require a majority of servers', () => {
+    const policy = new MajorityPolicy();
+    expect(policy.requiredPeers(1)).toBe(1);
+    expect(policy.requiredPeers(2)).toBe(1);
+    // Half of an even cluster is not enough: 3 of 4, 4 of 6
+    expect(policy.requiredPeers(3)).toBe(2);
+    expect(policy.requiredPeers(5)).toBe(3);
+  });
+
+  it('should require every peer with all', () => {
+    expect(new AllPolicy().requiredPeers(5)).toBe(5);
+  });
+
+  it('should require N of M servers, counting the coordinator', () => {
+    // 4 of 6 servers: the coordinator plus 3 peers
+    expect(new NOfMPolicy(4, 6).requiredPeers(5)).toBe(3);
+    // Same proportion on a 3-server cluster: 2 servers
+    expect(new NOfMPolicy(4, 6).requiredPeers(2)).toBe(1);
+    expect(new NOfMPolicy(2, 3).requiredPeers(1)).toBe(1);
+  });
+
+  it('should parse policy specs', () => {
+    expect(parseQuorumPolicy('majority').name).toBe('majority');
+    expect(parseQuorumPolicy('all').name).toBe('all');
+    expect(parseQuorumPolicy('4-of-6').name).toBe('4-of-6');
+    expect(() => parseQuorumPolicy('most')).toThrow('Invalid quorum policy: most');
+    expect(() => parseQuorumPolicy('7-of-6')).toThrow('Invalid quorum policy: 7-of-6');
+    // A minority or exactly half could commit writes anti-entropy then undoes
+    expect(() => parseQuorumPolicy('1-of-3')).toThrow('Invalid quorum policy: 1-of-3 is not a majority');
+    expect(() => parseQuorumPolicy('3-of-6')).toThrow('Invalid quorum policy: 3-of-6 is not a majority');
+  });
+
+  it('should classify writes as optimal, degraded or rejected', () => {
+    expect(classifyWrite(5, 5, 3)).toBe('optimal');
+    expect(classifyWrite(3, 5, 3)).toBe('degraded');
+    expect(classifyWrite(2, 5, 3)).toBe('rejected');
+  });
+});
+
+describe('QuorumConfig', () => {
+  const config = QuorumConfig.fromEnv('4-of-6', 'acme/payments=all,scratch/*=2-of-3');
+
+  it('should prefer an exact repo override, then an owner override', () => {
+    expect(config.policyFor('acme/payments').name).toBe('all');
+    expect(config.policyFor('scratch/notes').name).toBe('2-of-3');
+    expect(config.policyFor('acme/website').name).toBe('4-of-6');
+  });
+
+  it('should report the weakest requirement in use', () => {
+    expect(config.minRequiredPeers(5)).toBe(3);
+  });
+
+  it('should reject malformed overrides', () => {
+    expect(() => QuorumConfig.fromEnv(undefined, 'acme/payments')).toThrow(
+      'Invalid quorum override: acme/payments'
+    );
+  });
+});
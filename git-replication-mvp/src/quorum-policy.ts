@@ -0,0 +1,155 @@
+// How a write landed: every peer confirmed, enough peers confirmed, or too
+// few confirmed and it was rolled back
+export type WriteOutcome = 'optimal' | 'degraded' | 'rejected';
+
+/**
+ * Decides how many peer confirmations a write needs. The coordinator always
+ * counts itself, so the result is the number of *peers* on top of it.
+ */
+export interface QuorumPolicy {
+  readonly name: string;
+  requiredPeers(peerCount: number): number;
+}
+
+export class MajorityPolicy implements QuorumPolicy {
+  readonly name = 'majority';
+
+  requiredPeers(peerCount: number): number {
+    // Total servers = self + peers
+    const totalServers = 1 + peerCount;
+
+    // More than half of the servers, floor(N/2) + 1 counting self, so any
+    // two quorums overlap:
+    // For 2 servers: need 1 peer (self + 1 = quorum of 2)
+    // For 3 servers: need 1 peer (self + 1 = quorum of 2)
+    // For 6 servers: need 3 peers (self + 3 = quorum of 4)
+    return Math.floor(totalServers / 2);
+  }
+}
+
+export class AllPolicy implements QuorumPolicy {
+  readonly name = 'all';
+
+  requiredPeers(peerCount: number): number {
+    return peerCount;
+  }
+}
+
+// N of M servers, counting the coordinator. On a cluster that is not M
+// servers large the same proportion applies, rounded up. N must be more
+// than half of M: anti-entropy repairs toward the majority and membership
+// changes rely on any two quorums overlapping, so a write confirmed by a
+// minority could be lost.
+export class NOfMPolicy implements QuorumPolicy {
+  readonly name: string;
+  private n: number;
+  private m: number;
+
+  constructor(n: number, m: number) {
+    if (!Number.isInteger(n) || !Number.isInteger(m) || n < 1 || n > m) {
+      throw new Error(`Invalid quorum policy: ${n}-of-${m}`);
+    }
+    if (2 * n <= m) {
+      throw new Error(`Invalid quorum policy: ${n}-of-${m} is not a majority`);
+    }
+    this.n = n;
+    this.m = m;
+    this.name = `${n}-of-${m}`;
+  }
+
+  requiredPeers(peerCount: number): number {
+    const totalServers = 1 + peerCount;
+    const requiredServers = totalServers === this.m
+      ? this.n
+      : Math.ceil((this.n * totalServers) / this.m);
+    return Math.min(peerCount, Math.max(0, requiredServers - 1));
+  }
+}
+
+// "majority", "all" or "<n>-of-<m>"
+export function parseQuorumPolicy(spec: string): QuorumPolicy {
+  const value = spec.trim();
+
+  if (value === 'majority') {
+    return new MajorityPolicy();
+  }
+  if (value === 'all') {
+    return new AllPolicy();
+  }
+
+  const match = value.match(/^(\d+)-of-(\d+)$/);
+  if (match) {
+    return new NOfMPolicy(parseInt(match[1], 10), parseInt(match[2], 10));
+  }
+
+  throw new Error(`Invalid quorum policy: ${spec}`);
+}
+
+/**
+ * The cluster default plus per-repository overrides. An override key is a
+ * repo id ("acme/payments") or every repo of an owner ("scratch/*"); an
+ * exact match wins over an owner match.
+ */
+export class QuorumConfig {
+  private defaultPolicy: QuorumPolicy;
+  private overrides: Map<string, QuorumPolicy>;
+
+  constructor(
+    defaultPolicy: QuorumPolicy = new MajorityPolicy(),
+    overrides: Record<string, QuorumPolicy> = {}
+  ) {
+    this.defaultPolicy = defaultPolicy;
+    this.overrides = new Map(Object.entries(overrides));
+  }
+
+  // QUORUM_POLICY="majority", QUORUM_OVERRIDES="acme/payments=all,scratch/*=2-of-3"
+  static fromEnv(policy?: string, overrides?: string): QuorumConfig {
+    const parsed: Record<string, QuorumPolicy> = {};
+
+    for (const entry of (overrides || '').split(',').filter(Boolean)) {
+      const [pattern, spec] = entry.split('=');
+      if (!pattern || !spec) {
+        throw new Error(`Invalid quorum override: ${entry}`);
+      }
+      parsed[pattern.trim()] = parseQuorumPolicy(spec);
+    }
+
+    return new QuorumConfig(policy ? parseQuorumPolicy(policy) : new MajorityPolicy(), parsed);
+  }
+
+  policyFor(repoId?: string): QuorumPolicy {
+    if (repoId) {
+      const exact = this.overrides.get(repoId);
+      if (exact) {
+        return exact;
+      }
+      const owner = this.overrides.get(`${repoId.split('/')[0]}/*`);
+      if (owner) {
+        return owner;
+      }
+    }
+    return this.defaultPolicy;
+  }
+
+  // The weakest requirement of any policy in use: the fewest peers a
+  // committed write can have reached
+  minRequiredPeers(peerCount: number): number {
+    const policies = [this.defaultPolicy, ...this.overrides.values()];
+    return Math.min(...policies.map(policy => policy.requiredPeers(peerCount)));
+  }
+
+  describe(): { default: string; overrides: Record<string, string> } {
+    const overrides: Record<string, string> = {};
+    this.overrides.forEach((policy, pattern) => {
+      overrides[pattern] = policy.name;
+    });
+    return { default: this.defaultPolicy.name, overrides };
+  }
+}
+
+export function classifyWrite(confirmed: number, peerCount: number, required: number): WriteOutcome {
+  if (confirmed < required) {
+    return 'rejected';
+  }
+  return confirmed === peerCount ? 'optimal' : 'degraded';
+}
@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { runGit } from './git-command';
+import { checkRefUpdates, isWellFormed } from './ref-updates';
+import { RepoStorage, ZERO_SHA } from './storage';
+import { createCommitPack } from './test-helpers';
+
+describe('ref updates', () => {
+  const testDataDir = './test-data-ref-updates';
+  const workDir = './test-data-ref-updates-work';
+  const storage = new RepoStorage(testDataDir);
+  let first: string;
+  let second: string;
+
+  beforeAll(async () => {
+    ({ commit: first } = await createCommitPack(workDir));
+    ({ commit: second } = await createCommitPack(workDir, 'CHANGES.md', 'v2\n'));
+
+    // main at the second commit, tag v1 at the first
+    await storage.createRepo('alice/project');
+    await runGit(['-C', workDir, 'push', '-q', path.resolve(storage.getRepoPath('alice/project')), 'main']);
+    await storage.setRefs('alice/project', [{ ref: 'refs/tags/v1', old_sha: ZERO_SHA, new_sha: first }]);
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('isWellFormed', () => {
+    it('should accept full SHAs under refs/', () => {
+      expect(isWellFormed([{ ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: 'a'.repeat(40) }])).toBe(true);
+    });
+
+    it('should reject empty, malformed and duplicate updates', () => {
+      const update = { ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: 'a'.repeat(40) };
+
+      expect(isWellFormed([])).toBe(false);
+      expect(isWellFormed(undefined)).toBe(false);
+      expect(isWellFormed([{ ...update, ref: 'main' }])).toBe(false);
+      expect(isWellFormed([{ ...update, new_sha: 'abc123' }])).toBe(false);
+      expect(isWellFormed([{ ...update, new_sha: ZERO_SHA }])).toBe(false);
+      expect(isWellFormed([update, update])).toBe(false);
+    });
+  });
+
+  describe('checkRefUpdates', () => {
+    const check = async (ref: string, old_sha: string, new_sha: string, force = false) =>
+      (await checkRefUpdates(storage, 'alice/project', [{ ref, old_sha, new_sha }], force)).get(ref);
+
+    it('should accept creations, fast-forwards and deletions at the expected value', async () => {
+      expect(await check('refs/heads/feature', ZERO_SHA, first)).toBeUndefined();
+      expect(await check('refs/tags/v2', ZERO_SHA, second)).toBeUndefined();
+      expect(await check('refs/tags/v1', first, ZERO_SHA)).toBeUndefined();
+      expect(await check('refs/heads/main', second, ZERO_SHA)).toBeUndefined();
+    });
+
+    it('should reject an update whose old value is not current', async () => {
+      expect(await check('refs/heads/main', first, second)).toBe('stale info');
+      expect(await check('refs/heads/main', ZERO_SHA, first)).toBe('stale info');
+    });
+
+    it('should reject objects the repository does not have', async () => {
+      expect(await check('refs/heads/feature', ZERO_SHA, 'f'.repeat(40))).toBe('missing necessary objects');
+    });
+
+    it('should refuse non-fast-forward branch updates unless forced', async () => {
+      expect(await check('refs/heads/main', second, first)).toBe('non-fast-forward');
+      expect(await check('refs/heads/main', second, first, true)).toBeUndefined();
+    });
+
+    it('should refuse to move an existing tag unless forced', async () => {
+      expect(await check('refs/tags/v1', first, second)).toBe('already exists');
+      expect(await check('refs/tags/v1', first, second, true)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { RepoStorage, RefUpdate, ZERO_SHA } from './storage';
+
+const SHA = /^[0-9a-f]{40}$/;
+
+// Non-empty list of updates with full SHAs and at most one update per ref.
+// Both SHAs zero (deleting a ref that does not exist) is not an update.
+export function isWellFormed(updates: unknown): updates is RefUpdate[] {
+  if (!Array.isArray(updates) || updates.length === 0) {
+    return false;
+  }
+
+  const refs = new Set<string>();
+  for (const update of updates) {
+    if (
+      !update ||
+      typeof update.ref !== 'string' ||
+      !/^refs\/\S+$/.test(update.ref) ||
+      !SHA.test(update.old_sha) ||
+      !SHA.test(update.new_sha) ||
+      (update.old_sha === ZERO_SHA && update.new_sha === ZERO_SHA) ||
+      refs.has(update.ref)
+    ) {
+      return false;
+    }
+    refs.add(update.ref);
+  }
+  return true;
+}
+
+/**
+ * Compare-and-swap check for ref updates whose objects are already in the
+ * repository. Returns the reason per ref that cannot be applied, in
+ * receive-pack's words:
+ *
+ * - stale info: the ref is not at `old_sha`
+ * - missing necessary objects: `new_sha` is not in the repository
+ * - non-fast-forward: a branch update that drops commits, without force
+ * - already exists: moving an existing tag, without force
+ */
+export async function checkRefUpdates(
+  storage: RepoStorage,
+  repoId: string,
+  updates: RefUpdate[],
+  force: boolean = false
+): Promise<Map<string, string>> {
+  const rejected = new Map<string, string>();
+  const currentRefs = await storage.listRefs(repoId);
+
+  for (const update of updates) {
+    const current = currentRefs.get(update.ref) || ZERO_SHA;
+    if (current !== update.old_sha) {
+      rejected.set(update.ref, 'stale info');
+      continue;
+    }
+
+    // Creations and deletions cannot lose commits
+    if (update.new_sha === ZERO_SHA) {
+      continue;
+    }
+    if (!(await storage.hasObject(repoId, update.new_sha))) {
+      rejected.set(update.ref, 'missing necessary objects');
+      continue;
+    }
+    if (update.old_sha === ZERO_SHA || force) {
+      continue;
+    }
+
+    if (update.ref.startsWith('refs/tags/')) {
+      rejected.set(update.ref, 'already exists');
+    } else if (!(await storage.isAncestor(repoId, update.old_sha, update.new_sha))) {
+      rejected.set(update.ref, 'non-fast-forward');
+    }
+  }
+
+  return rejected;
+}
@@ -1,17 +1,28 @@
 import axios from 'axios';
-import { stopServer, waitForServer } from './test-helpers';
+import fs from 'fs/promises';
+import { ReplicationHandler, Transaction } from './replication-handler';
+import { RepoStorage, ZERO_SHA } from './storage';
+import { TransactionLog } from './transaction-log';
+import { ClusterMembership } from './membership';
+import { createCommitPack, stopServer, waitForServer } from './test-helpers';
 
 describe('Replication Endpoints', () => {
   const serverUrl = 'http://localhost:3000';
+  const testDataDir = './test-data-replication-handler';
+  const workDir = './test-data-replication-handler-work';
 
   beforeAll(async () => {
     process.env.SERVER_ID = 'test-server';
+    process.env.DATA_DIR = testDataDir;
     require('./server');
     await waitForServer(1000);
   });
 
   afterAll(async () => {
     await stopServer();
+    delete process.env.DATA_DIR;
+    await fs.rm(testDataDir, { recursive: true, force: true });
+    await fs.rm(workDir, { recursive: true, force: true });
   });
 
   describe('POST /replicate/prepare', () => {
@@ -90,6 +101,25 @@ describe('Replication Endpoints', () => {
     });
   });
 
+  describe('coordinator check', () => {
+    it('should refuse commit and abort from a node that did not coordinate the transaction', async () => {
+      await axios.post(`${serverUrl}/replicate/prepare`, {
+        transaction_id: 'txn-owned',
+        coordinator_id: 'server-1',
+        repo_id: 'user/owned'
+      });
+
+      for (const phase of ['commit', 'abort']) {
+        await expect(
+          axios.post(`${serverUrl}/replicate/${phase}`, { transaction_id: 'txn-owned', coordinator_id: 'server-2' })
+        ).rejects.toMatchObject({
+          response: { status: 403, data: { error: 'Transaction txn-owned is coordinated by server-1' } }
+        });
+      }
+      await axios.post(`${serverUrl}/replicate/abort`, { transaction_id: 'txn-owned', coordinator_id: 'server-1' });
+    });
+  });
+
   describe('POST /replicate/abort', () => {
     it('should abort prepared transaction', async () => {
       // First prepare
@@ -118,4 +148,519 @@ describe('Replication Endpoints', () => {
       });
     });
   });
+
+  describe('GET /replicate/transactions/:id/outcome', () => {
+    it('should report the outcome of a committed transaction', async () => {
+      const response = await axios.get(`${serverUrl}/replicate/transactions/txn-456/outcome`);
+
+      expect(response.data).toEqual({
+        transaction_id: 'txn-456',
+        outcome: 'commit',
+        coordinator: false,
+        server_id: expect.any(String)
+      });
+    });
+
+    it('should report a prepared transaction as in-doubt', async () => {
+      const response = await axios.get(`${serverUrl}/replicate/transactions/txn-123/outcome`);
+      expect(response.data.outcome).toBe('in-doubt');
+    });
+
+    it('should report unknown transactions', async () => {
+      const response = await axios.get(`${serverUrl}/replicate/transactions/txn-missing/outcome`);
+      expect(response.data.outcome).toBe('unknown');
+    });
+  });
+
+  describe('GET /replicate/transactions', () => {
+    it('should filter transactions by status, repository and age', async () => {
+      const list = async (query: string) => (await axios.get(`${serverUrl}/replicate/transactions?${query}`)).data;
+
+      const prepared = await list('status=prepared');
+      expect(prepared.transactions.map((t: any) => t.transaction_id)).toContain('txn-123');
+      expect(prepared.transactions.every((t: any) => t.status === 'prepared')).toBe(true);
+
+      expect((await list('repo=user/repo&status=committed')).transactions).toEqual([
+        expect.objectContaining({
+          transaction_id: 'txn-456',
+          finished_at: expect.any(String),
+          age_seconds: expect.any(Number)
+        })
+      ]);
+      expect(await list('status=prepared&older_than=3600')).toMatchObject({ transactions: [], total: 0 });
+
+      await expect(axios.get(`${serverUrl}/replicate/transactions?status=stuck`)).rejects.toMatchObject({
+        response: { status: 400, data: { error: 'Invalid query' } }
+      });
+    });
+
+    it('should return one transaction, or 404', async () => {
+      const response = await axios.get(`${serverUrl}/replicate/transactions/txn-123`);
+      expect(response.data).toMatchObject({
+        transaction_id: 'txn-123',
+        transaction: { status: 'prepared', coordinator_id: 'server-1' },
+        decision: null
+      });
+
+      await expect(axios.get(`${serverUrl}/replicate/transactions/txn-missing`)).rejects.toMatchObject({
+        response: { status: 404, data: { error: 'Transaction not found: txn-missing' } }
+      });
+    });
+  });
+
+  describe('GET /replicate/transactions/:id/timeline', () => {
+    it('should log each phase under the caller\'s correlation id', async () => {
+      const headers = { 'X-Correlation-Id': 'req-timeline-1' };
+      const body = { transaction_id: 'txn-timeline', coordinator_id: 'server-1', repo_id: 'user/timeline' };
+
+      const prepared = await axios.post(`${serverUrl}/replicate/prepare`, body, { headers });
+      expect(prepared.headers['x-correlation-id']).toBe('req-timeline-1');
+      await axios.post(`${serverUrl}/replicate/commit`, body, { headers });
+
+      const response = await axios.get(`${serverUrl}/replicate/transactions/txn-timeline/timeline`);
+      expect(response.data).toMatchObject({
+        transaction_id: 'txn-timeline',
+        correlation_id: 'req-timeline-1',
+        events: [
+          { event: 'txn.prepare', role: 'participant', status: 200, duration_ms: expect.any(Number) },
+          { event: 'txn.commit', role: 'participant', status: 200, server_id: 'test-server' }
+        ],
+        nodes: { 'test-server': 'ok' }
+      });
+    });
+
+    it('should answer 404 for a transaction nobody logged', async () => {
+      await expect(
+        axios.get(`${serverUrl}/replicate/transactions/txn-unknown/timeline`)
+      ).rejects.toMatchObject({ response: { status: 404 } });
+    });
+  });
+
+  describe('push operation', () => {
+    const storage = new RepoStorage(testDataDir);
+    let commit: string;
+    let pack: Buffer;
+
+    const pushPrepare = (transaction_id: string, packData: Buffer) => ({
+      transaction_id,
+      coordinator_id: 'server-1',
+      repo_id: 'alice/project',
+      ref: 'refs/heads/main',
+      commit,
+      operation: 'push',
+      updates: [{ ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: commit }],
+      pack: packData.toString('base64')
+    });
+
+    beforeAll(async () => {
+      await storage.createRepo('alice/project');
+      ({ commit, pack } = await createCommitPack(workDir));
+    });
+
+    it('should stage objects on prepare without moving the ref', async () => {
+      const response = await axios.post(`${serverUrl}/replicate/prepare`, pushPrepare('txn-push-1', pack));
+
+      expect(response.data.status).toBe('prepared');
+      expect((await storage.listRefs('alice/project')).has('refs/heads/main')).toBe(false);
+      expect(await storage.hasObject('alice/project', commit)).toBe(false);
+    });
+
+    it('should apply staged objects and ref updates on commit', async () => {
+      await axios.post(`${serverUrl}/replicate/commit`, {
+        transaction_id: 'txn-push-1',
+        coordinator_id: 'server-1'
+      });
+
+      expect(await storage.hasObject('alice/project', commit)).toBe(true);
+      expect((await storage.listRefs('alice/project')).get('refs/heads/main')).toBe(commit);
+    });
+
+    it('should record the committed push in the journal', async () => {
+      const response = await axios.get(`${serverUrl}/replicate/journal`);
+
+      expect(response.data.entries).toContainEqual(expect.objectContaining({
+        transaction_id: 'txn-push-1',
+        repo_id: 'alice/project',
+        operation: 'push',
+        updates: [{ ref: 'refs/heads/main', old_sha: ZERO_SHA, new_sha: commit }]
+      }));
+    });
+
+    it('should vote no when the packfile is corrupt', async () => {
+      const corrupt = Buffer.from(pack);
+      corrupt[corrupt.length - 1] ^= 0xff; // Break the pack checksum
+
+      await expect(
+        axios.post(`${serverUrl}/replicate/prepare`, pushPrepare('txn-push-2', corrupt))
+      ).rejects.toMatchObject({
+        response: { status: 409, data: { error: 'Prepare rejected' } }
+      });
+    });
+
+    it('should vote no when objects are missing', async () => {
+      const data = pushPrepare('txn-push-3', Buffer.alloc(0));
+      data.updates[0].old_sha = commit;
+      data.updates[0].new_sha = 'f'.repeat(40);
+
+      await expect(
+        axios.post(`${serverUrl}/replicate/prepare`, { ...data, pack: null })
+      ).rejects.toMatchObject({
+        response: { status: 409 }
+      });
+    });
+
+    it('should vote no when the ref is no longer at its old value', async () => {
+      await expect(
+        axios.post(`${serverUrl}/replicate/prepare`, pushPrepare('txn-push-4', pack))
+      ).rejects.toMatchObject({
+        response: { status: 409, data: { details: 'refs/heads/main: stale info' } }
+      });
+    });
+  });
+
+  describe('update-ref operation', () => {
+    const storage = new RepoStorage(testDataDir);
+    let commit: string;
+
+    const updateRefPrepare = (transaction_id: string, ref: string, old_sha: string, new_sha: string) => ({
+      transaction_id,
+      coordinator_id: 'server-1',
+      repo_id: 'alice/project',
+      ref,
+      commit: new_sha,
+      operation: 'update-ref',
+      updates: [{ ref, old_sha, new_sha }]
+    });
+
+    beforeAll(async () => {
+      // main was pushed by the push tests above
+      commit = (await storage.listRefs('alice/project')).get('refs/heads/main')!;
+    });
+
+    it('should move the ref only on commit', async () => {
+      const prepare = updateRefPrepare('txn-ref-1', 'refs/tags/v1', ZERO_SHA, commit);
+
+      const response = await axios.post(`${serverUrl}/replicate/prepare`, prepare);
+      expect(response.data.status).toBe('prepared');
+      expect((await storage.listRefs('alice/project')).has('refs/tags/v1')).toBe(false);
+
+      await axios.post(`${serverUrl}/replicate/commit`, { transaction_id: 'txn-ref-1', coordinator_id: 'server-1' });
+      expect((await storage.listRefs('alice/project')).get('refs/tags/v1')).toBe(commit);
+
+      const journal = await axios.get(`${serverUrl}/replicate/journal`);
+      expect(journal.data.entries).toContainEqual(expect.objectContaining({
+        transaction_id: 'txn-ref-1',
+        operation: 'update-ref',
+        updates: prepare.updates
+      }));
+    });
+
+    it('should vote no when the ref is not at old_sha', async () => {
+      await expect(
+        axios.post(`${serverUrl}/replicate/prepare`, updateRefPrepare('txn-ref-2', 'refs/heads/main', ZERO_SHA, commit))
+      ).rejects.toMatchObject({
+        response: { status: 409, data: { error: 'Prepare rejected', details: 'refs/heads/main: stale info' } }
+      });
+    });
+
+    it('should delete the ref on commit', async () => {
+      await axios.post(`${serverUrl}/replicate/prepare`, updateRefPrepare('txn-ref-3', 'refs/tags/v1', commit, ZERO_SHA));
+      await axios.post(`${serverUrl}/replicate/commit`, { transaction_id: 'txn-ref-3', coordinator_id: 'server-1' });
+
+      expect((await storage.listRefs('alice/project')).has('refs/tags/v1')).toBe(false);
+    });
+  });
+
+  describe('create operation', () => {
+    const storage = new RepoStorage(testDataDir);
+    const createPrepare = (transaction_id: string, repo_id: string) => ({
+      transaction_id,
+      coordinator_id: 'server-1',
+      repo_id,
+      ref: 'refs/heads/main',
+      commit: 'initial',
+      operation: 'create'
+    });
+    const decision = (transaction_id: string) => ({ transaction_id, coordinator_id: 'server-1' });
+
+    it('should only create the repository on commit', async () => {
+      await axios.post(`${serverUrl}/replicate/prepare`, createPrepare('txn-create-1', 'bob/staged'));
+      expect(await storage.repoExists('bob/staged')).toBe(false);
+      expect(await storage.listRepos()).not.toContain('bob/staged');
+
+      await axios.post(`${serverUrl}/replicate/commit`, decision('txn-create-1'));
+      expect(await storage.repoExists('bob/staged')).toBe(true);
+    });
+
+    it('should leave nothing on disk after abort', async () => {
+      await axios.post(`${serverUrl}/replicate/prepare`, createPrepare('txn-create-2', 'bob/aborted'));
+      await axios.post(`${serverUrl}/replicate/abort`, decision('txn-create-2'));
+
+      expect(await storage.repoExists('bob/aborted')).toBe(false);
+      expect(await fs.readdir(`${testDataDir}/.staging`)).not.toContain('txn-create-2');
+    });
+
+    it('should refuse to commit an aborted transaction', async () => {
+      await expect(
+        axios.post(`${serverUrl}/replicate/commit`, decision('txn-create-2'))
+      ).rejects.toMatchObject({
+        response: { status: 409 }
+      });
+    });
+
+    it('should vote no on an id outside the owner\'s namespace', async () => {
+      await expect(
+        axios.post(`${serverUrl}/replicate/prepare`, createPrepare('txn-create-5', 'alice/../bob/squat'))
+      ).rejects.toMatchObject({
+        response: { status: 409, data: { details: 'Invalid repository: alice/../bob/squat' } }
+      });
+      expect(await storage.repoExists('bob/squat')).toBe(false);
+    });
+
+    it('should reject a conflicting prepare while one is pending', async () => {
+      await axios.post(`${serverUrl}/replicate/prepare`, createPrepare('txn-create-3', 'bob/contended'));
+
+      await expect(
+        axios.post(`${serverUrl}/replicate/prepare`, createPrepare('txn-create-4', 'bob/contended'))
+      ).rejects.toMatchObject({
+        response: { status: 409, data: { error: 'Prepare rejected' } }
+      });
+
+      // Once the first transaction is resolved the repo is free again
+      await axios.post(`${serverUrl}/replicate/abort`, decision('txn-create-3'));
+      const response = await axios.post(
+        `${serverUrl}/replicate/prepare`,
+        createPrepare('txn-create-4', 'bob/contended')
+      );
+      expect(response.data.status).toBe('prepared');
+    });
+  });
+
+  describe('delete, rename and restore operations', () => {
+    const storage = new RepoStorage(testDataDir);
+    const prepare = (transaction_id: string, fields: object) =>
+      axios.post(`${serverUrl}/replicate/prepare`, { transaction_id, coordinator_id: 'server-1', ...fields });
+    const commit = (transaction_id: string) =>
+      axios.post(`${serverUrl}/replicate/commit`, { transaction_id, coordinator_id: 'server-1' });
+
+    beforeAll(async () => {
+      await storage.createRepo('carol/app');
+    });
+
+    it('should rename the repository only on commit', async () => {
+      await prepare('txn-rename-1', { repo_id: 'carol/app', operation: 'rename', target_repo_id: 'erin/app' });
+      expect(await storage.repoExists('carol/app')).toBe(true);
+
+      await commit('txn-rename-1');
+      expect(await storage.repoExists('carol/app')).toBe(false);
+      expect(await storage.repoExists('erin/app')).toBe(true);
+    });
+
+    it('should hold the new id while a rename is pending', async () => {
+      await prepare('txn-rename-2', { repo_id: 'erin/app', operation: 'rename', target_repo_id: 'frank/app' });
+
+      await expect(
+        prepare('txn-create-5', { repo_id: 'frank/app', operation: 'create' })
+      ).rejects.toMatchObject({
+        response: { status: 409, data: { error: 'Prepare rejected' } }
+      });
+
+      await axios.post(`${serverUrl}/replicate/abort`, { transaction_id: 'txn-rename-2', coordinator_id: 'server-1' });
+    });
+
+    it('should move a deleted repository to the trash under the transaction id', async () => {
+      await prepare('txn-delete-1', { repo_id: 'erin/app', operation: 'delete' });
+      expect(await storage.repoExists('erin/app')).toBe(true);
+
+      await commit('txn-delete-1');
+      expect(await storage.repoExists('erin/app')).toBe(false);
+
+      const response = await axios.get(`${serverUrl}/trash`);
+      expect(response.data.trash).toEqual([
+        expect.objectContaining({ trash_id: 'txn-delete-1', repo_id: 'erin/app', expires_at: expect.any(String) })
+      ]);
+    });
+
+    it('should vote no on deleting a repository that does not exist', async () => {
+      await expect(
+        prepare('txn-delete-2', { repo_id: 'erin/app', operation: 'delete' })
+      ).rejects.toMatchObject({
+        response: { status: 409, data: { details: 'Repository not found: erin/app' } }
+      });
+    });
+
+    it('should restore a deleted repository on commit', async () => {
+      await prepare('txn-restore-1', { repo_id: 'erin/app', operation: 'restore', trash_id: 'txn-delete-1' });
+      await commit('txn-restore-1');
+
+      expect(await storage.repoExists('erin/app')).toBe(true);
+      expect(await storage.listTrash()).toEqual([]);
+    });
+  });
+
+  describe('write quorum membership', () => {
+    it('should refuse prepares while out of write quorum', async () => {
+      const { replicationHandler } = require('./server');
+      replicationHandler.setOutOfQuorum('catching up with peers');
+
+      try {
+        await expect(
+          axios.post(`${serverUrl}/replicate/prepare`, {
+            transaction_id: 'txn-behind',
+            coordinator_id: 'server-1',
+            repo_id: 'dave/behind',
+            ref: 'refs/heads/main',
+            commit: 'initial',
+            operation: 'create'
+          })
+        ).rejects.toMatchObject({
+          response: { status: 503, data: { error: 'Not in write quorum' } }
+        });
+      } finally {
+        replicationHandler.setOutOfQuorum(null);
+      }
+    });
+  });
+
+  describe('durability', () => {
+    it('should restore transactions from the log after a restart', async () => {
+      await axios.post(`${serverUrl}/replicate/prepare`, {
+        transaction_id: 'txn-durable',
+        coordinator_id: 'server-1',
+        repo_id: 'carol/durable',
+        ref: 'refs/heads/main',
+        commit: 'initial',
+        operation: 'create'
+      });
+
+      // A fresh handler replaying the same log, as after a crash
+      const storage = new RepoStorage(testDataDir);
+      const restarted = new ReplicationHandler(
+        'test-server',
+        storage,
+        new TransactionLog<Transaction>(`${testDataDir}/.txlog/participant.log`)
+      );
+      await restarted.initialize();
+
+      const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+      await restarted.handleCommit(
+        { body: { transaction_id: 'txn-durable', coordinator_id: 'server-1' } } as any,
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(await storage.repoExists('carol/durable')).toBe(true);
+    });
+  });
+
+  describe('transaction collection', () => {
+    it('should forget finished transactions after retention but keep prepared ones', async () => {
+      const logPath = `${workDir}/collect/participant.log`;
+      const handler = new ReplicationHandler('test-server', new RepoStorage(testDataDir), new TransactionLog<Transaction>(logPath));
+      await handler.initialize();
+
+      const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+      const body = (transaction_id: string) => ({ body: { transaction_id, coordinator_id: 'server-1', repo_id: `user/${transaction_id}` } } as any);
+      for (const id of ['txn-gc-committed', 'txn-gc-aborted', 'txn-gc-prepared']) {
+        await handler.handlePrepare(body(id), res);
+      }
+      await handler.handleCommit(body('txn-gc-committed'), res);
+      await handler.handleAbort(body('txn-gc-aborted'), res);
+
+      expect(await handler.collectFinished(new Date(Date.now() - 60000))).toEqual([]);
+      expect((await handler.collectFinished(new Date(Date.now() + 60000))).sort()).toEqual([
+        'txn-gc-aborted',
+        'txn-gc-committed'
+      ]);
+      expect(handler.getPreparedTransactions().map(t => t.transaction_id)).toEqual(['txn-gc-prepared']);
+
+      // Collected transactions stay gone after a restart
+      const restarted = new ReplicationHandler('test-server', new RepoStorage(testDataDir), new TransactionLog<Transaction>(logPath));
+      await restarted.initialize();
+      expect(restarted.getTransactionCount()).toBe(1);
+    });
+  });
+
+  describe('cluster membership', () => {
+    const selfUrl = 'http://localhost:3001';
+    const peers = ['http://localhost:3000', 'http://localhost:3002'];
+    let membership: ClusterMembership;
+    let handler: ReplicationHandler;
+
+    const res = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() }) as any;
+    const prepare = async (body: object) => {
+      const response = res();
+      await handler.handlePrepare({ body: { coordinator_id: 'server-1', ...body } } as any, response);
+      return response;
+    };
+
+    beforeEach(async () => {
+      membership = new ClusterMembership(`${workDir}/membership/membership.json`, { url: selfUrl }, peers);
+      handler = new ReplicationHandler('test-server', new RepoStorage(testDataDir), null, null, null, null, null, membership);
+      await handler.initialize();
+    });
+
+    afterEach(async () => {
+      await fs.rm(`${workDir}/membership`, { recursive: true, force: true });
+    });
+
+    it('should hold off writes while a membership change is prepared and install it on commit', async () => {
+      const change = {
+        previous: membership.get(),
+        next: { epoch: 1, members: [...membership.get().members, { url: 'http://localhost:3003' }] }
+      };
+      const prepared = await prepare({ transaction_id: 'txn-members', repo_id: '.cluster', operation: 'membership', membership: change });
+      expect(prepared.status).toHaveBeenCalledWith(200);
+      expect(membership.getPending()).toBe('txn-members');
+
+      const blocked = await prepare({ transaction_id: 'txn-write', repo_id: 'user/repo', operation: 'update-repo' });
+      expect(blocked.status).toHaveBeenCalledWith(409);
+      expect(blocked.json.mock.calls[0][0].details).toMatch(/^Conflicts with pending transaction txn-members/);
+
+      await handler.handleCommit({ body: { transaction_id: 'txn-members', coordinator_id: 'server-1' } } as any, res());
+      expect(membership.getEpoch()).toBe(1);
+      expect(membership.getPending()).toBeNull();
+    });
+
+    it('should refuse writes from a coordinator at an older epoch and adopt a newer one', async () => {
+      await membership.apply({ epoch: 2, members: [{ url: selfUrl }, ...peers.map(url => ({ url }))] });
+
+      const stale = await prepare({
+        transaction_id: 'txn-stale',
+        repo_id: 'user/repo',
+        membership_config: { epoch: 1, members: [] }
+      });
+      expect(stale.status).toHaveBeenCalledWith(409);
+      expect(stale.json).toHaveBeenCalledWith({
+        error: 'Prepare rejected',
+        details: 'Coordinator is at membership epoch 1, this server at 2'
+      });
+
+      // Epoch 3 dropped this server: it learns so and stops voting
+      const removed = await prepare({
+        transaction_id: 'txn-newer',
+        repo_id: 'user/repo',
+        membership_config: { epoch: 3, members: peers.map(url => ({ url })) }
+      });
+      expect(membership.getEpoch()).toBe(3);
+      expect(removed.status).toHaveBeenCalledWith(503);
+      expect(removed.json.mock.calls[0][0].error).toBe('Not a cluster member');
+    });
+
+    it('should answer 500 when the coordinator\'s newer membership cannot be installed', async () => {
+      jest.spyOn(membership, 'apply').mockRejectedValueOnce(new Error('ENOSPC: no space left on device'));
+
+      const response = await prepare({
+        transaction_id: 'txn-newer',
+        repo_id: 'user/repo',
+        membership_config: { epoch: 2, members: [{ url: selfUrl }, ...peers.map(url => ({ url }))] }
+      });
+      expect(response.status).toHaveBeenCalledWith(500);
+      expect(response.json).toHaveBeenCalledWith({
+        error: 'Prepare failed',
+        details: 'ENOSPC: no space left on device'
+      });
+      expect(handler.getPreparedTransactions()).toEqual([]);
+    });
+  });
 });
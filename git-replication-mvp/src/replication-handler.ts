@@ -1,5 +1,13 @@
 import { Request, Response } from 'express';
-import { RepoStorage } from './storage';
+import { RepoStorage, RefUpdate, ZERO_SHA } from './storage';
+import { TransactionLog } from './transaction-log';
+import { ReplicationCoordinator } from './replication';
+import { ReplicationJournal } from './replication-journal';
+import { isWellFormed, checkRefUpdates } from './ref-updates';
+import { AccessChange, AccessStore } from './access-store';
+import { RepoCatalog, RepoMetadata, checkMetadata } from './repo-catalog';
+import { ClusterMembership, MembershipChange, MembershipConfig } from './membership';
+import { currentCorrelationId, logger } from './logger';
 
 interface Transaction {
   transaction_id: string;
@@ -8,22 +16,179 @@ interface Transaction {
   ref: string;
   commit: string;
   operation: string;
-  timestamp: string;
+  updates?: RefUpdate[]; // For 'push' and 'update-ref'
+  target_repo_id?: string; // For 'rename'
+  trash_id?: string; // For 'restore'
+  access?: AccessChange; // For 'access', and with a 'create' or 'rename'
+  metadata?: RepoMetadata; // For 'create' and 'update-repo'
+  membership?: MembershipChange; // For 'membership'
+  at?: string; // Coordinator's clock, for the catalog
+  correlation_id?: string; // Of the request that started the write
+  timestamp: string; // Prepared at
+  finished_at?: string; // Committed or aborted at
   status: 'prepared' | 'committed' | 'aborted';
 }
 
+const TRANSACTION_STATUSES: Array<Transaction['status']> = ['prepared', 'committed', 'aborted'];
+
+// Most transactions one page of GET /replicate/transactions returns
+const MAX_PER_PAGE = 1000;
+
+// 'in-doubt': prepared here, decision not yet known
+type TransactionOutcome = 'pending' | 'commit' | 'abort' | 'in-doubt' | 'unknown';
+
+const PARTICIPANT_OUTCOMES: Record<Transaction['status'], TransactionOutcome> = {
+  prepared: 'in-doubt',
+  committed: 'commit',
+  aborted: 'abort'
+};
+
+// Operations that change a repository: they take repo/ref locks in
+// prepare and are journaled once committed ('membership' locks everything)
+const WRITE_OPERATIONS = [
+  'create', 'push', 'update-ref', 'delete', 'rename', 'restore', 'update-repo', 'access', 'membership'
+];
+
+// Operations that lock whole repositories rather than refs ('access' locks
+// the ACCESS_REPO_ID pseudo repository)
+const REPO_OPERATIONS = ['create', 'delete', 'rename', 'restore', 'update-repo', 'access'];
+
+/**
+ * Apply a committed write's repository changes, with objects and new
+ * repositories staged under the transaction id. Safe to repeat, so a
+ * write interrupted by a crash can be applied again; used by participants
+ * and by a coordinator for its own copy.
+ */
+async function applyToStorage(
+  storage: RepoStorage,
+  write: Pick<Transaction, 'transaction_id' | 'repo_id' | 'operation' | 'updates' | 'target_repo_id' | 'trash_id' | 'metadata'>
+): Promise<void> {
+  const { transaction_id, repo_id, operation } = write;
+  const staged = await storage.stagingExists(transaction_id);
+
+  if (operation === 'create') {
+    if (staged || !(await storage.repoExists(repo_id))) {
+      await storage.applyStagedRepo(repo_id, transaction_id);
+    }
+  } else if (operation === 'push' || operation === 'update-ref') {
+    if (staged) {
+      await storage.applyStagedObjects(repo_id, transaction_id);
+    }
+    const currentRefs = await storage.listRefs(repo_id);
+    const pending = (write.updates || []).filter(
+      update => (currentRefs.get(update.ref) || ZERO_SHA) !== update.new_sha
+    );
+    if (pending.length > 0) {
+      await storage.updateRefs(repo_id, pending);
+    }
+  } else if (operation === 'delete') {
+    // The delete's transaction id names the trash entry on every replica
+    if (await storage.repoExists(repo_id)) {
+      await storage.trashRepo(repo_id, transaction_id);
+    }
+  } else if (operation === 'rename') {
+    const target = write.target_repo_id!;
+    if ((await storage.repoExists(repo_id)) && !(await storage.repoExists(target))) {
+      await storage.moveRepo(repo_id, target);
+    }
+  } else if (operation === 'restore') {
+    if (await storage.getTrashEntry(write.trash_id!)) {
+      await storage.restoreRepo(write.trash_id!);
+    }
+  } else if (operation === 'update-repo') {
+    const branch = write.metadata?.default_branch;
+    if (branch && (await storage.repoExists(repo_id))) {
+      await storage.setDefaultBranch(repo_id, branch);
+    }
+  }
+}
+
+// A rename holds both the old and the new repository id
+const lockedRepos = (transaction: Pick<Transaction, 'repo_id' | 'operation' | 'target_repo_id'>) =>
+  transaction.operation === 'rename' && transaction.target_repo_id
+    ? [transaction.repo_id, transaction.target_repo_id]
+    : [transaction.repo_id];
+
+// A participant's "no" vote: the write is well-formed but cannot be staged
+// (conflict, missing objects, repository state mismatch)
+class PrepareRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrepareRejectedError';
+  }
+}
+
+/**
+ * Participant side of the 2-phase commit. Prepare stages the change under
+ * DATA_DIR/.staging/<transaction_id> without making it visible, commit
+ * applies it and abort throws the staged state away.
+ *
+ * With a transaction log, every state change is durable before it is
+ * acknowledged and initialize() restores the transactions after a restart.
+ * Committed writes are appended to the replication journal, which rejoining
+ * peers read to catch up.
+ */
 class ReplicationHandler {
   private transactions: Map<string, Transaction> = new Map();
   private serverId: string;
   private storage: RepoStorage;
+  private transactionLog: TransactionLog<Transaction> | null;
+  private coordinator: ReplicationCoordinator | null;
+  private journal: ReplicationJournal | null;
+  private accessStore: AccessStore | null;
+  private catalog: RepoCatalog | null;
+  // Set while the node is behind its peers; prepares are refused
+  private outOfQuorumReason: string | null = null;
+  // Set while an operator has the node in maintenance; prepares are refused
+  private maintenanceReason: string | null = null;
+  private membership: ClusterMembership | null;
 
-  constructor(serverId: string, storage: RepoStorage) {
+  constructor(
+    serverId: string,
+    storage: RepoStorage,
+    transactionLog: TransactionLog<Transaction> | null = null,
+    coordinator: ReplicationCoordinator | null = null,
+    journal: ReplicationJournal | null = null,
+    accessStore: AccessStore | null = null,
+    catalog: RepoCatalog | null = null,
+    membership: ClusterMembership | null = null
+  ) {
     this.serverId = serverId;
     this.storage = storage;
+    this.transactionLog = transactionLog;
+    this.coordinator = coordinator;
+    this.journal = journal;
+    this.accessStore = accessStore;
+    this.catalog = catalog;
+    this.membership = membership;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.transactionLog) {
+      this.transactions = await this.transactionLog.load();
+    }
+    this.getPreparedTransactions()
+      .filter(transaction => transaction.operation === 'membership')
+      .forEach(transaction => this.membership?.setPending(transaction.transaction_id));
   }
 
   async handlePrepare(req: Request, res: Response): Promise<void> {
-    const { transaction_id, coordinator_id, repo_id, ref, commit, operation } = req.body;
+    await this.logged('prepare', req, res, () => this.prepare(req, res));
+  }
+
+  async handleCommit(req: Request, res: Response): Promise<void> {
+    await this.logged('commit', req, res, () => this.commit(req, res));
+  }
+
+  async handleAbort(req: Request, res: Response): Promise<void> {
+    await this.logged('abort', req, res, () => this.abort(req, res));
+  }
+
+  private async prepare(req: Request, res: Response): Promise<void> {
+    const {
+      transaction_id, coordinator_id, repo_id, ref, commit, operation, updates, pack, force,
+      target_repo_id, trash_id, access, metadata, membership, membership_config, at
+    } = req.body;
 
     // Validate required fields
     if (!transaction_id || !coordinator_id || !repo_id) {
@@ -33,27 +198,119 @@ class ReplicationHandler {
       return;
     }
 
-    try {
-      // Perform the actual operation (e.g., create repo)
-      if (operation === 'create') {
-        if (!(await this.storage.repoExists(repo_id))) {
-          await this.storage.createRepo(repo_id);
-        }
+    // Retried prepare for a transaction we already staged
+    const existing = this.transactions.get(transaction_id);
+    if (existing) {
+      if (existing.status === 'prepared') {
+        res.status(200).json({
+          status: 'prepared',
+          transaction_id,
+          server_id: this.serverId
+        });
+      } else {
+        res.status(409).json({
+          error: `Transaction already ${existing.status}: ${transaction_id}`
+        });
       }
+      return;
+    }
 
-      // Store transaction in prepared state
-      const transaction: Transaction = {
-        transaction_id,
-        coordinator_id,
-        repo_id,
-        ref,
-        commit,
-        operation,
-        timestamp: new Date().toISOString(),
-        status: 'prepared'
-      };
+    if (this.maintenanceReason) {
+      res.status(503).json({
+        error: 'In maintenance',
+        details: this.maintenanceReason
+      });
+      return;
+    }
+
+    // A node that may be missing writes must not vote on new ones. A
+    // membership change only needs the member list, so a node catching up
+    // (or joining) votes on it.
+    if (this.outOfQuorumReason && operation !== 'membership') {
+      res.status(503).json({
+        error: 'Not in write quorum',
+        details: this.outOfQuorumReason
+      });
+      return;
+    }
+
+    let fenced: string | null;
+    try {
+      fenced = await this.checkMembershipEpoch(membership_config);
+    } catch (error: any) {
+      // Installing the coordinator's newer membership failed
+      res.status(500).json({
+        error: 'Prepare failed',
+        details: error.message
+      });
+      return;
+    }
+    if (fenced) {
+      res.status(409).json({
+        error: 'Prepare rejected',
+        details: fenced
+      });
+      return;
+    }
 
-      this.transactions.set(transaction_id, transaction);
+    // A server removed from the cluster only votes on joining it again
+    if (this.membership && !this.membership.isMember() && operation !== 'membership') {
+      res.status(503).json({
+        error: 'Not a cluster member',
+        details: `${this.membership.getSelf().url} is not a member at epoch ${this.membership.getEpoch()}`
+      });
+      return;
+    }
+
+    const conflict = this.findConflictingTransaction({ repo_id, operation, updates, target_repo_id });
+    if (conflict) {
+      res.status(409).json({
+        error: 'Prepare rejected',
+        details: `Conflicts with pending transaction ${conflict.transaction_id} on ${repo_id}`
+      });
+      return;
+    }
+
+    const invalidChange = operation === 'membership' ? this.checkMembershipChange(membership, coordinator_id) : null;
+    if (invalidChange) {
+      res.status(409).json({
+        error: 'Prepare rejected',
+        details: invalidChange
+      });
+      return;
+    }
+
+    // Reserve the repo/ref before staging so concurrent prepares conflict
+    const transaction: Transaction = {
+      transaction_id,
+      coordinator_id,
+      repo_id,
+      ref,
+      commit,
+      operation,
+      updates,
+      target_repo_id,
+      trash_id,
+      access,
+      metadata,
+      membership,
+      at,
+      correlation_id: currentCorrelationId(),
+      timestamp: new Date().toISOString(),
+      status: 'prepared'
+    };
+    this.transactions.set(transaction_id, transaction);
+    // Set in the same tick as the checks above, so no write this server
+    // coordinates can start in between
+    if (operation === 'membership') {
+      this.membership!.setPending(transaction_id);
+    }
+
+    try {
+      await this.stageWrite(transaction, pack, force === true);
+
+      // The vote only counts once the prepared state is durable
+      await this.record(transaction);
 
       res.status(200).json({
         status: 'prepared',
@@ -61,6 +318,18 @@ class ReplicationHandler {
         server_id: this.serverId
       });
     } catch (error: any) {
+      this.transactions.delete(transaction_id);
+      this.membership?.clearPending(transaction_id);
+      await this.storage.discardStaging(transaction_id);
+
+      if (error instanceof PrepareRejectedError) {
+        res.status(409).json({
+          error: 'Prepare rejected',
+          details: error.message
+        });
+        return;
+      }
+
       res.status(500).json({
         error: 'Prepare failed',
         details: error.message
@@ -68,7 +337,7 @@ class ReplicationHandler {
     }
   }
 
-  async handleCommit(req: Request, res: Response): Promise<void> {
+  private async commit(req: Request, res: Response): Promise<void> {
     const { transaction_id, coordinator_id } = req.body;
 
     // Validate required fields
@@ -88,9 +357,30 @@ class ReplicationHandler {
       return;
     }
 
-    // Update transaction status
-    transaction.status = 'committed';
-    this.transactions.set(transaction_id, transaction);
+    // Only the node that ran the prepare phase decides the outcome
+    if (transaction.coordinator_id !== coordinator_id) {
+      res.status(403).json({
+        error: `Transaction ${transaction_id} is coordinated by ${transaction.coordinator_id}`
+      });
+      return;
+    }
+
+    if (transaction.status === 'aborted') {
+      res.status(409).json({
+        error: `Transaction already aborted: ${transaction_id}`
+      });
+      return;
+    }
+
+    try {
+      await this.commitTransaction(transaction);
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Commit failed',
+        details: error.message
+      });
+      return;
+    }
 
     res.status(200).json({
       status: 'committed',
@@ -99,7 +389,7 @@ class ReplicationHandler {
     });
   }
 
-  async handleAbort(req: Request, res: Response): Promise<void> {
+  private async abort(req: Request, res: Response): Promise<void> {
     const { transaction_id, coordinator_id } = req.body;
 
     // Validate required fields
@@ -112,9 +402,28 @@ class ReplicationHandler {
 
     // Check if transaction exists (optional - can succeed even if not found)
     const transaction = this.transactions.get(transaction_id);
-    if (transaction) {
-      transaction.status = 'aborted';
-      this.transactions.set(transaction_id, transaction);
+    if (transaction && transaction.coordinator_id !== coordinator_id) {
+      res.status(403).json({
+        error: `Transaction ${transaction_id} is coordinated by ${transaction.coordinator_id}`
+      });
+      return;
+    }
+
+    if (transaction?.status === 'committed') {
+      res.status(409).json({
+        error: `Transaction already committed: ${transaction_id}`
+      });
+      return;
+    }
+
+    try {
+      await this.abortTransaction(transaction_id);
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Abort failed',
+        details: error.message
+      });
+      return;
     }
 
     res.status(200).json({
@@ -124,6 +433,423 @@ class ReplicationHandler {
     });
   }
 
+  // Run one phase of a transaction and log its result and duration. Why a
+  // phase was refused is in the response, which the coordinator logs.
+  private async logged(
+    phase: 'prepare' | 'commit' | 'abort',
+    req: Request,
+    res: Response,
+    run: () => Promise<void>
+  ): Promise<void> {
+    const started = Date.now();
+    await run();
+
+    const { transaction_id, coordinator_id } = req.body;
+    const fields = {
+      transaction_id,
+      role: 'participant',
+      coordinator_id,
+      repo_id: this.transactions.get(transaction_id)?.repo_id ?? req.body.repo_id,
+      status: res.statusCode,
+      duration_ms: Date.now() - started
+    };
+    if (res.statusCode < 300) {
+      logger.info(`txn.${phase}`, `${phase} done`, fields);
+    } else {
+      logger.warn(`txn.${phase}`, `${phase} refused with HTTP ${res.statusCode}`, fields);
+    }
+  }
+
+  // GET /replicate/transactions/:id/outcome
+  // Answers with what this node knows about a transaction: the decision if
+  // it coordinated it, otherwise its own participant state.
+  async handleOutcome(req: Request, res: Response): Promise<void> {
+    const transaction_id = req.params.id;
+    const decision = this.coordinator?.getDecision(transaction_id);
+    const transaction = this.transactions.get(transaction_id);
+
+    let outcome: TransactionOutcome = 'unknown';
+    if (decision) {
+      outcome = decision.decision;
+    } else if (transaction) {
+      outcome = PARTICIPANT_OUTCOMES[transaction.status];
+    }
+
+    res.status(200).json({
+      transaction_id,
+      outcome,
+      coordinator: decision !== undefined,
+      server_id: this.serverId
+    });
+  }
+
+  // GET /replicate/transactions?status=&repo=&older_than=&newer_than=&page=&per_page=
+  // This node's transactions, newest first; ages are seconds since prepare,
+  // so status=prepared&older_than=60 lists the ones stuck for a minute
+  handleListTransactions(req: Request, res: Response): void {
+    const { status, repo } = req.query;
+    const olderThan = req.query.older_than === undefined ? 0 : Number(req.query.older_than);
+    const newerThan = req.query.newer_than === undefined ? Infinity : Number(req.query.newer_than);
+    const page = Number(req.query.page ?? 1);
+    const perPage = Number(req.query.per_page ?? 100);
+
+    const invalid = [
+      status !== undefined && !TRANSACTION_STATUSES.includes(status as Transaction['status']) &&
+        `status must be one of ${TRANSACTION_STATUSES.join(', ')}`,
+      repo !== undefined && typeof repo !== 'string' && 'repo must be a repository id',
+      !(olderThan >= 0) && 'older_than must be a number of seconds',
+      !(newerThan >= 0) && 'newer_than must be a number of seconds',
+      !(Number.isInteger(page) && page >= 1) && 'page must be a positive integer',
+      !(Number.isInteger(perPage) && perPage >= 1 && perPage <= MAX_PER_PAGE) &&
+        `per_page must be between 1 and ${MAX_PER_PAGE}`
+    ].filter(Boolean);
+    if (invalid.length > 0) {
+      res.status(400).json({ error: 'Invalid query', details: invalid.join('; ') });
+      return;
+    }
+
+    const now = Date.now();
+    const matching = Array.from(this.transactions.values())
+      .filter(transaction => {
+        const age = (now - Date.parse(transaction.timestamp)) / 1000;
+        return (status === undefined || transaction.status === status) &&
+          (repo === undefined || lockedRepos(transaction).includes(repo as string)) &&
+          age >= olderThan &&
+          age <= newerThan;
+      })
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    const transactions = matching
+      .slice((page - 1) * perPage, page * perPage)
+      .map(transaction => this.describe(transaction, now));
+
+    res.status(200).json({
+      server_id: this.serverId,
+      transactions,
+      count: transactions.length,
+      total: matching.length,
+      page,
+      per_page: perPage
+    });
+  }
+
+  // GET /replicate/transactions/:id - this node's record of a transaction,
+  // with the decision if it coordinated it
+  handleGetTransaction(req: Request, res: Response): void {
+    const transaction_id = req.params.id;
+    const transaction = this.transactions.get(transaction_id);
+    const decision = this.coordinator?.getDecision(transaction_id);
+
+    if (!transaction && !decision) {
+      res.status(404).json({ error: `Transaction not found: ${transaction_id}` });
+      return;
+    }
+
+    res.status(200).json({
+      transaction_id,
+      server_id: this.serverId,
+      transaction: transaction ? this.describe(transaction, Date.now()) : null,
+      decision: decision ?? null
+    });
+  }
+
+  // Forget committed and aborted transactions that finished before `before`
+  // and return their ids. Prepared ones are kept however old: they still
+  // hold locks and wait for a decision.
+  async collectFinished(before: Date): Promise<string[]> {
+    const collected: string[] = [];
+    for (const transaction of Array.from(this.transactions.values())) {
+      const finishedAt = Date.parse(transaction.finished_at ?? transaction.timestamp);
+      if (transaction.status === 'prepared' || !(finishedAt < before.getTime())) {
+        continue;
+      }
+      this.transactions.delete(transaction.transaction_id);
+      await this.transactionLog?.remove(transaction.transaction_id);
+      collected.push(transaction.transaction_id);
+    }
+    return collected;
+  }
+
+  // Make the staged change visible (a repeated commit is a no-op)
+  async commitTransaction(transaction: Transaction): Promise<void> {
+    if (transaction.status === 'prepared') {
+      await this.applyWrite(transaction);
+
+      // Update transaction status
+      transaction.status = 'committed';
+      transaction.finished_at = new Date().toISOString();
+      await this.record(transaction);
+    }
+
+    if (transaction.status === 'committed' && WRITE_OPERATIONS.includes(transaction.operation)) {
+      await this.journal?.record({
+        transaction_id: transaction.transaction_id,
+        repo_id: transaction.repo_id,
+        operation: transaction.operation,
+        updates: transaction.updates,
+        target_repo_id: transaction.target_repo_id,
+        trash_id: transaction.trash_id,
+        access: transaction.access,
+        metadata: transaction.metadata,
+        membership: transaction.membership,
+        at: transaction.at
+      });
+    }
+  }
+
+  // Leave (reason set) or rejoin (null) the write quorum
+  setOutOfQuorum(reason: string | null): void {
+    this.outOfQuorumReason = reason;
+  }
+
+  // Enter (reason set) or leave (null) maintenance
+  setMaintenance(reason: string | null): void {
+    this.maintenanceReason = reason;
+  }
+
+  isInQuorum(): boolean {
+    return this.outOfQuorumReason === null && this.maintenanceReason === null;
+  }
+
+  async abortTransaction(transactionId: string): Promise<void> {
+    // Throw away anything staged, even for a prepare we never recorded
+    await this.storage.discardStaging(transactionId);
+
+    const transaction = this.transactions.get(transactionId);
+    if (transaction && transaction.status !== 'aborted') {
+      transaction.status = 'aborted';
+      transaction.finished_at = new Date().toISOString();
+      await this.record(transaction);
+    }
+    this.membership?.clearPending(transactionId);
+  }
+
+  getPreparedTransactions(): Transaction[] {
+    return Array.from(this.transactions.values()).filter(
+      transaction => transaction.status === 'prepared'
+    );
+  }
+
+  private async stageWrite(transaction: Transaction, pack: string | null, force: boolean): Promise<void> {
+    const { transaction_id: transactionId, repo_id: repoId, operation, updates } = transaction;
+
+    if (transaction.access) {
+      this.checkAccess(transaction.access);
+    } else if (operation === 'access') {
+      throw new PrepareRejectedError('Missing access change');
+    }
+
+    const invalidMetadata = transaction.metadata && checkMetadata(transaction.metadata);
+    if (invalidMetadata) {
+      throw new PrepareRejectedError(invalidMetadata);
+    }
+
+    if (operation === 'create') {
+      if (!RepoStorage.isValidRepoId(repoId)) {
+        throw new PrepareRejectedError(`Invalid repository: ${repoId}`);
+      }
+      if (await this.storage.repoExists(repoId)) {
+        throw new PrepareRejectedError(`Repository already exists: ${repoId}`);
+      }
+      await this.storage.stageRepo(transactionId, transaction.metadata?.default_branch);
+    } else if (operation === 'push') {
+      await this.stagePush(transactionId, repoId, updates || [], pack);
+    } else if (operation === 'update-ref') {
+      await this.checkUpdateRef(repoId, updates || [], force);
+    } else if (operation === 'delete' || operation === 'update-repo') {
+      if (!(await this.storage.repoExists(repoId))) {
+        throw new PrepareRejectedError(`Repository not found: ${repoId}`);
+      }
+    } else if (operation === 'rename') {
+      await this.checkRename(repoId, transaction.target_repo_id);
+    } else if (operation === 'restore') {
+      const entry = transaction.trash_id ? await this.storage.getTrashEntry(transaction.trash_id) : undefined;
+      if (!entry || entry.repo_id !== repoId) {
+        throw new PrepareRejectedError(`Not in trash: ${transaction.trash_id} (${repoId})`);
+      }
+      if (await this.storage.repoExists(repoId)) {
+        throw new PrepareRejectedError(`Repository already exists: ${repoId}`);
+      }
+    }
+  }
+
+  // Safe to repeat: after a crash between applying and logging the commit,
+  // the replayed 'prepared' transaction is committed again.
+  private async applyWrite(transaction: Transaction): Promise<void> {
+    const { transaction_id, operation } = transaction;
+
+    await applyToStorage(this.storage, transaction);
+    if (operation === 'membership') {
+      await this.membership?.apply(transaction.membership!.next);
+      this.membership?.clearPending(transaction_id);
+    }
+
+    if (transaction.access) {
+      await this.accessStore?.apply(transaction.access);
+    }
+    await this.catalog?.recordWrite(transaction);
+  }
+
+  private describe(transaction: Transaction, now: number) {
+    return {
+      ...transaction,
+      age_seconds: Math.floor((now - Date.parse(transaction.timestamp)) / 1000)
+    };
+  }
+
+  private async record(transaction: Transaction): Promise<void> {
+    this.transactions.set(transaction.transaction_id, transaction);
+    if (this.transactionLog) {
+      await this.transactionLog.append({ ...transaction });
+    }
+  }
+
+  // A create, delete, rename or restore locks the whole repository (a
+  // rename its new id as well); a push or update-ref locks the refs it
+  // updates. Other operations take no locks.
+  private findConflictingTransaction(
+    write: Pick<Transaction, 'repo_id' | 'operation' | 'updates' | 'target_repo_id'>
+  ): Transaction | undefined {
+    if (!WRITE_OPERATIONS.includes(write.operation)) {
+      return undefined;
+    }
+
+    const repos = lockedRepos(write);
+    const refs = new Set((write.updates || []).map(update => update.ref));
+
+    for (const transaction of this.transactions.values()) {
+      if (transaction.status !== 'prepared' || !WRITE_OPERATIONS.includes(transaction.operation)) {
+        continue;
+      }
+
+      // A membership change waits for every prepared write, and every
+      // write for a prepared membership change
+      if (write.operation === 'membership' || transaction.operation === 'membership') {
+        return transaction;
+      }
+
+      if (!lockedRepos(transaction).some(repoId => repos.includes(repoId))) {
+        continue;
+      }
+
+      if (
+        REPO_OPERATIONS.includes(write.operation) ||
+        REPO_OPERATIONS.includes(transaction.operation) ||
+        (transaction.updates || []).some(update => refs.has(update.ref))
+      ) {
+        return transaction;
+      }
+    }
+
+    return undefined;
+  }
+
+  // Stage the pushed objects in quarantine and only vote prepared when
+  // every ref is still at its old value and every new ref tip is fully
+  // connected.
+  private async stagePush(
+    transactionId: string,
+    repoId: string,
+    updates: RefUpdate[],
+    pack: string | null
+  ): Promise<void> {
+    if (!isWellFormed(updates)) {
+      throw new PrepareRejectedError('Missing or malformed ref updates');
+    }
+
+    if (!(await this.storage.repoExists(repoId))) {
+      throw new PrepareRejectedError(`Repository not found: ${repoId}`);
+    }
+
+    const currentRefs = await this.storage.listRefs(repoId);
+    for (const update of updates) {
+      const current = currentRefs.get(update.ref) || ZERO_SHA;
+      if (current !== update.old_sha) {
+        throw new PrepareRejectedError(`${update.ref}: stale info`);
+      }
+    }
+
+    try {
+      await this.storage.stagePack(repoId, transactionId, pack ? Buffer.from(pack, 'base64') : null);
+      await this.storage.verifyStagedConnectivity(
+        repoId,
+        transactionId,
+        updates.filter(u => u.new_sha !== ZERO_SHA).map(u => u.new_sha)
+      );
+    } catch (error: any) {
+      await this.storage.discardStaging(transactionId);
+      throw new PrepareRejectedError(`Cannot stage objects: ${error.message}`);
+    }
+  }
+
+  // Compare the coordinator's membership with this server's: a newer one
+  // was committed without us, so it is installed here first; an older one
+  // means the coordinator missed a change and must not get writes through.
+  // Returns why the prepare is refused, or null.
+  private async checkMembershipEpoch(config: MembershipConfig | undefined): Promise<string | null> {
+    if (!this.membership || !config) {
+      return null;
+    }
+    if (config.epoch > this.membership.getEpoch()) {
+      await this.membership.apply(config);
+    } else if (config.epoch < this.membership.getEpoch()) {
+      return `Coordinator is at membership epoch ${config.epoch}, this server at ${this.membership.getEpoch()}`;
+    }
+    return null;
+  }
+
+  // Why this server cannot vote for a membership change, or null. The
+  // change's own coordinator counts itself among the writes in flight.
+  private checkMembershipChange(change: MembershipChange | undefined, coordinatorId: string): string | null {
+    if (!this.membership) {
+      return 'Cluster membership is not configured';
+    }
+    const coordinating = this.coordinator?.getInFlightCount() ?? 0;
+    if (coordinating > (coordinatorId === this.serverId ? 1 : 0)) {
+      return `${coordinating} write(s) in flight on ${this.serverId}`;
+    }
+    return this.membership.check(change);
+  }
+
+  private checkAccess(change: AccessChange): void {
+    if (!this.accessStore) {
+      throw new PrepareRejectedError('Access control is not configured');
+    }
+    const reason = this.accessStore.check(change);
+    if (reason) {
+      throw new PrepareRejectedError(reason);
+    }
+  }
+
+  private async checkRename(repoId: string, targetRepoId: string | undefined): Promise<void> {
+    if (!targetRepoId || !RepoStorage.isValidRepoId(targetRepoId) || targetRepoId === repoId) {
+      throw new PrepareRejectedError(`Invalid target repository: ${targetRepoId}`);
+    }
+    if (!(await this.storage.repoExists(repoId))) {
+      throw new PrepareRejectedError(`Repository not found: ${repoId}`);
+    }
+    if (await this.storage.repoExists(targetRepoId)) {
+      throw new PrepareRejectedError(`Repository already exists: ${targetRepoId}`);
+    }
+  }
+
+  // Vote prepared only if every ref is still at its old value and the
+  // update would not drop commits (unless forced); nothing is staged
+  private async checkUpdateRef(repoId: string, updates: RefUpdate[], force: boolean): Promise<void> {
+    if (!isWellFormed(updates)) {
+      throw new PrepareRejectedError('Missing or malformed ref updates');
+    }
+
+    if (!(await this.storage.repoExists(repoId))) {
+      throw new PrepareRejectedError(`Repository not found: ${repoId}`);
+    }
+
+    const rejected = await checkRefUpdates(this.storage, repoId, updates, force);
+    if (rejected.size > 0) {
+      const reasons = Array.from(rejected, ([ref, reason]) => `${ref}: ${reason}`);
+      throw new PrepareRejectedError(reasons.join(', '));
+    }
+  }
+
   getTransactionCount(): number {
     return this.transactions.size;
   }
@@ -133,4 +859,4 @@ class ReplicationHandler {
   }
 }
 
-export { ReplicationHandler, Transaction };
+export { ReplicationHandler, Transaction, TransactionOutcome, applyToStorage };
@@ -0,0 +1,44 @@
+import fs from 'fs/promises';
+import { ReplicationJournal } from './replication-journal';
+
+describe('ReplicationJournal', () => {
+  const testDataDir = './test-data-replication-journal';
+  const logPath = `${testDataDir}/journal.log`;
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should number entries in commit order and ignore repeats', async () => {
+    const journal = new ReplicationJournal(logPath);
+    await journal.initialize();
+
+    await journal.record({ transaction_id: 'txn-1', repo_id: 'alice/project', operation: 'create' });
+    await journal.record({ transaction_id: 'txn-2', repo_id: 'alice/project', operation: 'push' });
+    await journal.record({ transaction_id: 'txn-1', repo_id: 'alice/project', operation: 'create' });
+
+    expect(journal.getLastSeq()).toBe(2);
+    expect(journal.entriesAfter(0).map(entry => [entry.seq, entry.transaction_id])).toEqual([
+      [1, 'txn-1'],
+      [2, 'txn-2']
+    ]);
+    expect(journal.entriesAfter(1).map(entry => entry.transaction_id)).toEqual(['txn-2']);
+  });
+
+  it('should continue the sequence after a restart', async () => {
+    const journal = new ReplicationJournal(logPath);
+    await journal.initialize();
+    await journal.record({ transaction_id: 'txn-1', repo_id: 'alice/project', operation: 'create' });
+
+    const restarted = new ReplicationJournal(logPath);
+    await restarted.initialize();
+    const entry = await restarted.record({
+      transaction_id: 'txn-2',
+      repo_id: 'alice/project',
+      operation: 'push'
+    });
+
+    expect(restarted.has('txn-1')).toBe(true);
+    expect(entry.seq).toBe(2);
+  });
+});
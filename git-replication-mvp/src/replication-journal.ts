@@ -0,0 +1,76 @@
+import { AccessChange } from './access-store';
+import { RepoMetadata } from './repo-catalog';
+import { MembershipChange } from './membership';
+import { RefUpdate } from './storage';
+import { TransactionLog } from './transaction-log';
+
+// One committed write, in the order this node applied it
+export interface JournalEntry {
+  transaction_id: string;
+  seq: number;
+  repo_id: string;
+  operation: string;
+  updates?: RefUpdate[];
+  target_repo_id?: string; // For 'rename'
+  trash_id?: string; // For 'restore'
+  access?: AccessChange; // For 'access', and with a 'create' or 'rename'
+  metadata?: RepoMetadata; // For 'create' and 'update-repo'
+  membership?: MembershipChange; // For 'membership'
+  at?: string; // Coordinator's clock when the write was made
+  committed_at: string;
+}
+
+/**
+ * Ordered, durable history of the writes this node has committed, whether
+ * as coordinator, as participant or while catching up. Sequence numbers are
+ * local to the node; peers use them as watermarks to ask "what did you
+ * commit after N?" when they rejoin.
+ */
+export class ReplicationJournal {
+  private log: TransactionLog<JournalEntry>;
+  private lastSeq = 0;
+
+  constructor(filePath: string) {
+    // Entries are written once and never superseded, so compaction would
+    // only rewrite the same content
+    this.log = new TransactionLog<JournalEntry>(filePath, { compactThreshold: Infinity });
+  }
+
+  async initialize(): Promise<void> {
+    const entries = await this.log.load();
+    for (const entry of entries.values()) {
+      this.lastSeq = Math.max(this.lastSeq, entry.seq);
+    }
+  }
+
+  // Record a committed write; recording the same transaction twice is a no-op
+  async record(entry: Omit<JournalEntry, 'seq' | 'committed_at'>): Promise<JournalEntry> {
+    const existing = this.log.get(entry.transaction_id);
+    if (existing) {
+      return existing;
+    }
+
+    const recorded: JournalEntry = {
+      ...entry,
+      seq: ++this.lastSeq,
+      committed_at: new Date().toISOString()
+    };
+    await this.log.append(recorded);
+    return recorded;
+  }
+
+  has(transactionId: string): boolean {
+    return this.log.get(transactionId) !== undefined;
+  }
+
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+
+  entriesAfter(seq: number, limit: number = 100): JournalEntry[] {
+    return this.log.values()
+      .filter(entry => entry.seq > seq)
+      .sort((a, b) => a.seq - b.seq)
+      .slice(0, limit);
+  }
+}
@@ -1,5 +1,11 @@
 import axios from 'axios';
-import { ReplicationCoordinator, ReplicationResult } from './replication';
+import fs from 'fs/promises';
+import { CoordinatorDecision, ReplicationCoordinator, ReplicationResult } from './replication';
+import { TransactionLog } from './transaction-log';
+import { AllPolicy, QuorumConfig } from './quorum-policy';
+import { MetricsRegistry } from './metrics';
+import { logger, withCorrelationId } from './logger';
+import { ClusterMembership } from './membership';
 
 // Mock axios
 jest.mock('axios');
@@ -56,6 +62,31 @@ describe('ReplicationCoordinator', () => {
       expect(result.peersRequired).toBe(1); // Minimum quorum
     });
 
+    it('should report peers whose commit was not delivered', async () => {
+      const writeData = {
+        repo_id: 'user/repo',
+        ref: 'refs/heads/main',
+        commit: 'abc123'
+      };
+
+      // Both prepare, but the second peer misses the commit
+      mockedAxios.post.mockImplementation(async (url: string) => {
+        if (url === 'http://localhost:3002/replicate/commit') {
+          throw new Error('Connection reset');
+        }
+        return { status: 200, data: { status: 'prepared' } };
+      });
+
+      const result = await coordinator.replicateWrite(writeData);
+
+      expect(result.success).toBe(true);
+      expect(result.peersPending).toEqual(['http://localhost:3002']);
+      expect(coordinator.getHandoffDepths()).toEqual({
+        'http://localhost:3001': 0,
+        'http://localhost:3002': 1
+      });
+    });
+
     it('should fail when quorum not reached (both peers down)', async () => {
       const writeData = {
         repo_id: 'user/repo',
@@ -73,6 +104,66 @@ describe('ReplicationCoordinator', () => {
       expect(result.error).toContain('Quorum not reached');
     });
 
+    it('should report a write too large for its peers apart from a quorum miss', async () => {
+      mockedAxios.post.mockImplementation(async (url: string) => {
+        if (url.endsWith('/replicate/prepare')) {
+          throw { response: { status: 413, data: 'request entity too large' } };
+        }
+        return { status: 200 };
+      });
+
+      const result = await coordinator.replicateWrite({
+        repo_id: 'user/repo',
+        operation: 'push',
+        updates: [{ ref: 'refs/heads/main', old_sha: 'abc123', new_sha: 'def456' }],
+        pack: 'A'.repeat(3 * 1024 * 1024)
+      });
+
+      expect(result).toMatchObject({ success: false, outcome: 'rejected', oversized: peerUrls });
+      expect(result.error).toMatch(/^Write too large for 2 peer\(s\) \(HTTP 413\)/);
+      // The timeout left room for the 3 MiB payload
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.any(Object),
+        expect.objectContaining({ timeout: 8000 })
+      );
+    });
+
+    it('should abort on all peers when quorum not reached', async () => {
+      const largeCoordinator = new ReplicationCoordinator('server-1', [
+        'http://localhost:3001',
+        'http://localhost:3002',
+        'http://localhost:3003',
+        'http://localhost:3004',
+        'http://localhost:3005'
+      ]);
+
+      // Only the first peer prepares; quorum needs 2
+      mockedAxios.post.mockImplementation(async (url: string) => {
+        if (url === 'http://localhost:3001/replicate/prepare' || url.endsWith('/replicate/abort')) {
+          return { status: 200, data: {} };
+        }
+        throw new Error('Connection refused');
+      });
+
+      const result = await largeCoordinator.replicateWrite({
+        repo_id: 'user/repo',
+        ref: 'refs/heads/main',
+        commit: 'abc123'
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/abort',
+        expect.objectContaining({ transaction_id: expect.any(String) }),
+        expect.any(Object)
+      );
+      const abortCalls = mockedAxios.post.mock.calls.filter(([url]) => url.endsWith('/replicate/abort'));
+      expect(abortCalls).toHaveLength(5);
+      const commitCalls = mockedAxios.post.mock.calls.filter(([url]) => url.endsWith('/replicate/commit'));
+      expect(commitCalls).toHaveLength(0);
+    });
+
     it('should use 2-phase commit protocol', async () => {
       const writeData = {
         repo_id: 'user/repo',
@@ -103,13 +194,194 @@ describe('ReplicationCoordinator', () => {
     });
   });
 
+  describe('peer health', () => {
+    const markDown = async (downPeers: string[]) => {
+      mockedAxios.get.mockImplementation(async (url: string) => {
+        if (downPeers.some(peerUrl => url.startsWith(peerUrl))) {
+          throw new Error('connect ECONNREFUSED');
+        }
+        return { status: 200, data: { status: 'healthy', sync: 'in-sync' } };
+      });
+      // Down after two failed polls in a row
+      await coordinator.getPeerHealthMonitor().pollOnce();
+      await coordinator.getPeerHealthMonitor().pollOnce();
+    };
+
+    it('should not send prepares to peers known to be down', async () => {
+      await markDown(['http://localhost:3002']);
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+
+      const result = await coordinator.replicateWrite({
+        repo_id: 'user/repo',
+        ref: 'refs/heads/main',
+        commit: 'abc123'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockedAxios.post).not.toHaveBeenCalledWith(
+        expect.stringContaining('http://localhost:3002'),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should fail fast when too few peers are available', async () => {
+      await markDown(peerUrls);
+
+      const result = await coordinator.replicateWrite({
+        repo_id: 'user/repo',
+        ref: 'refs/heads/main',
+        commit: 'abc123'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Quorum not reachable. Required: 1, Available: 0');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('decision log', () => {
+    const logPath = './test-data-replication/.txlog/coordinator.log';
+
+    afterEach(async () => {
+      await fs.rm('./test-data-replication', { recursive: true, force: true });
+    });
+
+    it('should log the commit decision before phase 2', async () => {
+      const log = new TransactionLog<CoordinatorDecision>(logPath);
+      const loggedCoordinator = new ReplicationCoordinator(serverId, peerUrls, log);
+      await loggedCoordinator.initialize();
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+
+      await loggedCoordinator.replicateWrite({ repo_id: 'user/repo', ref: 'refs/heads/main', commit: 'abc123' });
+
+      const records = await new TransactionLog<CoordinatorDecision>(logPath).load();
+      expect(Array.from(records.values())).toEqual([
+        expect.objectContaining({ repo_id: 'user/repo', decision: 'commit', participants: peerUrls })
+      ]);
+    });
+
+    it('should abort transactions left pending by a crash', async () => {
+      const log = new TransactionLog<CoordinatorDecision>(logPath);
+      await log.load();
+      await log.append({
+        transaction_id: 'txn-crashed',
+        repo_id: 'user/repo',
+        participants: peerUrls,
+        decision: 'pending',
+        timestamp: new Date().toISOString()
+      });
+
+      const restarted = new ReplicationCoordinator(
+        serverId,
+        peerUrls,
+        new TransactionLog<CoordinatorDecision>(logPath)
+      );
+      await restarted.initialize();
+
+      expect(restarted.getDecision('txn-crashed')?.decision).toBe('abort');
+    });
+
+    it('should forget decisions every participant acknowledged after the retention period', async () => {
+      const log = new TransactionLog<CoordinatorDecision>(logPath);
+      const loggedCoordinator = new ReplicationCoordinator(serverId, peerUrls, log);
+      await loggedCoordinator.initialize();
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      const acknowledged = await loggedCoordinator.replicateWrite({ repo_id: 'user/repo', ref: 'refs/heads/main', commit: 'abc123' });
+
+      // The second commit reaches one peer only and stays queued for the other
+      mockedAxios.post.mockImplementation(async (url: string) => {
+        if (url === 'http://localhost:3002/replicate/commit') {
+          throw new Error('connect ECONNREFUSED');
+        }
+        return { status: 200, data: { status: 'prepared' } };
+      });
+      const queued = await loggedCoordinator.replicateWrite({ repo_id: 'user/repo', ref: 'refs/heads/main', commit: 'def456' });
+      // And this node still owes the third one to its own copy
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      const owed = await loggedCoordinator.replicateWrite(
+        { repo_id: 'user/repo', ref: 'refs/heads/main', commit: 'fed789' },
+        { local: true }
+      );
+
+      expect(await loggedCoordinator.collectDecided(new Date(Date.now() - 60000))).toEqual([]);
+      expect(await loggedCoordinator.collectDecided(new Date(Date.now() + 60000))).toEqual([acknowledged.transactionId]);
+      expect(loggedCoordinator.getDecision(acknowledged.transactionId!)).toBeUndefined();
+      expect(loggedCoordinator.getDecision(queued.transactionId!)?.decision).toBe('commit');
+      expect(loggedCoordinator.getDecision(owed.transactionId!)?.decision).toBe('commit');
+
+      const records = await new TransactionLog<CoordinatorDecision>(logPath).load();
+      expect(Array.from(records.keys()).sort()).toEqual([owed.transactionId, queued.transactionId].sort());
+    });
+  });
+
+  describe('quorum policy', () => {
+    const writeData = { repo_id: 'user/repo', ref: 'refs/heads/main', commit: 'abc123' };
+
+    it('should mark a write confirmed by every peer as optimal', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+
+      const result = await coordinator.replicateWrite(writeData);
+
+      expect(result).toMatchObject({
+        success: true,
+        outcome: 'optimal',
+        policy: 'majority',
+        confirmedPeers: peerUrls,
+        failedPeers: []
+      });
+    });
+
+    it('should mark a write that met quorum without every peer as degraded', async () => {
+      mockedAxios.post
+        .mockResolvedValueOnce({ status: 200, data: { status: 'prepared' } })
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockResolvedValue({ status: 200 });
+
+      const result = await coordinator.replicateWrite(writeData);
+
+      expect(result).toMatchObject({
+        success: true,
+        outcome: 'degraded',
+        confirmedPeers: ['http://localhost:3001'],
+        failedPeers: ['http://localhost:3002']
+      });
+    });
+
+    it('should apply a stricter per-repo policy', async () => {
+      const strict = new ReplicationCoordinator(
+        serverId,
+        peerUrls,
+        null,
+        null,
+        new QuorumConfig(undefined, { 'acme/*': new AllPolicy() })
+      );
+      mockedAxios.post
+        .mockResolvedValueOnce({ status: 200, data: { status: 'prepared' } })
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockResolvedValue({ status: 200 });
+
+      const result = await strict.replicateWrite({ ...writeData, repo_id: 'acme/payments' });
+
+      expect(result).toMatchObject({
+        success: false,
+        outcome: 'rejected',
+        policy: 'all',
+        peersRequired: 2,
+        confirmedPeers: ['http://localhost:3001'],
+        failedPeers: ['http://localhost:3002']
+      });
+      expect(strict.getQuorumSize('scratch/notes')).toBe(1);
+    });
+  });
+
   describe('getQuorumSize', () => {
     it('should require at least 1 peer for 2 peers total', () => {
       const quorum = coordinator.getQuorumSize();
       expect(quorum).toBe(1); // 2 peers, need 1 (self + 1 peer = quorum)
     });
 
-    it('should require at least 2 peers for 5 peers total', () => {
+    it('should require at least 3 peers for 5 peers total', () => {
       const largePeerList = [
         'http://localhost:3001',
         'http://localhost:3002',
@@ -119,7 +391,113 @@ describe('ReplicationCoordinator', () => {
       ];
       const largeCoordinator = new ReplicationCoordinator('server-1', largePeerList);
       const quorum = largeCoordinator.getQuorumSize();
-      expect(quorum).toBe(2); // 5 peers, need 2 (self + 2 peers = quorum of 3/6)
+      expect(quorum).toBe(3); // 5 peers, need 3 (self + 3 peers = quorum of 4/6)
+    });
+  });
+
+  describe('metrics', () => {
+    it('should time prepares and commits per peer and count quorum results', async () => {
+      const metrics = new MetricsRegistry();
+      const measured = new ReplicationCoordinator(serverId, peerUrls, null, null, new QuorumConfig(), metrics);
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+      await measured.replicateWrite({ repo_id: 'user/repo', operation: 'push' });
+
+      mockedAxios.post.mockRejectedValue(new Error('Connection refused'));
+      await measured.replicateWrite({ repo_id: 'user/repo', operation: 'push' });
+
+      const text = await metrics.render();
+      expect(text).toContain('git_replication_prepare_duration_seconds_count{peer="http://localhost:3001"} 2');
+      expect(text).toContain('git_replication_commit_duration_seconds_count{peer="http://localhost:3002"} 1');
+      expect(text).toContain('git_replication_quorum_successes_total{operation="push"} 1');
+      expect(text).toContain('git_replication_quorum_failures_total{operation="push"} 1');
+      expect(measured.getInFlightCount()).toBe(0);
+    });
+  });
+
+  describe('tracing', () => {
+    it('should send the request\'s correlation id with every message and explain failed peers', async () => {
+      mockedAxios.post
+        .mockResolvedValueOnce({ status: 200, data: { status: 'prepared' } })
+        .mockRejectedValueOnce(Object.assign(new Error('timeout of 5000ms exceeded'), { code: 'ECONNABORTED' }))
+        .mockResolvedValue({ status: 200, data: {} });
+
+      const result = await withCorrelationId('req-42', () =>
+        coordinator.replicateWrite({ repo_id: 'user/repo', operation: 'push' })
+      );
+
+      expect(result.peerErrors).toEqual({ 'http://localhost:3002': 'timeout of 5000ms exceeded' });
+      mockedAxios.post.mock.calls.forEach(([, , config]) => {
+        expect(config?.headers).toEqual({ 'X-Correlation-Id': 'req-42' });
+      });
+      expect(logger.timeline(result.transactionId!).map(event => event.event)).toEqual([
+        'txn.prepare',
+        'txn.decision',
+        'txn.commit'
+      ]);
+    });
+  });
+
+  describe('membership changes', () => {
+    const selfUrl = 'http://localhost:3000';
+    const newUrl = 'http://localhost:3003';
+    let membership: ClusterMembership;
+    let clustered: ReplicationCoordinator;
+
+    beforeEach(() => {
+      membership = new ClusterMembership('./test-data-replication/.txlog/membership.json', { url: selfUrl }, peerUrls);
+      clustered = new ReplicationCoordinator(
+        serverId, peerUrls, null, null, new QuorumConfig(), new MetricsRegistry(), membership
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm('./test-data-replication', { recursive: true, force: true });
+    });
+
+    const addMember = () => clustered.replicateWrite({
+      repo_id: '.cluster',
+      operation: 'membership',
+      membership: membership.beginChange([...membership.get().members, { url: newUrl }])
+    });
+
+    it('should prepare on the old and the new members, this server included', async () => {
+      const failing = new Set([newUrl]);
+      mockedAxios.post.mockImplementation(async (url: string) => {
+        if (Array.from(failing).some(peerUrl => url.startsWith(peerUrl))) {
+          throw new Error('Connection refused');
+        }
+        return { status: 200, data: { status: 'prepared' } };
+      });
+
+      const result = await addMember();
+      expect(result.success).toBe(true);
+      expect(result.confirmedPeers).toEqual([selfUrl, ...peerUrls]);
+
+      // Two of four new members cannot commit it, though two of three old ones could
+      failing.add('http://localhost:3002');
+      const missed = await addMember();
+      expect(missed.success).toBe(false);
+      expect(missed.error).toBe('Quorum not reached. Required: 2 of 3 old and 3 of 4 new members, got 2 and 2');
+    });
+
+    it('should fence writes by epoch and refuse them while a change is prepared here', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { status: 'prepared' } });
+
+      await clustered.replicateWrite({ repo_id: 'user/repo', operation: 'push' });
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:3001/replicate/prepare',
+        expect.objectContaining({ membership_config: expect.objectContaining({ epoch: 0 }) }),
+        expect.any(Object)
+      );
+
+      membership.setPending('txn-membership');
+      const refused = await clustered.replicateWrite({ repo_id: 'user/repo', operation: 'push' });
+      expect(refused).toMatchObject({ success: false, error: 'Membership change in progress: txn-membership' });
+
+      membership.clearPending('txn-membership');
+      await membership.apply({ epoch: 1, members: peerUrls.map(url => ({ url })) });
+      const removed = await clustered.replicateWrite({ repo_id: 'user/repo', operation: 'push' });
+      expect(removed).toMatchObject({ success: false, error: 'Not a cluster member at membership epoch 1' });
     });
   });
 });
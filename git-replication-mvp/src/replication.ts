@@ -1,105 +1,548 @@
 import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
+import { TransactionLog } from './transaction-log';
+import { HintedHandoffQueue, Hint } from './hinted-handoff';
+import { PeerHealthMonitor, PeerHealth } from './peer-health';
+import { QuorumConfig, WriteOutcome, classifyWrite } from './quorum-policy';
+import { Counter, Histogram, MetricsRegistry } from './metrics';
+import { CORRELATION_HEADER, currentCorrelationId, logger } from './logger';
+import { RefUpdate } from './storage';
+import { AccessChange } from './access-store';
+import { RepoMetadata } from './repo-catalog';
+import { ClusterMembership, MembershipChange, jointQuorumShortfall, jointQuorumSize, votersOf } from './membership';
+
+// 'push' carries a packfile with its ref updates; 'update-ref' only moves
+// refs to objects every replica already has. 'delete' moves the repository
+// to the trash, 'restore' brings it back and 'rename' also transfers it to
+// another owner. 'update-repo' changes the description or default branch
+// and 'access' users, tokens or permissions. 'membership' changes the
+// cluster's member list.
+// A prepare's timeout grows with its packfile: sending it and indexing it
+// on the peer are budgeted at this many bytes per second
+const PREPARE_BYTES_PER_SECOND = 1024 * 1024;
+
+export type WriteOperation =
+  | 'create'
+  | 'push'
+  | 'update-ref'
+  | 'delete'
+  | 'rename'
+  | 'restore'
+  | 'update-repo'
+  | 'access'
+  | 'membership';
 
 export interface WriteData {
   repo_id: string;
-  ref: string;
-  commit: string;
+  ref?: string;
+  commit?: string;
+  operation?: WriteOperation;
+  // Compare-and-swap: each participant checks old_sha before voting
+  updates?: RefUpdate[];
+  force?: boolean; // Allow non-fast-forward 'update-ref'
+  target_repo_id?: string; // For 'rename'
+  trash_id?: string; // For 'restore': the delete's transaction id
+  access?: AccessChange; // For 'access'; a 'create' or 'rename' may carry one
+  metadata?: RepoMetadata; // For 'create' and 'update-repo'
+  membership?: MembershipChange; // For 'membership'
+  at?: string; // When the write was made, for the repository catalog
   [key: string]: any;
 }
 
 export interface ReplicationResult {
   success: boolean;
+  transactionId?: string;
+  outcome: WriteOutcome;
+  policy: string; // Name of the quorum policy applied
   peersConfirmed: number;
   peersRequired: number;
+  confirmedPeers: string[];
+  failedPeers: string[]; // Refused, timed out or skipped as unavailable
+  peersPending?: string[]; // Peers whose commit/abort is queued for retry
+  rejections?: Record<string, string>; // Peers that voted no, with their reason
+  oversized?: string[]; // Peers that refused the prepare as too large (HTTP 413)
+  peerErrors?: Record<string, string>; // Why each failed peer failed
   error?: string;
 }
 
+// How one peer answered one phase-1 or phase-2 message
+interface PeerCall {
+  ok: boolean;
+  duration_ms: number;
+  status?: number; // HTTP status of a refusal
+  error?: string;
+}
+
+// The coordinator's durable record of a transaction. 'pending' until the
+// commit/abort decision is made; the decision is logged before phase 2.
+export interface CoordinatorDecision {
+  transaction_id: string;
+  repo_id: string;
+  operation?: string;
+  participants: string[];
+  decision: 'pending' | 'commit' | 'abort';
+  timestamp: string;
+  correlation_id?: string;
+  // A committed write this node has yet to apply to its own copy, without
+  // its packfile; dropped by markApplied()
+  write?: WriteData;
+}
+
+export interface ReplicateOptions {
+  transactionId?: string; // Generated unless given, e.g. to match a staging id
+  // The caller applies the write to its own copy once it commits: the
+  // write is logged with the commit decision until markApplied(), so it
+  // can be redone after a crash (getOwedWrites())
+  local?: boolean;
+}
+
 export class ReplicationCoordinator {
   private serverId: string;
   private peerUrls: string[];
   private timeout: number = 5000; // 5 second timeout
+  private decisionLog: TransactionLog<CoordinatorDecision> | null;
+  private handoffQueue: HintedHandoffQueue;
+  private peerHealth: PeerHealthMonitor;
+  private quorumConfig: QuorumConfig;
+  private inFlight: number = 0;
+  // Set while the node is in maintenance; writes are refused
+  private maintenanceReason: string | null = null;
+  private membership: ClusterMembership | null;
+  private prepareDuration: Histogram;
+  private commitDuration: Histogram;
+  private quorumSuccesses: Counter;
+  private quorumFailures: Counter;
 
-  constructor(serverId: string, peerUrls: string[]) {
+  constructor(
+    serverId: string,
+    peerUrls: string[],
+    decisionLog: TransactionLog<CoordinatorDecision> | null = null,
+    handoffLog: TransactionLog<Hint> | null = null,
+    quorumConfig: QuorumConfig = new QuorumConfig(),
+    metrics: MetricsRegistry = new MetricsRegistry(),
+    membership: ClusterMembership | null = null
+  ) {
     this.serverId = serverId;
     this.peerUrls = peerUrls;
+    this.decisionLog = decisionLog;
+    this.quorumConfig = quorumConfig;
+    this.membership = membership;
+    this.prepareDuration = metrics.histogram(
+      'git_replication_prepare_duration_seconds',
+      'Time for a peer to answer a prepare, failures included'
+    );
+    this.commitDuration = metrics.histogram(
+      'git_replication_commit_duration_seconds',
+      'Time for a peer to acknowledge a commit, failures included'
+    );
+    this.quorumSuccesses = metrics.counter(
+      'git_replication_quorum_successes_total',
+      'Coordinated writes that reached quorum and committed'
+    );
+    this.quorumFailures = metrics.counter(
+      'git_replication_quorum_failures_total',
+      'Coordinated writes rejected for lack of quorum'
+    );
+    this.handoffQueue = new HintedHandoffQueue(handoffLog, (peerUrl, message, transactionId) => {
+      const correlationId = this.decisionLog?.get(transactionId)?.correlation_id;
+      return message === 'commit'
+        ? this.sendCommit(peerUrl, transactionId, correlationId)
+        : this.sendAbort(peerUrl, transactionId, correlationId);
+    });
+    this.peerHealth = new PeerHealthMonitor(peerUrls);
   }
 
-  getQuorumSize(): number {
-    // Total servers = self + peers
-    const totalServers = 1 + this.peerUrls.length;
+  // Replay the decision log and the hinted-handoff queue. A transaction
+  // still 'pending' was interrupted before a decision was made, so it is
+  // aborted (presumed abort).
+  async initialize(): Promise<void> {
+    await this.handoffQueue.initialize();
 
-    // Quorum calculation:
-    // For 2 servers: need 1 peer (self + 1 = quorum of 2)
-    // For 3+ servers: need majority, which is ceil(N/2) - 1 peers
-    // For 6 servers: need 2 peers (self + 2 = quorum of 3)
-    return totalServers === 2
-      ? 1
-      : Math.ceil(totalServers / 2) - 1;
+    if (!this.decisionLog) {
+      return;
+    }
+
+    const decisions = await this.decisionLog.load();
+    for (const record of decisions.values()) {
+      if (record.decision === 'pending') {
+        await this.recordDecision({ ...record, decision: 'abort' });
+      }
+    }
   }
 
-  async replicateWrite(writeData: WriteData): Promise<ReplicationResult> {
-    const transactionId = uuidv4();
-    const quorumSize = this.getQuorumSize();
+  // Start polling peer health and retrying undelivered commit/abort
+  // messages in the background
+  start(): void {
+    this.peerHealth.start();
+    this.handoffQueue.start();
+  }
 
-    // Phase 1: Prepare
-    const preparePromises = this.peerUrls.map(peerUrl =>
-      this.sendPrepare(peerUrl, transactionId, writeData)
-    );
+  stop(): void {
+    this.peerHealth.stop();
+    this.handoffQueue.stop();
+  }
+
+  getPeerHealth(): PeerHealth[] {
+    return this.peerHealth.getAll();
+  }
+
+  getPeerHealthMonitor(): PeerHealthMonitor {
+    return this.peerHealth;
+  }
+
+  // Undelivered commit/abort messages per peer
+  getHandoffDepths(): Record<string, number> {
+    return this.handoffQueue.getDepths(this.peerUrls);
+  }
+
+  getDecision(transactionId: string): CoordinatorDecision | undefined {
+    return this.decisionLog?.get(transactionId);
+  }
+
+  // Committed writes this node has not applied to its own copy yet
+  getOwedWrites(): CoordinatorDecision[] {
+    return (this.decisionLog?.values() || []).filter(record => record.decision === 'commit' && record.write);
+  }
+
+  owes(transactionId: string): boolean {
+    return this.decisionLog?.get(transactionId)?.write !== undefined;
+  }
+
+  // The caller has applied a committed write to its own copy
+  async markApplied(transactionId: string): Promise<void> {
+    const record = this.decisionLog?.get(transactionId);
+    if (record?.write) {
+      const { write, ...applied } = record;
+      await this.recordDecision(applied);
+    }
+  }
+
+  // Forget decisions made before the cutoff that every participant has
+  // acknowledged (no message queued for them) and this node has applied.
+  // Until then an in-doubt participant asking for the outcome must get it:
+  // a forgotten one is answered 'unknown', which it takes as abort.
+  async collectDecided(before: Date): Promise<string[]> {
+    const collected: string[] = [];
+    for (const record of this.decisionLog?.values() || []) {
+      if (
+        record.decision === 'pending' ||
+        record.write ||
+        this.handoffQueue.getPendingPeers(record.transaction_id).length > 0 ||
+        !(Date.parse(record.timestamp) < before.getTime())
+      ) {
+        continue;
+      }
+      await this.decisionLog!.remove(record.transaction_id);
+      collected.push(record.transaction_id);
+    }
+    return collected;
+  }
+
+  // Peer confirmations a write to the repo needs under its quorum policy
+  getQuorumSize(repoId?: string): number {
+    return this.quorumConfig.policyFor(repoId).requiredPeers(this.peerUrls.length);
+  }
+
+  getQuorumConfig(): QuorumConfig {
+    return this.quorumConfig;
+  }
+
+  // Enter (reason set) or leave (null) maintenance
+  setMaintenance(reason: string | null): void {
+    this.maintenanceReason = reason;
+  }
+
+  // Follow a membership change
+  setPeers(peerUrls: string[]): void {
+    this.peerUrls = peerUrls;
+    this.peerHealth.setPeers(peerUrls);
+  }
+
+  // Writes this server is coordinating right now
+  getInFlightCount(): number {
+    return this.inFlight;
+  }
+
+  async replicateWrite(writeData: WriteData, options: ReplicateOptions = {}): Promise<ReplicationResult> {
+    this.inFlight++;
+    try {
+      const result = await this.coordinate(writeData, options);
+      const labels = { operation: writeData.operation || 'unknown' };
+      (result.success ? this.quorumSuccesses : this.quorumFailures).inc(labels);
+      return result;
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  private async coordinate(writeData: WriteData, options: ReplicateOptions): Promise<ReplicationResult> {
+    const transactionId = options.transactionId || uuidv4();
+    const started = Date.now();
+    const policy = this.quorumConfig.policyFor(writeData.repo_id);
+    // A membership change is voted on by the old and the new members, this
+    // server included, and needs a majority of each
+    const change = writeData.operation === 'membership' ? writeData.membership : undefined;
+    const voters = change ? votersOf(change) : this.peerUrls;
+    const quorumSize = change ? jointQuorumSize(change) : policy.requiredPeers(this.peerUrls.length);
+    const missedQuorum = (peers: string[], counted: 'Available' | 'Got'): string | null => {
+      if (change) {
+        const shortfall = jointQuorumShortfall(change, peers);
+        return shortfall && `Required: ${shortfall}`;
+      }
+      return peers.length < quorumSize ? `Required: ${quorumSize}, ${counted}: ${peers.length}` : null;
+    };
+    // Writes made outside a request (e.g. by a background task) are traced
+    // by their transaction id
+    const correlationId = currentCorrelationId() || transactionId;
+    const fields = {
+      transaction_id: transactionId,
+      correlation_id: correlationId,
+      role: 'coordinator',
+      repo_id: writeData.repo_id,
+      operation: writeData.operation
+    };
+    const peerErrors: Record<string, string> = {};
+    const result = (confirmedPeers: string[]) => ({
+      transactionId,
+      outcome: classifyWrite(confirmedPeers.length, voters.length, quorumSize),
+      policy: change ? 'joint-majority' : policy.name,
+      peersConfirmed: confirmedPeers.length,
+      peersRequired: quorumSize,
+      confirmedPeers,
+      failedPeers: voters.filter(peerUrl => !confirmedPeers.includes(peerUrl)),
+      peerErrors
+    });
 
-    const prepareResults = await Promise.allSettled(preparePromises);
-    const successfulPrepares = prepareResults.filter(
-      result => result.status === 'fulfilled'
+    if (this.maintenanceReason) {
+      const error = `Server in maintenance: ${this.maintenanceReason}`;
+      logger.warn('txn.rejected', error, fields);
+      return {
+        ...result([]),
+        success: false,
+        outcome: 'rejected',
+        error
+      };
+    }
+
+    // A removed server must not coordinate, and this server's own vote
+    // counts toward every write it coordinates, so none may start while it
+    // has a membership change prepared
+    const membershipError = this.membership && !change && (
+      !this.membership.isMember()
+        ? `Not a cluster member at membership epoch ${this.membership.getEpoch()}`
+        : this.membership.getPending() && `Membership change in progress: ${this.membership.getPending()}`
     );
+    if (membershipError) {
+      logger.warn('txn.rejected', membershipError, fields);
+      return {
+        ...result([]),
+        success: false,
+        outcome: 'rejected',
+        error: membershipError
+      };
+    }
+
+    // Peers known to be down or catching up would only make us wait for
+    // a timeout or a refusal
+    const participants = voters.filter(peerUrl => this.peerHealth.isAvailable(peerUrl));
+    voters.filter(peerUrl => !participants.includes(peerUrl)).forEach(peerUrl => {
+      peerErrors[peerUrl] = `skipped: peer is ${this.peerHealth.getStatus(peerUrl)}`;
+    });
+    const unreachable = missedQuorum(participants, 'Available');
+    if (unreachable) {
+      const error = `Quorum not reachable. ${unreachable}`;
+      logger.warn('txn.rejected', error, { ...fields, peer_errors: peerErrors });
+      return {
+        ...result([]),
+        success: false,
+        outcome: 'rejected',
+        error
+      };
+    }
+
+    const record: CoordinatorDecision = {
+      transaction_id: transactionId,
+      repo_id: writeData.repo_id,
+      operation: writeData.operation,
+      participants,
+      decision: 'pending',
+      timestamp: new Date().toISOString(),
+      correlation_id: correlationId
+    };
+
+    await this.recordDecision(record);
+
+    // Phase 1: Prepare
+    const prepareStarted = Date.now();
+    const prepareCalls = await Promise.all(participants.map(peerUrl =>
+      this.callPeer(peerUrl, this.prepareDuration, () =>
+        this.sendPrepare(peerUrl, transactionId, writeData, correlationId)
+      )
+    ));
+    const preparedPeers = participants.filter((_, index) => prepareCalls[index].ok);
+    participants.forEach((peerUrl, index) => {
+      if (!prepareCalls[index].ok) {
+        peerErrors[peerUrl] = prepareCalls[index].error!;
+      }
+    });
+    logger.info('txn.prepare', `${preparedPeers.length} of ${participants.length} peer(s) prepared`, {
+      ...fields,
+      duration_ms: Date.now() - prepareStarted,
+      prepared: preparedPeers.length,
+      required: quorumSize,
+      peers: Object.fromEntries(participants.map((peerUrl, index) => [peerUrl, prepareCalls[index]]))
+    });
 
     // Check if we have quorum
-    if (successfulPrepares.length < quorumSize) {
+    const missed = missedQuorum(preparedPeers, 'Got');
+    if (missed) {
+      await this.recordDecision({ ...record, decision: 'abort' });
+      // Over a peer's request body limit: retrying will not help, so this
+      // is reported as such rather than as peers being unavailable
+      const oversized = participants.filter((_, index) => prepareCalls[index].status === 413);
+      const error = oversized.length > 0
+        ? `Write too large for ${oversized.length} peer(s) (HTTP 413). ${missed}`
+        : `Quorum not reached. ${missed}`;
+      logger.warn('txn.decision', `Abort: ${error}`, {
+        ...fields,
+        decision: 'abort',
+        duration_ms: Date.now() - started
+      });
+
+      // Abort on every participant, not just the ones that answered: a
+      // prepare that timed out may still have been staged on the peer.
+      const peersPending = await this.deliverDecision(transactionId, 'abort', participants, correlationId);
+
+      // A 409 is a vote against the write (e.g. a ref moved), as opposed
+      // to a peer that could not be reached
+      const rejections: Record<string, string> = {};
+      participants.forEach((peerUrl, index) => {
+        if (prepareCalls[index].status === 409) {
+          rejections[peerUrl] = prepareCalls[index].error!;
+        }
+      });
+
       return {
+        ...result(preparedPeers),
         success: false,
-        peersConfirmed: successfulPrepares.length,
-        peersRequired: quorumSize,
-        error: `Quorum not reached. Required: ${quorumSize}, Got: ${successfulPrepares.length}`
+        outcome: 'rejected',
+        peersPending,
+        rejections,
+        ...(oversized.length > 0 && { oversized }),
+        error
       };
     }
 
     // Phase 2: Commit
-    // Only commit to peers that prepared successfully
-    const peersToCommit = this.peerUrls.filter((_, index) =>
-      prepareResults[index].status === 'fulfilled'
-    );
+    // The logged decision is the commit point; from here on the write
+    // stands, so the local copy this node owes is logged with it
+    const { pack, ...write } = writeData;
+    await this.recordDecision({ ...record, decision: 'commit', ...(options.local && { write }) });
+    logger.info('txn.decision', 'Commit', { ...fields, decision: 'commit', duration_ms: Date.now() - started });
 
-    const commitPromises = peersToCommit.map(peerUrl =>
-      this.sendCommit(peerUrl, transactionId)
-    );
-
-    await Promise.allSettled(commitPromises);
+    // Only commit to peers that prepared successfully
+    const peersPending = await this.deliverDecision(transactionId, 'commit', preparedPeers, correlationId);
 
     return {
+      ...result(preparedPeers),
       success: true,
-      peersConfirmed: successfulPrepares.length,
-      peersRequired: quorumSize
+      peersPending
     };
   }
 
+  // Send the phase-2 message to each peer; queue it for peers that did not
+  // acknowledge and return them.
+  private async deliverDecision(
+    transactionId: string,
+    message: 'commit' | 'abort',
+    peerUrls: string[],
+    correlationId: string
+  ): Promise<string[]> {
+    const started = Date.now();
+    const calls = await Promise.all(
+      peerUrls.map(peerUrl =>
+        message === 'commit'
+          ? this.callPeer(peerUrl, this.commitDuration, () => this.sendCommit(peerUrl, transactionId, correlationId))
+          : this.callPeer(peerUrl, null, () => this.sendAbort(peerUrl, transactionId, correlationId))
+      )
+    );
+
+    const failedPeers = peerUrls.filter((_, index) => !calls[index].ok);
+    await this.handoffQueue.enqueue(transactionId, message, failedPeers);
+    logger.info(`txn.${message}`, `${message} acknowledged by ${peerUrls.length - failedPeers.length} of ${peerUrls.length} peer(s)`, {
+      transaction_id: transactionId,
+      correlation_id: correlationId,
+      role: 'coordinator',
+      duration_ms: Date.now() - started,
+      queued: failedPeers,
+      peers: Object.fromEntries(peerUrls.map((peerUrl, index) => [peerUrl, calls[index]]))
+    });
+    return failedPeers;
+  }
+
+  // Time one message to a peer; never throws
+  private async callPeer(
+    peerUrl: string,
+    histogram: Histogram | null,
+    send: () => Promise<void>
+  ): Promise<PeerCall> {
+    const started = Date.now();
+    const done = histogram?.startTimer({ peer: peerUrl });
+    try {
+      await send();
+      return { ok: true, duration_ms: Date.now() - started };
+    } catch (error: any) {
+      const status = error.response?.status;
+      return {
+        ok: false,
+        duration_ms: Date.now() - started,
+        status,
+        // A refusal explains itself; otherwise the network error (timeout,
+        // connection refused)
+        error: status
+          ? error.response.data?.details || error.response.data?.error || `HTTP ${status}`
+          : error.message
+      };
+    } finally {
+      done?.();
+    }
+  }
+
+  private async recordDecision(record: CoordinatorDecision): Promise<void> {
+    if (this.decisionLog) {
+      await this.decisionLog.append(record);
+    }
+  }
+
   private async sendPrepare(
     peerUrl: string,
     transactionId: string,
-    writeData: WriteData
+    writeData: WriteData,
+    correlationId: string
   ): Promise<void> {
     await axios.post(
       `${peerUrl}/replicate/prepare`,
       {
         transaction_id: transactionId,
         coordinator_id: this.serverId,
+        // Participants vote only at this server's membership epoch
+        ...(this.membership && { membership_config: this.membership.get() }),
         ...writeData
       },
-      { timeout: this.timeout }
+      // Push prepares carry the packfile, which may be large
+      {
+        timeout: this.timeout + Math.ceil((writeData.pack?.length || 0) * 1000 / PREPARE_BYTES_PER_SECOND),
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+        headers: { [CORRELATION_HEADER]: correlationId }
+      }
     );
   }
 
   private async sendCommit(
     peerUrl: string,
-    transactionId: string
+    transactionId: string,
+    correlationId: string = transactionId
   ): Promise<void> {
     await axios.post(
       `${peerUrl}/replicate/commit`,
@@ -107,7 +550,22 @@ export class ReplicationCoordinator {
         transaction_id: transactionId,
         coordinator_id: this.serverId
       },
-      { timeout: this.timeout }
+      { timeout: this.timeout, headers: { [CORRELATION_HEADER]: correlationId } }
+    );
+  }
+
+  private async sendAbort(
+    peerUrl: string,
+    transactionId: string,
+    correlationId: string = transactionId
+  ): Promise<void> {
+    await axios.post(
+      `${peerUrl}/replicate/abort`,
+      {
+        transaction_id: transactionId,
+        coordinator_id: this.serverId
+      },
+      { timeout: this.timeout, headers: { [CORRELATION_HEADER]: correlationId } }
     );
   }
 }
@@ -0,0 +1,108 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { runGit } from './git-command';
+import { RepoStorage } from './storage';
+import { stopServer, waitForServer } from './test-helpers';
+
+const gitIdentity = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com'];
+
+describe('Repository browsing', () => {
+  const serverUrl = 'http://localhost:3000';
+  const testDataDir = './test-data-repo-browser';
+  const workDir = './test-data-repo-browser-work';
+  const repoUrl = `${serverUrl}/repos/alice/project`;
+  let first: string;
+  let second: string;
+
+  const commit = async (source: string, file: string, contents: string, message: string) => {
+    await fs.mkdir(path.dirname(path.join(source, file)), { recursive: true });
+    await fs.writeFile(path.join(source, file), contents);
+    await runGit([...gitIdentity, '-C', source, 'add', file]);
+    await runGit([...gitIdentity, '-C', source, 'commit', '-q', '-m', message]);
+    return (await runGit(['-C', source, 'rev-parse', 'HEAD'])).toString().trim();
+  };
+
+  beforeAll(async () => {
+    process.env.DATA_DIR = testDataDir;
+    require('./server');
+    await waitForServer(1000);
+
+    // main: README.md, then docs/guide.md; v1 is an annotated tag of the
+    // first commit and `old` a branch at it
+    const storage = new RepoStorage(testDataDir);
+    await storage.createRepo('alice/project');
+
+    const source = path.join(workDir, 'source');
+    await runGit(['init', '-q', '-b', 'main', source]);
+    first = await commit(source, 'README.md', 'hello\n', 'Initial commit');
+    await runGit([...gitIdentity, '-C', source, 'tag', '-a', 'v1', '-m', 'Version 1']);
+    await runGit(['-C', source, 'branch', 'old']);
+    second = await commit(source, 'docs/guide.md', '# Guide\n', 'Add guide');
+    await runGit(['-C', source, 'push', '-q', path.resolve(storage.getRepoPath('alice/project')), 'main', 'old', 'v1']);
+  });
+
+  afterAll(async () => {
+    await stopServer();
+    delete process.env.DATA_DIR;
+    await fs.rm(testDataDir, { recursive: true, force: true });
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should list branches and tags', async () => {
+    expect((await axios.get(`${repoUrl}/branches`)).data).toEqual({
+      repo_id: 'alice/project',
+      default_branch: 'main',
+      branches: [{ name: 'main', sha: second }, { name: 'old', sha: first }],
+      count: 2
+    });
+
+    const { tags } = (await axios.get(`${repoUrl}/tags`)).data;
+    expect(tags).toEqual([{ name: 'v1', sha: expect.stringMatching(/^[0-9a-f]{40}$/) }]);
+  });
+
+  it('should page through the history of a ref', async () => {
+    const page = async (query: string) => (await axios.get(`${repoUrl}/commits?${query}`)).data;
+
+    expect(await page('per_page=1')).toMatchObject({
+      ref: 'main',
+      sha: second,
+      commits: [{ sha: second, message: 'Add guide\n', parents: [first], author: { name: 'Test' } }],
+      has_more: true
+    });
+    expect(await page('per_page=1&page=2')).toMatchObject({ commits: [{ sha: first }], has_more: false });
+    // The annotated tag is peeled to its commit
+    expect(await page('ref=v1')).toMatchObject({ sha: first, count: 1 });
+  });
+
+  it('should list a tree and return raw file contents', async () => {
+    const root = (await axios.get(`${repoUrl}/tree`)).data;
+    expect(root.entries.map((entry: any) => [entry.path, entry.type])).toEqual([
+      ['README.md', 'blob'],
+      ['docs', 'tree']
+    ]);
+    expect((await axios.get(`${repoUrl}/tree/docs`)).data.entries).toEqual([
+      expect.objectContaining({ name: 'guide.md', path: 'docs/guide.md', type: 'blob' })
+    ]);
+
+    const raw = await axios.get(`${repoUrl}/raw/docs/guide.md`, { responseType: 'text' });
+    expect(raw.headers['content-type']).toBe('application/octet-stream');
+    expect(raw.data).toBe('# Guide\n');
+    expect((await axios.get(`${repoUrl}/raw/README.md?ref=${first}`, { responseType: 'text' })).data).toBe('hello\n');
+  });
+
+  it('should answer 404 for unknown refs and paths', async () => {
+    await expect(axios.get(`${repoUrl}/commits?ref=missing`)).rejects.toMatchObject({
+      response: { status: 404, data: { error: 'Ref not found: missing' } }
+    });
+    await expect(axios.get(`${repoUrl}/tree/docs?ref=old`)).rejects.toMatchObject({
+      response: { status: 404, data: { error: 'Path not found: docs' } }
+    });
+    await expect(axios.get(`${repoUrl}/raw/docs`)).rejects.toMatchObject({
+      response: { status: 404, data: { error: 'Not a file: docs' } }
+    });
+    await expect(axios.get(`${repoUrl}/tree?ref=../../config`)).rejects.toMatchObject({
+      response: { status: 400 }
+    });
+  });
+});
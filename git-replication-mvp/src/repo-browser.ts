@@ -0,0 +1,249 @@
+import fs from 'fs/promises';
+import { Request, Response } from 'express';
+import git, { ReadCommitResult } from 'isomorphic-git';
+import { RepoStorage } from './storage';
+import { isValidBranchName } from './repo-catalog';
+
+// Most commits one page of GET /repos/:user/:repo/commits returns
+const MAX_PER_PAGE = 100;
+
+// Tree entry modes git writes, by what they point to
+const ENTRY_TYPES: Record<string, string> = {
+  '040000': 'tree',
+  '100644': 'blob',
+  '100755': 'blob',
+  '120000': 'blob', // Symbolic link
+  '160000': 'commit' // Submodule
+};
+
+// A lookup that should be answered with 404 rather than 500
+class BrowseError extends Error {}
+
+/**
+ * Read-only REST views of a repository's branches, tags, history and
+ * files, read with isomorphic-git straight from the bare repository, so
+ * tooling does not have to clone. Every view takes `?ref=` (a branch, tag,
+ * full ref name or commit sha) and defaults to the repository's default
+ * branch.
+ */
+export class RepoBrowser {
+  private storage: RepoStorage;
+
+  constructor(storage: RepoStorage) {
+    this.storage = storage;
+  }
+
+  // GET /repos/:user/:repo/branches
+  async handleListBranches(req: Request, res: Response): Promise<void> {
+    await this.browse(req, res, async (repo_id, gitdir) => {
+      const names = await git.listBranches({ fs, gitdir });
+      const branches = await Promise.all(names.sort().map(async name => ({
+        name,
+        sha: await git.resolveRef({ fs, gitdir, ref: `refs/heads/${name}` })
+      })));
+
+      res.status(200).json({
+        repo_id,
+        default_branch: await this.storage.getDefaultBranch(repo_id),
+        branches,
+        count: branches.length
+      });
+    });
+  }
+
+  // GET /repos/:user/:repo/tags - `sha` is the tag's target, an annotated
+  // tag object or a commit
+  async handleListTags(req: Request, res: Response): Promise<void> {
+    await this.browse(req, res, async (repo_id, gitdir) => {
+      const names = await git.listTags({ fs, gitdir });
+      const tags = await Promise.all(names.sort().map(async name => ({
+        name,
+        sha: await git.resolveRef({ fs, gitdir, ref: `refs/tags/${name}` })
+      })));
+
+      res.status(200).json({
+        repo_id,
+        tags,
+        count: tags.length
+      });
+    });
+  }
+
+  // GET /repos/:user/:repo/commits?ref=&page=&per_page= - newest first
+  async handleListCommits(req: Request, res: Response): Promise<void> {
+    const page = Number(req.query.page ?? 1);
+    const perPage = Number(req.query.per_page ?? 30);
+
+    const invalid = [
+      !(Number.isInteger(page) && page >= 1) && 'page must be a positive integer',
+      !(Number.isInteger(perPage) && perPage >= 1 && perPage <= MAX_PER_PAGE) &&
+        `per_page must be between 1 and ${MAX_PER_PAGE}`
+    ].filter(Boolean);
+    if (invalid.length > 0) {
+      res.status(400).json({ error: 'Invalid query', details: invalid.join('; ') });
+      return;
+    }
+
+    await this.browse(req, res, async (repo_id, gitdir, ref) => {
+      const sha = await this.resolveCommit(gitdir, ref);
+      // One extra commit tells whether there is another page
+      const log = await git.log({ fs, gitdir, ref: sha, depth: page * perPage + 1, cache: {} });
+      const commits = log.slice((page - 1) * perPage, page * perPage).map(describeCommit);
+
+      res.status(200).json({
+        repo_id,
+        ref,
+        sha,
+        commits,
+        count: commits.length,
+        page,
+        per_page: perPage,
+        has_more: log.length > page * perPage
+      });
+    });
+  }
+
+  // GET /repos/:user/:repo/tree/:path?ref= - the entries of a directory
+  async handleGetTree(req: Request, res: Response): Promise<void> {
+    const filepath = this.filepathOf(req);
+
+    await this.browse(req, res, async (repo_id, gitdir, ref) => {
+      const sha = await this.resolveCommit(gitdir, ref);
+      const { oid, tree } = await git.readTree({ fs, gitdir, oid: sha, filepath: filepath || undefined })
+        .catch(error => {
+          throw pathError(error, filepath, 'directory');
+        });
+      const entries = tree.map(entry => ({
+        name: entry.path,
+        path: filepath ? `${filepath}/${entry.path}` : entry.path,
+        type: ENTRY_TYPES[entry.mode] || entry.type,
+        mode: entry.mode,
+        sha: entry.oid
+      }));
+
+      res.status(200).json({
+        repo_id,
+        ref,
+        sha,
+        path: filepath,
+        tree_sha: oid,
+        entries,
+        count: entries.length
+      });
+    });
+  }
+
+  // GET /repos/:user/:repo/raw/:path?ref= - a file's content as stored
+  async handleGetBlob(req: Request, res: Response): Promise<void> {
+    const filepath = this.filepathOf(req);
+
+    await this.browse(req, res, async (repo_id, gitdir, ref) => {
+      if (!filepath) {
+        throw new BrowseError('Not a file: /');
+      }
+      const sha = await this.resolveCommit(gitdir, ref);
+      const { oid, blob } = await git.readBlob({ fs, gitdir, oid: sha, filepath })
+        .catch(error => {
+          throw pathError(error, filepath, 'file');
+        });
+
+      res.status(200)
+        .type('application/octet-stream')
+        .set('ETag', `"${oid}"`)
+        .send(Buffer.from(blob));
+    });
+  }
+
+  // Check the repository and ref, then run the view; a BrowseError it
+  // throws is answered with 404
+  private async browse(
+    req: Request,
+    res: Response,
+    view: (repoId: string, gitdir: string, ref: string) => Promise<void>
+  ): Promise<void> {
+    const repo_id = `${req.params.user}/${req.params.repo}`;
+    const ref = req.query.ref;
+
+    if (ref !== undefined && !isValidRef(ref)) {
+      res.status(400).json({ error: 'Invalid ref', details: `Not a ref name or commit sha: ${ref}` });
+      return;
+    }
+
+    try {
+      if (!RepoStorage.isValidRepoId(repo_id) || !(await this.storage.repoExists(repo_id))) {
+        res.status(404).json({ error: `Repository not found: ${repo_id}` });
+        return;
+      }
+      await view(
+        repo_id,
+        this.storage.getRepoPath(repo_id),
+        ref ?? (await this.storage.getDefaultBranch(repo_id))
+      );
+    } catch (error: any) {
+      if (error instanceof BrowseError) {
+        res.status(404).json({ error: error.message });
+      } else {
+        res.status(500).json({
+          error: 'Failed to read repository',
+          details: error.message
+        });
+      }
+    }
+  }
+
+  // The commit a ref points to, peeling annotated tags
+  private async resolveCommit(gitdir: string, ref: string): Promise<string> {
+    let target: string;
+    try {
+      target = await git.resolveRef({ fs, gitdir, ref });
+    } catch (error: any) {
+      throw error.code === 'NotFoundError' ? new BrowseError(`Ref not found: ${ref}`) : error;
+    }
+    try {
+      return (await git.readCommit({ fs, gitdir, oid: target })).oid;
+    } catch (error: any) {
+      if (error.code === 'NotFoundError' || error.code === 'ObjectTypeError') {
+        throw new BrowseError(`Ref not found: ${ref}`);
+      }
+      throw error;
+    }
+  }
+
+  // The path after /tree/ or /raw/, without surrounding slashes
+  private filepathOf(req: Request): string {
+    return (req.params[0] || '').replace(/^\/+|\/+$/g, '');
+  }
+}
+
+// A full commit sha or a ref name; ref names are looked up as files under
+// the repository, so anything git would not accept is refused
+function isValidRef(ref: unknown): ref is string {
+  return typeof ref === 'string' && (/^[0-9a-f]{40}$/.test(ref) || isValidBranchName(ref));
+}
+
+// What to answer for a path that could not be read as a `kind`
+function pathError(error: any, filepath: string, kind: 'file' | 'directory'): Error {
+  if (error.code === 'ObjectTypeError') {
+    return new BrowseError(`Not a ${kind}: ${filepath}`);
+  }
+  if (error.code === 'NotFoundError' || error.code === 'InvalidFilepathError') {
+    return new BrowseError(`Path not found: ${filepath}`);
+  }
+  return error;
+}
+
+function describeCommit({ oid, commit }: ReadCommitResult) {
+  const person = ({ name, email, timestamp }: { name: string; email: string; timestamp: number }) => ({
+    name,
+    email,
+    date: new Date(timestamp * 1000).toISOString()
+  });
+
+  return {
+    sha: oid,
+    message: commit.message,
+    author: person(commit.author),
+    committer: person(commit.committer),
+    parents: commit.parent
+  };
+}
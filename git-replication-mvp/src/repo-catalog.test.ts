@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { RepoCatalog, isValidBranchName } from './repo-catalog';
+import { RepoStorage } from './storage';
+
+describe('RepoCatalog', () => {
+  const testDataDir = './test-data-repo-catalog';
+  const filePath = path.join(testDataDir, '.txlog', 'catalog.json');
+  let storage: RepoStorage;
+  let catalog: RepoCatalog;
+
+  const create = async (repoId: string, at: string, description = '') => {
+    await storage.createRepo(repoId);
+    await catalog.recordWrite({ transaction_id: `create-${repoId}`, repo_id: repoId, operation: 'create', metadata: { description }, at });
+  };
+
+  beforeEach(async () => {
+    storage = new RepoStorage(testDataDir);
+    await storage.initialize();
+    catalog = new RepoCatalog(filePath, storage);
+    await catalog.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should record a created repository with the coordinator time', async () => {
+    await create('alice/project', '2024-01-01T00:00:00.000Z', 'A project');
+
+    expect(catalog.get('alice/project')).toEqual({
+      repo_id: 'alice/project',
+      owner: 'alice',
+      name: 'project',
+      description: 'A project',
+      default_branch: 'main',
+      created_at: '2024-01-01T00:00:00.000Z',
+      pushed_at: null,
+      size_bytes: expect.any(Number),
+      updated_at: '2024-01-01T00:00:00.000Z'
+    });
+  });
+
+  it('should filter, sort and page the listing', async () => {
+    await create('alice/b', '2024-01-01T00:00:02.000Z');
+    await create('alice/a', '2024-01-01T00:00:03.000Z');
+    await create('bob/c', '2024-01-01T00:00:01.000Z');
+    const ids = (result: { entries: { repo_id: string }[] }) => result.entries.map(entry => entry.repo_id);
+
+    expect(ids(catalog.list())).toEqual(['alice/a', 'alice/b', 'bob/c']);
+    expect(ids(catalog.list({ owner: 'alice' }))).toEqual(['alice/a', 'alice/b']);
+    expect(ids(catalog.list({ prefix: 'alice/b' }))).toEqual(['alice/b']);
+    expect(ids(catalog.list({ sort: 'created' }))).toEqual(['alice/a', 'alice/b', 'bob/c']);
+    expect(ids(catalog.list({ sort: 'created', direction: 'asc' }))).toEqual(['bob/c', 'alice/b', 'alice/a']);
+    expect(catalog.list({ page: 2, perPage: 2 })).toEqual({ entries: [expect.objectContaining({ repo_id: 'bob/c' })], total: 3 });
+  });
+
+  it('should follow pushes, renames, deletes and restores', async () => {
+    await create('alice/project', '2024-01-01T00:00:00.000Z', 'A project');
+    const write = { transaction_id: 'txn', repo_id: 'alice/project' };
+
+    await catalog.recordWrite({ ...write, operation: 'push', at: '2024-01-01T00:00:02.000Z' });
+    // An older push arriving late does not move pushed_at back
+    await catalog.recordWrite({ ...write, operation: 'push', at: '2024-01-01T00:00:01.000Z' });
+    expect(catalog.get('alice/project')?.pushed_at).toBe('2024-01-01T00:00:02.000Z');
+
+    await storage.moveRepo('alice/project', 'bob/project');
+    await catalog.recordWrite({ ...write, operation: 'rename', target_repo_id: 'bob/project' });
+    expect(catalog.get('alice/project')).toBeUndefined();
+    expect(catalog.get('bob/project')).toMatchObject({ owner: 'bob', name: 'project', description: 'A project' });
+
+    await storage.trashRepo('bob/project', 'txn-delete');
+    await catalog.recordWrite({ transaction_id: 'txn-delete', repo_id: 'bob/project', operation: 'delete' });
+    expect(catalog.list().total).toBe(0);
+
+    await storage.restoreRepo('txn-delete');
+    await catalog.recordWrite({ transaction_id: 'txn-restore', repo_id: 'bob/project', operation: 'restore', trash_id: 'txn-delete' });
+    expect(catalog.get('bob/project')).toMatchObject({ description: 'A project', pushed_at: '2024-01-01T00:00:02.000Z' });
+  });
+
+  it('should keep the latest metadata update', async () => {
+    await create('alice/project', '2024-01-01T00:00:00.000Z');
+    const update = (description: string, at: string) => catalog.recordWrite({
+      transaction_id: `update-${at}`, repo_id: 'alice/project', operation: 'update-repo', metadata: { description }, at
+    });
+
+    await update('newer', '2024-01-01T00:00:02.000Z');
+    await update('older', '2024-01-01T00:00:01.000Z');
+
+    expect(catalog.get('alice/project')?.description).toBe('newer');
+  });
+
+  it('should reconcile with the disk and persist', async () => {
+    await create('alice/gone', '2024-01-01T00:00:00.000Z');
+    await fs.rm(storage.getRepoPath('alice/gone'), { recursive: true });
+    await storage.createRepo('bob/untracked', 'trunk');
+
+    await catalog.reconcile();
+    const reloaded = new RepoCatalog(filePath, storage);
+    await reloaded.initialize();
+
+    expect(reloaded.list().entries).toEqual([
+      expect.objectContaining({ repo_id: 'bob/untracked', default_branch: 'trunk', pushed_at: null })
+    ]);
+  });
+
+  it('should only accept branch names git accepts', () => {
+    expect(['main', 'release/1.0', 'feature-x'].every(isValidBranchName)).toBe(true);
+    expect(['', '-x', 'a..b', 'a/', 'x.lock', 'a//b', 'a b', '.hidden'].some(isValidBranchName)).toBe(false);
+  });
+});
@@ -0,0 +1,291 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { RepoStorage } from './storage';
+
+// Fields of a repository its admins can change
+export interface RepoMetadata {
+  description?: string;
+  default_branch?: string;
+}
+
+export interface CatalogEntry {
+  repo_id: string;
+  owner: string;
+  name: string;
+  description: string;
+  default_branch: string;
+  created_at: string;
+  pushed_at: string | null;
+  size_bytes: number; // On this server's disk
+  updated_at: string; // Of the description and default branch
+}
+
+// A committed write, as the catalog needs it. `at` is the coordinator's
+// clock when the write was made.
+export interface CatalogWrite {
+  transaction_id: string;
+  repo_id: string;
+  operation: string;
+  target_repo_id?: string;
+  trash_id?: string;
+  metadata?: RepoMetadata;
+  at?: string;
+}
+
+export type CatalogSort = 'name' | 'created' | 'pushed' | 'size';
+
+export interface CatalogQuery {
+  owner?: string;
+  prefix?: string;
+  include?: (entry: CatalogEntry) => boolean;
+  sort?: CatalogSort;
+  direction?: 'asc' | 'desc';
+  page?: number; // From 1
+  perPage?: number;
+}
+
+const SORT_KEYS: Record<CatalogSort, (entry: CatalogEntry) => string | number> = {
+  name: entry => entry.repo_id,
+  created: entry => entry.created_at,
+  pushed: entry => entry.pushed_at || '',
+  size: entry => entry.size_bytes
+};
+
+export const CATALOG_SORTS = Object.keys(SORT_KEYS) as CatalogSort[];
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// A branch name git accepts (see git-check-ref-format), without the refs/heads/ prefix
+export function isValidBranchName(name: unknown): name is string {
+  return typeof name === 'string' &&
+    /^[\w./-]+$/.test(name) &&
+    !/^[-/.]|\/\.|\.\.|\/\/|\.lock(\/|$)|[/.]$/.test(name);
+}
+
+// Why the metadata cannot be set, or undefined if it can
+export function checkMetadata(metadata: RepoMetadata): string | undefined {
+  const { description, default_branch } = metadata;
+  if (description !== undefined &&
+    (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (default_branch !== undefined && !isValidBranchName(default_branch)) {
+    return `Invalid default_branch: ${default_branch}`;
+  }
+  return undefined;
+}
+
+interface CatalogState {
+  repos: Record<string, CatalogEntry>;
+  // Entries of deleted repositories by trash id, for a restore
+  trash: Record<string, CatalogEntry>;
+}
+
+/**
+ * Index of every repository on this server with its metadata, so listings
+ * do not walk the data directory. It follows the committed writes (2PC,
+ * catch-up and bootstrap all record them here) and is kept in one JSON
+ * file. reconcile() picks up repositories that appeared on disk any other
+ * way, e.g. an anti-entropy repair.
+ */
+export class RepoCatalog {
+  private filePath: string;
+  private storage: RepoStorage;
+  private state: CatalogState = { repos: {}, trash: {} };
+  private saving: Promise<void> = Promise.resolve();
+  // A save that has not started yet; it writes the state as of its start,
+  // so later changes can share it
+  private queued: Promise<void> | null = null;
+
+  constructor(filePath: string, storage: RepoStorage) {
+    this.filePath = filePath;
+    this.storage = storage;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      this.state = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  // Match the catalog to the repositories on disk (one directory scan)
+  async reconcile(): Promise<void> {
+    const onDisk = new Set(await this.storage.listRepos());
+
+    for (const repoId of Object.keys(this.state.repos)) {
+      if (!onDisk.has(repoId)) {
+        delete this.state.repos[repoId];
+      }
+    }
+    for (const repoId of onDisk) {
+      if (!this.state.repos[repoId]) {
+        this.state.repos[repoId] = await this.fromDisk(repoId);
+      }
+    }
+    await this.save();
+  }
+
+  get(repoId: string): CatalogEntry | undefined {
+    const entry = this.state.repos[repoId];
+    return entry && { ...entry };
+  }
+
+  // One page of the matching entries, and how many match in total
+  list(query: CatalogQuery = {}): { entries: CatalogEntry[]; total: number } {
+    const { owner, prefix, include, sort = 'name', page = 1, perPage = 30 } = query;
+    const direction = query.direction ?? (sort === 'name' ? 'asc' : 'desc');
+    const key = SORT_KEYS[sort];
+
+    const matching = Object.values(this.state.repos).filter(entry =>
+      (owner === undefined || entry.owner === owner) &&
+      (prefix === undefined || entry.repo_id.startsWith(prefix)) &&
+      (!include || include(entry))
+    );
+    matching.sort((a, b) => {
+      const [x, y] = [key(a), key(b)];
+      const order = x < y ? -1 : x > y ? 1 : a.repo_id.localeCompare(b.repo_id);
+      return direction === 'asc' ? order : -order;
+    });
+
+    return {
+      entries: matching.slice((page - 1) * perPage, page * perPage).map(entry => ({ ...entry })),
+      total: matching.length
+    };
+  }
+
+  // How many repositories there are and the disk they use
+  totals(): { repos: number; size_bytes: number } {
+    const entries = Object.values(this.state.repos);
+    return {
+      repos: entries.length,
+      size_bytes: entries.reduce((sum, entry) => sum + entry.size_bytes, 0)
+    };
+  }
+
+  // Apply a committed write; safe to repeat
+  async recordWrite(write: CatalogWrite): Promise<void> {
+    const { repos, trash } = this.state;
+    const at = write.at || new Date().toISOString();
+    const repoId = write.repo_id;
+
+    switch (write.operation) {
+      case 'create':
+        if (!repos[repoId]) {
+          repos[repoId] = {
+            ...(await this.fromDisk(repoId)),
+            description: write.metadata?.description || '',
+            created_at: at,
+            updated_at: at
+          };
+        }
+        break;
+      case 'push':
+      case 'update-ref':
+        if (repos[repoId]) {
+          const pushedAt = repos[repoId].pushed_at;
+          repos[repoId].pushed_at = pushedAt && pushedAt > at ? pushedAt : at;
+          repos[repoId].size_bytes = await this.storage.getRepoSize(repoId);
+        } else {
+          await this.sync(repoId);
+        }
+        break;
+      case 'update-repo': {
+        const entry = repos[repoId];
+        if (entry && entry.updated_at <= at) {
+          Object.assign(entry, write.metadata, { updated_at: at });
+        }
+        break;
+      }
+      case 'delete':
+        if (repos[repoId]) {
+          // The delete's transaction id is the trash id
+          trash[write.trash_id || write.transaction_id] = repos[repoId];
+          delete repos[repoId];
+        }
+        break;
+      case 'restore':
+        if (write.trash_id && trash[write.trash_id]) {
+          repos[repoId] = trash[write.trash_id];
+          delete trash[write.trash_id];
+        }
+        await this.sync(repoId);
+        break;
+      case 'rename': {
+        const target = write.target_repo_id!;
+        if (repos[repoId] && !repos[target]) {
+          const [owner, name] = target.split('/');
+          repos[target] = { ...repos[repoId], repo_id: target, owner, name };
+          delete repos[repoId];
+        }
+        break;
+      }
+      default:
+        return;
+    }
+    await this.save();
+  }
+
+  // Bring one entry in line with the disk: add it, refresh its size or
+  // drop it
+  async sync(repoId: string): Promise<void> {
+    if (!(await this.storage.repoExists(repoId))) {
+      delete this.state.repos[repoId];
+    } else if (this.state.repos[repoId]) {
+      this.state.repos[repoId].size_bytes = await this.storage.getRepoSize(repoId);
+    } else {
+      this.state.repos[repoId] = await this.fromDisk(repoId);
+    }
+    await this.save();
+  }
+
+  // Take over a peer's entry for a repository copied from it
+  async put(entry: CatalogEntry): Promise<void> {
+    this.state.repos[entry.repo_id] = {
+      ...entry,
+      size_bytes: await this.storage.getRepoSize(entry.repo_id)
+    };
+    await this.save();
+  }
+
+  // Drop the entries of purged repositories
+  async forgetTrash(trashIds: string[]): Promise<void> {
+    trashIds.forEach(trashId => delete this.state.trash[trashId]);
+    await this.save();
+  }
+
+  private async fromDisk(repoId: string): Promise<CatalogEntry> {
+    const [owner, name] = repoId.split('/');
+    const created = (await fs.stat(this.storage.getRepoPath(repoId))).birthtime.toISOString();
+    return {
+      repo_id: repoId,
+      owner,
+      name,
+      description: '',
+      default_branch: await this.storage.getDefaultBranch(repoId),
+      created_at: created,
+      pushed_at: null,
+      size_bytes: await this.storage.getRepoSize(repoId),
+      updated_at: created
+    };
+  }
+
+  private save(): Promise<void> {
+    if (!this.queued) {
+      // A failed write does not stop later ones; they carry the whole state
+      this.queued = this.saving.catch(() => undefined).then(async () => {
+        this.queued = null;
+        const contents = JSON.stringify(this.state);
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, contents);
+        await fs.rename(tempPath, this.filePath);
+      });
+      this.saving = this.queued;
+    }
+    return this.queued;
+  }
+}
@@ -0,0 +1,140 @@
+import axios from 'axios';
+import { LockTable, LocalLockBackend, PeerQuorumLockBackend, RepositoryBusyError } from './repo-lock';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('LockTable', () => {
+  let table: LockTable;
+
+  beforeEach(() => {
+    table = new LockTable();
+  });
+
+  it('should grant a free repository and refuse a second lease', () => {
+    expect(table.tryAcquire('alice/project', 'server-1', 'lease-1', 60000).granted).toBe(true);
+
+    const result = table.tryAcquire('alice/project', 'server-2', 'lease-2', 60000);
+
+    expect(result).toMatchObject({ granted: false, holder: { owner: 'server-1', lease_id: 'lease-1' } });
+  });
+
+  it('should renew a lease re-acquired with the same id', () => {
+    table.tryAcquire('alice/project', 'server-1', 'lease-1', 1000);
+
+    expect(table.tryAcquire('alice/project', 'server-1', 'lease-1', 60000).granted).toBe(true);
+  });
+
+  it('should treat an expired lease as free', () => {
+    table.tryAcquire('alice/project', 'server-1', 'lease-1', -1);
+
+    expect(table.get('alice/project')).toBeUndefined();
+    expect(table.tryAcquire('alice/project', 'server-2', 'lease-2', 60000).granted).toBe(true);
+  });
+
+  it('should only release the lease that holds the repository', () => {
+    table.tryAcquire('alice/project', 'server-1', 'lease-1', 60000);
+
+    table.release('alice/project', 'lease-other');
+    expect(table.list()).toHaveLength(1);
+
+    table.release('alice/project', 'lease-1');
+    expect(table.list()).toEqual([]);
+  });
+});
+
+describe('LocalLockBackend', () => {
+  it('should fail fast while the repository is held', async () => {
+    const backend = new LocalLockBackend('server-1', new LockTable());
+    const lease = await backend.acquire('alice/project');
+
+    await expect(backend.acquire('alice/project')).rejects.toThrow(RepositoryBusyError);
+
+    await backend.release(lease);
+    await expect(backend.acquire('alice/project')).resolves.toMatchObject({ owner: 'server-1' });
+  });
+});
+
+describe('PeerQuorumLockBackend', () => {
+  const peers = ['http://localhost:3001', 'http://localhost:3002'];
+  let table: LockTable;
+
+  const busy = () => Object.assign(new Error('Request failed with status code 409'), {
+    response: {
+      status: 409,
+      data: {
+        error: 'Repository busy',
+        holder: { repo_id: 'alice/project', owner: 'server-3', lease_id: 'lease-9', expires_at: '2030-01-01T00:00:00.000Z' }
+      }
+    }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    table = new LockTable();
+  });
+
+  it('should hold the lease once a majority of servers grant it', async () => {
+    mockedAxios.post
+      .mockResolvedValueOnce({ status: 200, data: { granted: true } })
+      .mockRejectedValueOnce(new Error('Connection refused'));
+    const backend = new PeerQuorumLockBackend('server-1', table, peers);
+
+    const lease = await backend.acquire('alice/project');
+
+    expect(lease.owner).toBe('server-1');
+    expect(table.get('alice/project')?.lease_id).toBe(lease.lease_id);
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'http://localhost:3001/replicate/locks/acquire',
+      expect.objectContaining({ repo_id: 'alice/project', owner: 'server-1', lease_id: lease.lease_id }),
+      expect.any(Object)
+    );
+  });
+
+  it('should report the holder and give back its grants when a peer refuses', async () => {
+    mockedAxios.post
+      .mockResolvedValueOnce({ status: 200, data: { granted: true } })
+      .mockRejectedValueOnce(busy())
+      .mockRejectedValueOnce(new Error('Connection refused'))
+      .mockResolvedValue({ status: 200, data: { released: true } });
+    const backend = new PeerQuorumLockBackend('server-1', table, [...peers, 'http://localhost:3003']);
+
+    await expect(backend.acquire('alice/project')).rejects.toThrow(
+      'Repository busy: alice/project is locked by server-3 until 2030-01-01T00:00:00.000Z'
+    );
+
+    expect(table.get('alice/project')).toBeUndefined();
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'http://localhost:3001/replicate/locks/release',
+      expect.objectContaining({ repo_id: 'alice/project' }),
+      expect.any(Object)
+    );
+  });
+
+  it('should refuse without a quorum of reachable servers', async () => {
+    mockedAxios.post.mockRejectedValue(new Error('Connection refused'));
+    const backend = new PeerQuorumLockBackend('server-1', table, peers);
+
+    await expect(backend.acquire('alice/project')).rejects.toThrow('lock quorum not reached (1/2 servers)');
+    expect(table.get('alice/project')).toBeUndefined();
+  });
+
+  it('should not ask peers known to be down', async () => {
+    mockedAxios.post.mockResolvedValue({ status: 200, data: { granted: true } });
+    const backend = new PeerQuorumLockBackend('server-1', table, peers, {
+      isAvailable: peerUrl => peerUrl !== 'http://localhost:3002'
+    });
+
+    await backend.acquire('alice/project');
+
+    expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail fast without any network call while this server holds the repository', async () => {
+    table.tryAcquire('alice/project', 'server-1', 'lease-1', 60000);
+    const backend = new PeerQuorumLockBackend('server-1', table, peers);
+
+    await expect(backend.acquire('alice/project')).rejects.toThrow(RepositoryBusyError);
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+import axios from 'axios';
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+// Lock timeout from the design: a lease not released by then (holder
+// crashed or partitioned away) frees the repository
+export const LOCK_TTL_MS = 60000;
+
+export interface Lease {
+  repo_id: string;
+  owner: string; // Server id of the coordinator holding it
+  lease_id: string;
+  expires_at: string;
+}
+
+export class RepositoryBusyError extends Error {
+  constructor(repoId: string, details: string) {
+    super(`Repository busy: ${repoId} ${details}`);
+    this.name = 'RepositoryBusyError';
+  }
+}
+
+/**
+ * Where cluster-wide repository leases come from. The built-in backends are
+ * in-process (single node) and peer quorum; an etcd or Consul backend only
+ * has to implement these two calls.
+ */
+export interface LockBackend {
+  // Resolves with the lease, or rejects with RepositoryBusyError at once
+  // when another writer holds the repository
+  acquire(repoId: string, ttlMs?: number): Promise<Lease>;
+  release(lease: Lease): Promise<void>;
+}
+
+type GrantResult = { granted: true; lease: Lease } | { granted: false; holder: Lease };
+
+/**
+ * This node's view of who holds which repository. Expired leases count as
+ * free. Re-acquiring with the same lease id renews the lease.
+ */
+export class LockTable {
+  private leases: Map<string, Lease> = new Map();
+
+  tryAcquire(repoId: string, owner: string, leaseId: string, ttlMs: number): GrantResult {
+    const holder = this.get(repoId);
+    if (holder && holder.lease_id !== leaseId) {
+      return { granted: false, holder };
+    }
+
+    const lease: Lease = {
+      repo_id: repoId,
+      owner,
+      lease_id: leaseId,
+      expires_at: new Date(Date.now() + ttlMs).toISOString()
+    };
+    this.leases.set(repoId, lease);
+    return { granted: true, lease };
+  }
+
+  release(repoId: string, leaseId: string): void {
+    if (this.leases.get(repoId)?.lease_id === leaseId) {
+      this.leases.delete(repoId);
+    }
+  }
+
+  get(repoId: string): Lease | undefined {
+    const lease = this.leases.get(repoId);
+    if (lease && Date.parse(lease.expires_at) <= Date.now()) {
+      this.leases.delete(repoId);
+      return undefined;
+    }
+    return lease;
+  }
+
+  list(): Lease[] {
+    return Array.from(this.leases.keys())
+      .map(repoId => this.get(repoId))
+      .filter((lease): lease is Lease => lease !== undefined);
+  }
+
+  // POST /replicate/locks/acquire - a peer asks for its share of a lease
+  async handleAcquire(req: Request, res: Response): Promise<void> {
+    const { repo_id, owner, lease_id, ttl_ms } = req.body;
+
+    if (!repo_id || !owner || !lease_id) {
+      res.status(400).json({
+        error: 'Missing required fields: repo_id, owner, lease_id'
+      });
+      return;
+    }
+
+    const result = this.tryAcquire(repo_id, owner, lease_id, Math.min(ttl_ms || LOCK_TTL_MS, LOCK_TTL_MS));
+    if (!result.granted) {
+      res.status(409).json({
+        error: 'Repository busy',
+        holder: result.holder
+      });
+      return;
+    }
+
+    res.status(200).json({ granted: true, lease: result.lease });
+  }
+
+  // POST /replicate/locks/release
+  async handleRelease(req: Request, res: Response): Promise<void> {
+    const { repo_id, lease_id } = req.body;
+
+    if (!repo_id || !lease_id) {
+      res.status(400).json({
+        error: 'Missing required fields: repo_id, lease_id'
+      });
+      return;
+    }
+
+    this.release(repo_id, lease_id);
+    res.status(200).json({ released: true });
+  }
+}
+
+// Serializes writers on a single node
+export class LocalLockBackend implements LockBackend {
+  private serverId: string;
+  private table: LockTable;
+
+  constructor(serverId: string, table: LockTable) {
+    this.serverId = serverId;
+    this.table = table;
+  }
+
+  async acquire(repoId: string, ttlMs: number = LOCK_TTL_MS): Promise<Lease> {
+    const result = this.table.tryAcquire(repoId, this.serverId, uuidv4(), ttlMs);
+    if (!result.granted) {
+      throw new RepositoryBusyError(repoId, describeHolder(result.holder));
+    }
+    return result.lease;
+  }
+
+  async release(lease: Lease): Promise<void> {
+    this.table.release(lease.repo_id, lease.lease_id);
+  }
+}
+
+export interface PeerQuorumLockOptions {
+  timeoutMs?: number;
+  // Peers not worth asking (known down); counted as refusals
+  isAvailable?: (peerUrl: string) => boolean;
+}
+
+/**
+ * Lease granted by a majority of all servers (self included). Two majorities
+ * always share a server, and a server grants a repository to one lease at a
+ * time, so two coordinators can never both hold it.
+ */
+export class PeerQuorumLockBackend implements LockBackend {
+  private serverId: string;
+  private table: LockTable;
+  private peerUrls: string[];
+  private timeoutMs: number;
+  private isAvailable: (peerUrl: string) => boolean;
+
+  constructor(serverId: string, table: LockTable, peerUrls: string[], options: PeerQuorumLockOptions = {}) {
+    this.serverId = serverId;
+    this.table = table;
+    this.peerUrls = peerUrls;
+    this.timeoutMs = options.timeoutMs ?? 2000;
+    this.isAvailable = options.isAvailable ?? (() => true);
+  }
+
+  // Follow a membership change
+  setPeers(peerUrls: string[]): void {
+    this.peerUrls = peerUrls;
+  }
+
+  getMajority(): number {
+    return Math.floor((1 + this.peerUrls.length) / 2) + 1;
+  }
+
+  async acquire(repoId: string, ttlMs: number = LOCK_TTL_MS): Promise<Lease> {
+    const leaseId = uuidv4();
+
+    // Our own grant first: a local holder means busy without any network
+    const local = this.table.tryAcquire(repoId, this.serverId, leaseId, ttlMs);
+    if (!local.granted) {
+      throw new RepositoryBusyError(repoId, describeHolder(local.holder));
+    }
+
+    const peers = this.peerUrls.filter(peerUrl => this.isAvailable(peerUrl));
+    const results = await Promise.allSettled(peers.map(peerUrl =>
+      axios.post(
+        `${peerUrl}/replicate/locks/acquire`,
+        { repo_id: repoId, owner: this.serverId, lease_id: leaseId, ttl_ms: ttlMs },
+        { timeout: this.timeoutMs }
+      )
+    ));
+
+    const granted = peers.filter((_, index) => results[index].status === 'fulfilled');
+    if (1 + granted.length >= this.getMajority()) {
+      return local.lease;
+    }
+
+    await this.releaseOn(repoId, leaseId, granted);
+    this.table.release(repoId, leaseId);
+
+    const refusal = results.find(
+      (result): result is PromiseRejectedResult =>
+        result.status === 'rejected' && result.reason.response?.status === 409
+    );
+    const holder: Lease | undefined = refusal?.reason.response.data?.holder;
+    throw new RepositoryBusyError(
+      repoId,
+      holder
+        ? describeHolder(holder)
+        : `lock quorum not reached (${1 + granted.length}/${this.getMajority()} servers)`
+    );
+  }
+
+  async release(lease: Lease): Promise<void> {
+    this.table.release(lease.repo_id, lease.lease_id);
+    // Best effort: a peer that misses the release frees the lease on expiry
+    await this.releaseOn(lease.repo_id, lease.lease_id, this.peerUrls);
+  }
+
+  private async releaseOn(repoId: string, leaseId: string, peerUrls: string[]): Promise<void> {
+    await Promise.allSettled(peerUrls.map(peerUrl =>
+      axios.post(
+        `${peerUrl}/replicate/locks/release`,
+        { repo_id: repoId, lease_id: leaseId },
+        { timeout: this.timeoutMs }
+      )
+    ));
+  }
+}
+
+function describeHolder(holder: Lease): string {
+  return `is locked by ${holder.owner} until ${holder.expires_at}`;
+}
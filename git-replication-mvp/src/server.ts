@@ -1,89 +1,834 @@
-import express, { Request, Response } from 'express';
+import axios from 'axios';
+import express, { NextFunction, Request, Response } from 'express';
+import fs from 'fs/promises';
 import os from 'os';
+import path from 'path';
 import { ReplicationHandler } from './replication-handler';
 import { GitServer } from './git-server';
+import { GitHttpHandler } from './git-http';
+import { InDoubtResolver } from './in-doubt-resolver';
+import { CatchUpManager } from './catch-up';
+import { ReplicationJournal } from './replication-journal';
+import { Bootstrapper } from './bootstrap';
+import { QuorumConfig } from './quorum-policy';
 import { RepoStorage } from './storage';
+import { TransactionLog } from './transaction-log';
+import { AntiEntropy } from './anti-entropy';
+import { ClusterAuth, captureRawBody } from './cluster-auth';
+import { AccessStore } from './access-store';
+import { AccessControl } from './access-control';
+import { AccessHandler } from './access-handler';
+import { RepoCatalog } from './repo-catalog';
+import { RepoBrowser } from './repo-browser';
+import { CpuUsage, MetricsRegistry, httpMetrics } from './metrics';
+import { logger } from './logger';
+import { TransactionTimeline } from './transaction-timeline';
+import { MaintenanceMode } from './maintenance';
+import { ClusterMembership } from './membership';
+import { MembershipHandler } from './membership-handler';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 const SERVER_ID = process.env.SERVER_ID || 'server-1';
 const DATA_DIR = process.env.DATA_DIR || './data';
 const PEER_URLS = process.env.PEER_URLS?.split(',').filter(Boolean) || [];
+// This server's URL as its peers reach it; enables changing the members at
+// runtime, with PEER_URLS only as the initial list
+const SERVER_URL = process.env.SERVER_URL?.replace(/\/+$/, '');
+const IN_DOUBT_TIMEOUT_MS = parseInt(process.env.IN_DOUBT_TIMEOUT_MS || '30000', 10);
+const BOOTSTRAP_PEER = process.env.BOOTSTRAP_PEER;
+const QUORUM_CONFIG = QuorumConfig.fromEnv(process.env.QUORUM_POLICY, process.env.QUORUM_OVERRIDES);
+// Deleted repositories stay restorable this long (default 7 days)
+const TRASH_RETENTION_MS = parseInt(process.env.TRASH_RETENTION_MS || '604800000', 10);
+// Committed and aborted transactions are forgotten after this long (default
+// 1 day); prepared ones are kept until they are decided
+const TRANSACTION_RETENTION_MS = parseInt(process.env.TRANSACTION_RETENTION_MS || '86400000', 10);
+const ANTI_ENTROPY_INTERVAL_MS = parseInt(process.env.ANTI_ENTROPY_INTERVAL_MS || '60000', 10);
+// Shared HMAC secret for peer traffic, and the server ids allowed to use it
+const CLUSTER_SECRET = process.env.CLUSTER_SECRET;
+const CLUSTER_MEMBERS = process.env.CLUSTER_MEMBERS?.split(',').filter(Boolean) || [];
+// Enables user authentication and repository permissions
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+// Largest JSON request body; a push prepare carries its packfile in base64,
+// a third larger than the pack
+const MAX_BODY_SIZE = process.env.MAX_BODY_SIZE || '100mb';
 
-app.use(express.json());
+logger.setServerId(SERVER_ID);
+
+// Exposed on GET /metrics; every request is counted and timed by route
+const metrics = new MetricsRegistry();
+const cpuUsage = new CpuUsage();
+app.use(httpMetrics(metrics));
+
+// Push replication carries packfiles (base64) in the prepare payload; the
+// raw body is kept for checking peer signatures
+app.use(express.json({ limit: MAX_BODY_SIZE, verify: captureRawBody }));
+
+// Every log line written while handling a request carries its correlation
+// id, which follows the request's writes to the peers
+app.use(logger.correlate());
+
+// Peer-only endpoints need a signed request from a cluster member once a
+// secret is configured; this node signs everything it sends to its peers
+if (CLUSTER_SECRET && CLUSTER_MEMBERS.length === 0) {
+  throw new Error('CLUSTER_MEMBERS must list the cluster\'s server ids when CLUSTER_SECRET is set');
+}
+const clusterAuth = CLUSTER_SECRET ? new ClusterAuth(SERVER_ID, CLUSTER_SECRET, CLUSTER_MEMBERS) : null;
+const membership = SERVER_URL
+  ? new ClusterMembership(
+    path.join(DATA_DIR, '.txlog', 'membership.json'),
+    { url: SERVER_URL, server_id: SERVER_ID },
+    PEER_URLS
+  )
+  : null;
+// The peers right now: the member list once it can change
+const peerUrls = () => membership?.getPeers() ?? PEER_URLS;
+clusterAuth?.install(axios, () => membership?.getKnownUrls() ?? PEER_URLS);
+if (!clusterAuth && (PEER_URLS.length > 0 || SERVER_URL)) {
+  logger.warn('startup.insecure', 'CLUSTER_SECRET is not set: replication endpoints accept unauthenticated requests');
+}
+const requirePeer = clusterAuth
+  ? clusterAuth.middleware()
+  : (req: Request, res: Response, next: NextFunction) => next();
+
+// Peers fetch private repositories too, so they must be able to prove
+// who they are
+if (ADMIN_TOKEN && (PEER_URLS.length > 0 || SERVER_URL) && !clusterAuth) {
+  throw new Error('CLUSTER_SECRET must be set when ADMIN_TOKEN is set and PEER_URLS or SERVER_URL is');
+}
 
 // Initialize components
 const storage = new RepoStorage(DATA_DIR);
-const replicationHandler = new ReplicationHandler(SERVER_ID, storage);
-const gitServer = new GitServer(DATA_DIR, SERVER_ID, PEER_URLS);
+if (clusterAuth) {
+  storage.setRemoteHeader(() => clusterAuth.readHeader());
+}
+const journal = new ReplicationJournal(path.join(DATA_DIR, '.txlog', 'journal.log'));
+const accessStore = new AccessStore(path.join(DATA_DIR, '.txlog', 'access.json'));
+const accessControl = new AccessControl(accessStore, { adminToken: ADMIN_TOKEN, clusterAuth });
+const catalog = new RepoCatalog(path.join(DATA_DIR, '.txlog', 'catalog.json'), storage);
+const gitServer = new GitServer(
+  DATA_DIR,
+  SERVER_ID,
+  PEER_URLS,
+  journal,
+  QUORUM_CONFIG,
+  null,
+  accessStore,
+  catalog,
+  metrics,
+  membership
+);
+const replicationHandler = new ReplicationHandler(
+  SERVER_ID,
+  storage,
+  new TransactionLog(path.join(DATA_DIR, '.txlog', 'participant.log')),
+  gitServer.getReplicationCoordinator(),
+  journal,
+  accessStore,
+  catalog,
+  membership
+);
+const inDoubtResolver = new InDoubtResolver(replicationHandler, PEER_URLS, {
+  timeoutMs: IN_DOUBT_TIMEOUT_MS
+});
+const catchUp = new CatchUpManager(
+  storage,
+  journal,
+  replicationHandler,
+  PEER_URLS,
+  path.join(DATA_DIR, '.txlog', 'watermarks.json'),
+  {
+    quorumSize: QUORUM_CONFIG.minRequiredPeers(PEER_URLS.length),
+    bootstrapper: new Bootstrapper(storage, journal, path.join(DATA_DIR, '.txlog', 'bootstrap.json'), {
+      accessStore,
+      catalog,
+      membership: membership ?? undefined
+    }),
+    accessStore,
+    catalog,
+    membership: membership ?? undefined
+  }
+);
+const maintenance = new MaintenanceMode(
+  path.join(DATA_DIR, '.txlog', 'maintenance.json'),
+  replicationHandler,
+  gitServer.getReplicationCoordinator(),
+  catchUp
+);
+const antiEntropy = new AntiEntropy(
+  SERVER_ID,
+  storage,
+  replicationHandler,
+  PEER_URLS,
+  new TransactionLog(path.join(DATA_DIR, '.txlog', 'repairs.log'), { compactThreshold: Infinity }),
+  {
+    intervalMs: ANTI_ENTROPY_INTERVAL_MS,
+    isAvailable: peerUrl => gitServer.getReplicationCoordinator()?.getPeerHealthMonitor().isAvailable(peerUrl) ?? true,
+    lockBackend: gitServer.getLockBackend(),
+    catalog
+  }
+);
+const gitHttpHandler = new GitHttpHandler(storage, gitServer);
+const accessHandler = new AccessHandler(accessStore, storage, gitServer, accessControl);
+const repoBrowser = new RepoBrowser(storage);
+const transactionTimeline = new TransactionTimeline(SERVER_ID, PEER_URLS, logger);
+const membershipHandler = membership ? new MembershipHandler(membership, gitServer) : null;
+
+// Participants ask their peers about transactions stuck in prepared;
+// coordinators retry commit/abort messages peers did not acknowledge.
+// Compares replicas in the background; passes wait until caught up.
+const startPeerTasks = () => {
+  if (peerUrls().length > 0) {
+    inDoubtResolver.start();
+    gitServer.getReplicationCoordinator()?.start();
+  }
+  antiEntropy.start();
+};
 
-// Initialize storage
-gitServer.initialize().then(() => {
-  console.log(`Storage initialized at ${DATA_DIR}`);
+// Everything that talks to peers follows the member list, from the saved
+// list on startup and from every committed change
+membership?.onChange(config => {
+  const peers = peerUrls();
+  gitServer.setPeers(peers);
+  inDoubtResolver.setPeers(peers);
+  catchUp.setPeers(peers, QUORUM_CONFIG.minRequiredPeers(peers.length));
+  antiEntropy.setPeers(peers);
+  transactionTimeline.setPeers(peers);
+  clusterAuth?.setMembers(config.members.flatMap(member => (member.server_id ? [member.server_id] : [])));
+  startPeerTasks();
 });
 
-// Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  const cpus = os.cpus();
-  const totalMem = os.totalmem();
-  const freeMem = os.freemem();
-  const usedMem = totalMem - freeMem;
-
-  // Calculate average CPU load (simplified)
-  let totalIdle = 0;
-  let totalTick = 0;
-  cpus.forEach(cpu => {
-    for (const type in cpu.times) {
-      totalTick += cpu.times[type as keyof typeof cpu.times];
+// Gauges are read from the components on every scrape
+metrics.gauge(
+  'git_replication_transactions_in_flight',
+  'Writes this server is coordinating',
+  () => gitServer.getReplicationCoordinator()?.getInFlightCount() ?? 0
+);
+metrics.gauge(
+  'git_replication_transactions_prepared',
+  'Transactions prepared on this server and waiting for the decision',
+  () => replicationHandler.getPreparedTransactions().length
+);
+metrics.gauge(
+  'git_replication_handoff_pending',
+  'Commit/abort messages queued for a peer that did not acknowledge them',
+  () => Object.entries(gitServer.getReplicationCoordinator()?.getHandoffDepths() ?? {})
+    .map(([peer, value]) => ({ labels: { peer }, value }))
+);
+metrics.gauge(
+  'git_replication_peer_up',
+  'Whether a peer answers its health checks (1) or not (0)',
+  () => (gitServer.getReplicationCoordinator()?.getPeerHealth() ?? [])
+    .map(peer => ({ labels: { peer: peer.url }, value: peer.status === 'down' ? 0 : 1 }))
+);
+metrics.gauge(
+  'git_replication_in_sync',
+  'Whether this server has caught up with its peers and votes on writes',
+  () => (catchUp.getStatus().state === 'in-sync' ? 1 : 0)
+);
+metrics.gauge('git_replication_repositories', 'Repositories on this server', () => catalog.totals().repos);
+metrics.gauge(
+  'git_replication_repository_bytes',
+  'Disk used by the repositories on this server',
+  () => catalog.totals().size_bytes
+);
+metrics.gauge('git_replication_disk_free_bytes', 'Free space on the data directory\'s file system', async () => {
+  const stats = await fs.statfs(DATA_DIR);
+  return stats.bavail * stats.bsize;
+});
+metrics.gauge('git_replication_disk_total_bytes', 'Size of the data directory\'s file system', async () => {
+  const stats = await fs.statfs(DATA_DIR);
+  return stats.blocks * stats.bsize;
+});
+metrics.gauge('git_replication_cpu_usage_ratio', 'Share of the machine\'s CPU time in use', () => cpuUsage.current());
+metrics.gauge(
+  'git_replication_memory_usage_ratio',
+  'Share of the machine\'s memory in use',
+  () => 1 - os.freemem() / os.totalmem()
+);
+metrics.gauge(
+  'git_replication_process_resident_memory_bytes',
+  'Resident memory of this server process',
+  () => process.memoryUsage().rss
+);
+
+// Initialize storage, then replay the transaction logs
+gitServer.initialize()
+  .then(() => accessStore.initialize())
+  .then(() => catalog.initialize())
+  .then(() => catalog.reconcile())
+  .then(() => journal.initialize())
+  .then(() => gitServer.redoOwedWrites())
+  .then(() => replicationHandler.initialize())
+  .then(() => catchUp.initialize())
+  .then(() => membership?.initialize())
+  .then(() => maintenance.initialize())
+  .then(() => antiEntropy.initialize())
+  .then(() => {
+    logger.info('startup.ready', `Storage initialized at ${DATA_DIR}`, { data_dir: DATA_DIR });
+
+    startPeerTasks();
+    cpuUsage.start();
+
+    // Each replica purges its own trash; restoring needs the copies anyway
+    const purge = () => {
+      storage.purgeTrash(new Date(Date.now() - TRASH_RETENTION_MS))
+        .then(purged => {
+          purged.forEach(trashId => logger.info('trash.purged', `Purged deleted repository ${trashId}`, { trash_id: trashId }));
+          return catalog.forgetTrash(purged);
+        })
+        .catch(error => logger.error('trash.purge-failed', `Trash purge failed: ${error.message}`));
+    };
+    setInterval(purge, Math.min(TRASH_RETENTION_MS, 3600000)).unref();
+    purge();
+
+    const collect = () => {
+      const before = new Date(Date.now() - TRANSACTION_RETENTION_MS);
+      replicationHandler.collectFinished(before)
+        .then(collected => {
+          if (collected.length > 0) {
+            logger.info('txn.collected', `Forgot ${collected.length} finished transactions`, { count: collected.length });
+          }
+          return gitServer.getReplicationCoordinator()?.collectDecided(before);
+        })
+        .then(collected => {
+          if (collected && collected.length > 0) {
+            logger.info('txn.decisions-collected', `Forgot ${collected.length} coordinator decisions`, { count: collected.length });
+          }
+        })
+        .catch(error => logger.error('txn.collect-failed', `Transaction collection failed: ${error.message}`));
+    };
+    setInterval(collect, Math.min(TRANSACTION_RETENTION_MS, 3600000)).unref();
+    collect();
+
+    // A new node copies everything from BOOTSTRAP_PEER once; after that (or
+    // resuming an interrupted bootstrap) it replays what it missed before
+    // voting on new writes
+    if (BOOTSTRAP_PEER && catchUp.getStatus().bootstrap?.state !== 'complete') {
+      return catchUp.bootstrap(BOOTSTRAP_PEER);
     }
-    totalIdle += cpu.times.idle;
+    catchUp.start();
+  })
+  .catch(error => {
+    // Serving without the logs replayed could lose or repeat writes
+    logger.error('startup.failed', `Startup failed: ${error.message}`, { data_dir: DATA_DIR });
+    process.exit(1);
   });
 
-  const cpuUsage = 100 - (100 * totalIdle / totalTick);
-  const memoryUsage = (usedMem / totalMem) * 100;
+// Every request acts for a principal; without ADMIN_TOKEN it is the admin
+app.use(accessControl.authenticate());
+
+// Health check endpoint
+app.get('/health', (req: Request, res: Response) => {
+  // CPU over the last sampling interval, not since boot
+  const cpu = cpuUsage.current() * 100;
+  const memoryUsage = (1 - os.freemem() / os.totalmem()) * 100;
+
+  // Degraded while this node is behind or any peer is not up and in sync
+  const coordinator = gitServer.getReplicationCoordinator();
+  const sync = catchUp.getStatus().state;
+  const fullStrength = sync === 'in-sync' &&
+    (!coordinator || coordinator.getPeerHealthMonitor().isFullStrength());
+
+  const maintenanceState = maintenance.get();
 
   res.status(200).json({
-    status: 'healthy',
+    status: maintenanceState ? 'maintenance' : fullStrength ? 'healthy' : 'degraded',
     server_id: SERVER_ID,
     timestamp: new Date().toISOString(),
     load: {
-      cpu: parseFloat(cpuUsage.toFixed(2)),
+      cpu: parseFloat(cpu.toFixed(2)),
       memory: parseFloat(memoryUsage.toFixed(2))
     },
-    peers: PEER_URLS.length
+    sync,
+    maintenance: maintenanceState,
+    peers: peerUrls().length,
+    peer_health: coordinator ? coordinator.getPeerHealth() : []
   });
 });
 
-// Git repository endpoints
-app.post('/repos', (req: Request, res: Response) => {
+// Prometheus scrape endpoint
+app.get('/metrics', async (req: Request, res: Response) => {
+  try {
+    res.status(200).type('text/plain; version=0.0.4').send(await metrics.render());
+  } catch (error: any) {
+    res.status(500).json({ error: 'Failed to collect metrics', details: error.message });
+  }
+});
+
+// Users and personal access tokens
+app.get('/user', (req: Request, res: Response) => {
+  accessHandler.handleWhoAmI(req, res);
+});
+
+app.post('/users', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  accessHandler.handleCreateUser(req, res);
+});
+
+app.get('/users/:username/tokens', accessControl.requireSelf(), (req: Request, res: Response) => {
+  accessHandler.handleListTokens(req, res);
+});
+
+app.post('/users/:username/tokens', accessControl.requireSelf(), (req: Request, res: Response) => {
+  accessHandler.handleCreateToken(req, res);
+});
+
+app.delete('/users/:username/tokens/:id', accessControl.requireSelf(), (req: Request, res: Response) => {
+  accessHandler.handleRevokeToken(req, res);
+});
+
+// Git repository endpoints; only the owner creates under "owner/"
+app.post('/repos', accessControl.requireCreate(req => req.body.repo_id), (req: Request, res: Response) => {
   gitServer.handleCreateRepo(req, res);
 });
 
-app.get('/repos/:user/:repo', (req: Request, res: Response) => {
+app.get('/repos/:user/:repo', accessControl.requireRepo('read'), (req: Request, res: Response) => {
   gitServer.handleGetRepo(req, res);
 });
 
+app.delete('/repos/:user/:repo', accessControl.requireRepo('admin'), (req: Request, res: Response) => {
+  gitServer.handleDeleteRepo(req, res);
+});
+
+// { "description", "default_branch", "private" }, any of them
+app.patch('/repos/:user/:repo', accessControl.requireRepo('admin'), (req: Request, res: Response) => {
+  gitServer.handleUpdateRepo(req, res);
+});
+
+// Rename, or transfer to another owner: { "new_repo_id": "owner/name" }
+app.post(
+  '/repos/:user/:repo/rename',
+  accessControl.requireRepo('admin'),
+  accessControl.requireCreate(req => req.body.new_repo_id),
+  (req: Request, res: Response) => {
+    gitServer.handleRenameRepo(req, res);
+  }
+);
+
+// Paginated, filtered and sorted from the catalog; private repositories
+// are only listed to callers who can read them
 app.get('/repos', (req: Request, res: Response) => {
-  gitServer.handleListRepos(req, res);
+  const principal = accessControl.principalOf(res);
+  gitServer.handleListRepos(req, res, repoId => accessControl.canRead(principal, repoId));
+});
+
+// Branch and tag create/update/delete, as compare-and-swap on each ref
+app.post('/repos/:user/:repo/refs', accessControl.requireRepo('write'), (req: Request, res: Response) => {
+  gitServer.handleUpdateRefs(req, res);
+});
+
+// Read-only views of the repository's contents; all take ?ref=
+app.get('/repos/:user/:repo/branches', accessControl.requireRepo('read'), (req: Request, res: Response) => {
+  repoBrowser.handleListBranches(req, res);
+});
+
+app.get('/repos/:user/:repo/tags', accessControl.requireRepo('read'), (req: Request, res: Response) => {
+  repoBrowser.handleListTags(req, res);
+});
+
+app.get('/repos/:user/:repo/commits', accessControl.requireRepo('read'), (req: Request, res: Response) => {
+  repoBrowser.handleListCommits(req, res);
+});
+
+app.get(
+  ['/repos/:user/:repo/tree', '/repos/:user/:repo/tree/*'],
+  accessControl.requireRepo('read'),
+  (req: Request, res: Response) => {
+    repoBrowser.handleGetTree(req, res);
+  }
+);
+
+app.get('/repos/:user/:repo/raw/*', accessControl.requireRepo('read'), (req: Request, res: Response) => {
+  repoBrowser.handleGetBlob(req, res);
+});
+
+// Collaborators and their permission: { "permission": "read" | "write" | "admin" }
+app.get('/repos/:user/:repo/collaborators', accessControl.requireRepo('admin'), (req: Request, res: Response) => {
+  accessHandler.handleListCollaborators(req, res);
+});
+
+app.put(
+  '/repos/:user/:repo/collaborators/:username',
+  accessControl.requireRepo('admin'),
+  (req: Request, res: Response) => {
+    accessHandler.handleSetCollaborator(req, res, req.body.permission);
+  }
+);
+
+app.delete(
+  '/repos/:user/:repo/collaborators/:username',
+  accessControl.requireRepo('admin'),
+  (req: Request, res: Response) => {
+    accessHandler.handleSetCollaborator(req, res, null);
+  }
+);
+
+// Deleted repositories, restorable until the retention period ends; each
+// caller sees those they administer
+app.get('/trash', async (req: Request, res: Response) => {
+  const principal = accessControl.principalOf(res);
+  try {
+    const trash = (await storage.listTrash())
+      .filter(entry => accessControl.permission(principal, entry.repo_id) === 'admin')
+      .map(entry => ({
+      ...entry,
+      expires_at: new Date(Date.parse(entry.deleted_at) + TRASH_RETENTION_MS).toISOString()
+    }));
+    res.status(200).json({
+      trash,
+      count: trash.length
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to list trash',
+      details: error.message
+    });
+  }
+});
+
+app.post('/trash/:id/restore', async (req: Request, res: Response) => {
+  try {
+    const entry = await storage.getTrashEntry(req.params.id);
+    if (entry && !accessControl.authorize(res, entry.repo_id, 'admin')) {
+      return;
+    }
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to restore repository',
+      details: error.message
+    });
+    return;
+  }
+  gitServer.handleRestoreRepo(req, res);
+});
+
+// Git smart HTTP endpoints (clone/fetch/push); clones and fetches need
+// read, pushes write
+const gitService = (req: Request) => (req.query.service === 'git-receive-pack' ? 'write' : 'read');
+
+app.get('/:user/:repo.git/info/refs', accessControl.requireRepo(gitService), (req: Request, res: Response) => {
+  gitHttpHandler.handleInfoRefs(req, res);
+});
+
+app.post('/:user/:repo.git/git-upload-pack', accessControl.requireRepo('read'), (req: Request, res: Response) => {
+  gitHttpHandler.handleUploadPack(req, res);
+});
+
+app.post('/:user/:repo.git/git-receive-pack', accessControl.requireRepo('write'), (req: Request, res: Response) => {
+  gitHttpHandler.handleReceivePack(req, res);
 });
 
 // Replication endpoints
-app.post('/replicate/prepare', (req: Request, res: Response) => {
+app.post('/replicate/prepare', requirePeer, (req: Request, res: Response) => {
   replicationHandler.handlePrepare(req, res);
 });
 
-app.post('/replicate/commit', (req: Request, res: Response) => {
+app.post('/replicate/commit', requirePeer, (req: Request, res: Response) => {
   replicationHandler.handleCommit(req, res);
 });
 
-app.post('/replicate/abort', (req: Request, res: Response) => {
+app.post('/replicate/abort', requirePeer, (req: Request, res: Response) => {
   replicationHandler.handleAbort(req, res);
 });
 
+app.get('/replicate/transactions/:id/outcome', requirePeer, (req: Request, res: Response) => {
+  replicationHandler.handleOutcome(req, res);
+});
+
+// This node's transactions, to find the ones stuck in prepared
+app.get('/replicate/transactions', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  replicationHandler.handleListTransactions(req, res);
+});
+
+app.get('/replicate/transactions/:id', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  replicationHandler.handleGetTransaction(req, res);
+});
+
+// What this node logged about a transaction, and what every node did
+app.get('/replicate/transactions/:id/events', requirePeer, (req: Request, res: Response) => {
+  transactionTimeline.handleEvents(req, res);
+});
+
+app.get('/replicate/transactions/:id/timeline', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  transactionTimeline.handleTimeline(req, res);
+});
+
+// Catalog entries of every repository, private ones included, by page
+// (sorted by id) for bootstrapping peers
+app.get('/replicate/repos', requirePeer, (req: Request, res: Response) => {
+  const page = Math.max(parseInt(String(req.query.page || '1'), 10) || 1, 1);
+  const perPage = Math.min(parseInt(String(req.query.per_page || '100'), 10) || 100, 1000);
+  const { entries, total } = catalog.list({ page, perPage });
+  res.status(200).json({
+    repos: entries,
+    count: entries.length,
+    total,
+    page,
+    per_page: perPage
+  });
+});
+
+// Undelivered commit/abort messages queued per peer
+app.get('/replicate/handoff', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  const coordinator = gitServer.getReplicationCoordinator();
+  res.status(200).json({
+    peers: coordinator ? coordinator.getHandoffDepths() : {}
+  });
+});
+
+// Repository leases, granted to this node's own writes and to peers'
+app.post('/replicate/locks/acquire', requirePeer, (req: Request, res: Response) => {
+  gitServer.getLockTable().handleAcquire(req, res);
+});
+
+app.post('/replicate/locks/release', requirePeer, (req: Request, res: Response) => {
+  gitServer.getLockTable().handleRelease(req, res);
+});
+
+app.get('/replicate/locks', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  const locks = gitServer.getLockTable().list();
+  res.status(200).json({
+    locks,
+    count: locks.length
+  });
+});
+
+// Quorum policies in force and the peer confirmations they require
+app.get('/replicate/quorum', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  const config = QUORUM_CONFIG.describe();
+  const repoId = typeof req.query.repo === 'string' ? req.query.repo : undefined;
+  const policy = QUORUM_CONFIG.policyFor(repoId);
+
+  res.status(200).json({
+    ...config,
+    peers: peerUrls().length,
+    policy: policy.name,
+    required_peers: policy.requiredPeers(peerUrls().length)
+  });
+});
+
+// Prepared transactions the resolver could not settle; POST runs a pass now
+app.get('/replicate/in-doubt', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  const blocked = inDoubtResolver.getBlocked();
+  res.status(200).json({
+    blocked,
+    count: blocked.length
+  });
+});
+
+app.post('/replicate/in-doubt', accessControl.requireAdmin(), async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await inDoubtResolver.resolveOnce());
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'In-doubt resolution failed',
+      details: error.message
+    });
+  }
+});
+
+// Commit or abort a blocked transaction by hand, when no peer can tell
+app.post('/replicate/in-doubt/:id', accessControl.requireAdmin(), async (req: Request, res: Response) => {
+  const transaction_id = req.params.id;
+  const { decision } = req.body;
+
+  if (decision !== 'commit' && decision !== 'abort') {
+    res.status(400).json({ error: 'decision must be commit or abort' });
+    return;
+  }
+
+  try {
+    if (!(await inDoubtResolver.settle(transaction_id, decision))) {
+      res.status(404).json({ error: `Transaction not prepared: ${transaction_id}` });
+      return;
+    }
+    res.status(200).json({ transaction_id, decision });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to settle transaction',
+      details: error.message
+    });
+  }
+});
+
+// Take this server out of service ({"enabled": true, "reason": "..."}) or
+// put it back
+app.get('/replicate/maintenance', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  res.status(200).json({
+    server_id: SERVER_ID,
+    maintenance: maintenance.get(),
+    sync: catchUp.getStatus().state
+  });
+});
+
+app.post('/replicate/maintenance', accessControl.requireAdmin(), async (req: Request, res: Response) => {
+  const { enabled, reason } = req.body;
+
+  if (typeof enabled !== 'boolean' || (reason !== undefined && typeof reason !== 'string')) {
+    res.status(400).json({ error: 'Expected {"enabled": true|false, "reason": "..."}' });
+    return;
+  }
+
+  try {
+    if (enabled) {
+      await maintenance.enter(reason || 'maintenance');
+    } else {
+      await maintenance.leave();
+    }
+    res.status(200).json({
+      server_id: SERVER_ID,
+      maintenance: maintenance.get(),
+      sync: catchUp.getStatus().state
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to change maintenance mode',
+      details: error.message
+    });
+  }
+});
+
+// The cluster's members, which change at runtime once SERVER_URL is set;
+// changes are replicated to the old and the new members
+const requireMembership = (req: Request, res: Response, next: NextFunction) => {
+  if (!membershipHandler) {
+    res.status(501).json({ error: 'Cluster membership is not configured', details: 'Set SERVER_URL' });
+    return;
+  }
+  next();
+};
+
+app.get('/cluster/members', accessControl.requireAdmin(), requireMembership, (req: Request, res: Response) => {
+  membershipHandler!.handleList(req, res);
+});
+
+// { "url": "http://..." }
+app.post('/cluster/members', accessControl.requireAdmin(), requireMembership, (req: Request, res: Response) => {
+  membershipHandler!.handleAdd(req, res);
+});
+
+app.delete('/cluster/members', accessControl.requireAdmin(), requireMembership, (req: Request, res: Response) => {
+  membershipHandler!.handleRemove(req, res);
+});
+
+// { "url": "http://old", "new_url": "http://new" }
+app.post(
+  '/cluster/members/replace',
+  accessControl.requireAdmin(),
+  requireMembership,
+  (req: Request, res: Response) => {
+    membershipHandler!.handleReplace(req, res);
+  }
+);
+
+// Committed writes after a sequence number, for peers catching up
+app.get('/replicate/journal', requirePeer, (req: Request, res: Response) => {
+  const after = parseInt(String(req.query.after || '0'), 10) || 0;
+  const limit = Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, 1000);
+  res.status(200).json({
+    server_id: SERVER_ID,
+    last_seq: journal.getLastSeq(),
+    entries: journal.entriesAfter(after, limit)
+  });
+});
+
+// Catch-up state and per-peer watermarks; POST runs a pass now
+app.get('/replicate/catch-up', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  res.status(200).json(catchUp.getStatus());
+});
+
+app.post('/replicate/catch-up', accessControl.requireAdmin(), async (req: Request, res: Response) => {
+  try {
+    await catchUp.runOnce();
+    res.status(200).json(catchUp.getStatus());
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Catch-up failed',
+      details: error.message
+    });
+  }
+});
+
+// Merkle-style digests of this node's repositories, for anti-entropy
+app.get('/replicate/digest', requirePeer, (req: Request, res: Response) => {
+  antiEntropy.handleDigest(req, res);
+});
+
+app.get('/replicate/digest/:bucket', requirePeer, (req: Request, res: Response) => {
+  antiEntropy.handleBucketDigest(req, res);
+});
+
+// Differences found by the last anti-entropy pass; POST runs a pass now
+app.get('/replicate/anti-entropy', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  res.status(200).json(antiEntropy.getStatus());
+});
+
+app.post('/replicate/anti-entropy', accessControl.requireAdmin(), async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await antiEntropy.runOnce());
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Anti-entropy pass failed',
+      details: error.message
+    });
+  }
+});
+
+// Every repair anti-entropy made here, oldest first
+app.get('/replicate/anti-entropy/repairs', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  const repairs = antiEntropy.getRepairs();
+  res.status(200).json({
+    repairs,
+    count: repairs.length
+  });
+});
+
+// Copy every repository from a healthy peer, then catch up
+app.get('/replicate/bootstrap', accessControl.requireAdmin(), (req: Request, res: Response) => {
+  const progress = catchUp.getStatus().bootstrap;
+  if (!progress) {
+    res.status(404).json({ error: 'No bootstrap has been requested' });
+    return;
+  }
+  res.status(200).json(progress);
+});
+
+app.post('/replicate/bootstrap', accessControl.requireAdmin(), async (req: Request, res: Response) => {
+  const { peer_url } = req.body;
+
+  if (!peer_url) {
+    res.status(400).json({ error: 'Missing peer_url' });
+    return;
+  }
+
+  try {
+    await catchUp.bootstrap(peer_url);
+    res.status(202).json(catchUp.getStatus());
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to start bootstrap',
+      details: error.message
+    });
+  }
+});
+
 const server = app.listen(PORT, () => {
-  console.log(`Server ${SERVER_ID} running on port ${PORT}`);
-  console.log(`Data directory: ${DATA_DIR}`);
-  console.log(`Connected to ${PEER_URLS.length} peer(s)`);
+  logger.info('startup.listening', `Server ${SERVER_ID} running on port ${PORT}`, {
+    port: Number(PORT),
+    data_dir: DATA_DIR,
+    peers: PEER_URLS
+  });
 });
 
-export { app, server, replicationHandler, gitServer };
+export {
+  app,
+  server,
+  replicationHandler,
+  gitServer,
+  gitHttpHandler,
+  inDoubtResolver,
+  catchUp,
+  antiEntropy,
+  accessStore,
+  journal
+};
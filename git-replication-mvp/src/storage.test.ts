@@ -57,6 +57,13 @@ describe('RepoStorage', () => {
       await expect(storage.createRepo('user/repo'))
         .rejects.toThrow('Repository already exists');
     });
+
+    it('should refuse ids that leave the owner\'s directory', async () => {
+      for (const repoId of ['alice/../bob/squat', 'alice/../../escape', '../escape', 'alice/.hidden']) {
+        await expect(storage.createRepo(repoId)).rejects.toThrow(`Invalid repository: ${repoId}`);
+      }
+      expect(await storage.listRepos()).toEqual([]);
+    });
   });
 
   describe('getRepoPath', () => {
@@ -84,4 +91,54 @@ describe('RepoStorage', () => {
       expect(repos).toContain('user2/repo1');
     });
   });
+
+  describe('moveRepo', () => {
+    it('should move the repository to its new id', async () => {
+      await storage.createRepo('alice/old');
+
+      await storage.moveRepo('alice/old', 'bob/new');
+
+      expect(await storage.listRepos()).toEqual(['bob/new']);
+    });
+
+    it('should refuse to overwrite an existing repository', async () => {
+      await storage.createRepo('alice/old');
+      await storage.createRepo('bob/new');
+
+      await expect(storage.moveRepo('alice/old', 'bob/new')).rejects.toThrow('Repository already exists');
+      expect(await storage.repoExists('alice/old')).toBe(true);
+    });
+
+    it('should refuse to move a repository out of an owner\'s directory', async () => {
+      await storage.createRepo('alice/old');
+
+      await expect(storage.moveRepo('alice/old', 'bob/../../escape')).rejects.toThrow('Invalid repository: bob/../../escape');
+      expect(await storage.listRepos()).toEqual(['alice/old']);
+    });
+  });
+
+  describe('trash', () => {
+    it('should hide a deleted repository until it is restored', async () => {
+      await storage.createRepo('alice/project');
+
+      await storage.trashRepo('alice/project', 'txn-1');
+      expect(await storage.listRepos()).toEqual([]);
+      expect(await storage.listTrash()).toEqual([
+        expect.objectContaining({ trash_id: 'txn-1', repo_id: 'alice/project' })
+      ]);
+
+      expect(await storage.restoreRepo('txn-1')).toBe('alice/project');
+      expect(await storage.listRepos()).toEqual(['alice/project']);
+      expect(await storage.listTrash()).toEqual([]);
+    });
+
+    it('should purge only repositories deleted before the cutoff', async () => {
+      await storage.createRepo('alice/project');
+      await storage.trashRepo('alice/project', 'txn-1');
+
+      expect(await storage.purgeTrash(new Date(Date.now() - 60000))).toEqual([]);
+      expect(await storage.purgeTrash(new Date(Date.now() + 60000))).toEqual(['txn-1']);
+      expect(await storage.getTrashEntry('txn-1')).toBeUndefined();
+    });
+  });
 });
@@ -1,14 +1,36 @@
 import fs from 'fs/promises';
 import path from 'path';
 import git from 'isomorphic-git';
+import { runGit, GitCommandError } from './git-command';
+
+export const ZERO_SHA = '0'.repeat(40);
+
+export interface RefUpdate {
+  ref: string;
+  old_sha: string;
+  new_sha: string; // ZERO_SHA deletes the ref
+}
+
+// A soft-deleted repository in DATA_DIR/.trash, restorable until purged
+export interface TrashEntry {
+  trash_id: string; // Id of the delete transaction
+  repo_id: string;
+  deleted_at: string;
+}
 
 export class RepoStorage {
   private dataDir: string;
+  // Extra "Name: value" header for fetches from other replicas
+  private remoteHeader: (() => string) | null = null;
 
   constructor(dataDir: string = './data') {
     this.dataDir = dataDir;
   }
 
+  setRemoteHeader(remoteHeader: (() => string) | null): void {
+    this.remoteHeader = remoteHeader;
+  }
+
   async initialize(): Promise<void> {
     await fs.mkdir(this.dataDir, { recursive: true });
   }
@@ -23,21 +45,124 @@ export class RepoStorage {
     }
   }
 
-  async createRepo(repoId: string): Promise<void> {
+  async createRepo(repoId: string, defaultBranch: string = 'main'): Promise<void> {
+    this.checkNamespace(repoId);
+    if (await this.repoExists(repoId)) {
+      throw new Error('Repository already exists');
+    }
+
+    await this.initBareRepo(this.getRepoPath(repoId), defaultBranch);
+  }
+
+  // Create the repository inside a staging area, invisible to listRepos()
+  // and repoExists() until applyStagedRepo() moves it into place.
+  async stageRepo(stagingId: string, defaultBranch: string = 'main'): Promise<void> {
+    await this.initBareRepo(path.join(this.getStagingPath(stagingId), 'repo.git'), defaultBranch);
+  }
+
+  async applyStagedRepo(repoId: string, stagingId: string): Promise<void> {
+    this.checkNamespace(repoId);
     if (await this.repoExists(repoId)) {
       throw new Error('Repository already exists');
     }
 
     const repoPath = this.getRepoPath(repoId);
     await fs.mkdir(path.dirname(repoPath), { recursive: true });
+    await fs.rename(path.join(this.getStagingPath(stagingId), 'repo.git'), repoPath);
+    await this.discardStaging(stagingId);
+  }
 
-    // Initialize bare Git repository
-    await git.init({
-      fs,
-      dir: repoPath,
-      bare: true,
-      defaultBranch: 'main'
-    });
+  // Rename or transfer a repository. A single rename, so a crash leaves it
+  // under either the old or the new id.
+  async moveRepo(repoId: string, newRepoId: string): Promise<void> {
+    this.checkNamespace(newRepoId);
+    if (await this.repoExists(newRepoId)) {
+      throw new Error('Repository already exists');
+    }
+
+    const newPath = this.getRepoPath(newRepoId);
+    await fs.mkdir(path.dirname(newPath), { recursive: true });
+    await fs.rename(this.getRepoPath(repoId), newPath);
+  }
+
+  getTrashPath(trashId: string): string {
+    return path.join(this.dataDir, '.trash', trashId);
+  }
+
+  // Soft delete: move the repository into the trash, where it stays
+  // restorable until purgeTrash() removes it. The entry is written first
+  // and only counts once the repository has been moved in.
+  async trashRepo(repoId: string, trashId: string): Promise<void> {
+    const trashPath = this.getTrashPath(trashId);
+    const entry: TrashEntry = { trash_id: trashId, repo_id: repoId, deleted_at: new Date().toISOString() };
+
+    await fs.mkdir(trashPath, { recursive: true });
+    await fs.writeFile(path.join(trashPath, 'entry.json'), JSON.stringify(entry));
+    await fs.rename(this.getRepoPath(repoId), path.join(trashPath, 'repo.git'));
+  }
+
+  async getTrashEntry(trashId: string): Promise<TrashEntry | undefined> {
+    const trashPath = this.getTrashPath(trashId);
+    try {
+      await fs.access(path.join(trashPath, 'repo.git'));
+      return JSON.parse(await fs.readFile(path.join(trashPath, 'entry.json'), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async listTrash(): Promise<TrashEntry[]> {
+    let trashIds: string[];
+    try {
+      trashIds = await fs.readdir(path.join(this.dataDir, '.trash'));
+    } catch {
+      return [];
+    }
+
+    const entries: TrashEntry[] = [];
+    for (const trashId of trashIds) {
+      const entry = await this.getTrashEntry(trashId);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries.sort((a, b) => a.deleted_at.localeCompare(b.deleted_at));
+  }
+
+  // Move a soft-deleted repository back to its id
+  async restoreRepo(trashId: string): Promise<string> {
+    const entry = await this.getTrashEntry(trashId);
+    if (!entry) {
+      throw new Error(`Not in trash: ${trashId}`);
+    }
+    this.checkNamespace(entry.repo_id);
+    if (await this.repoExists(entry.repo_id)) {
+      throw new Error('Repository already exists');
+    }
+
+    const repoPath = this.getRepoPath(entry.repo_id);
+    await fs.mkdir(path.dirname(repoPath), { recursive: true });
+    await fs.rename(path.join(this.getTrashPath(trashId), 'repo.git'), repoPath);
+    await fs.rm(this.getTrashPath(trashId), { recursive: true, force: true });
+    return entry.repo_id;
+  }
+
+  // Permanently remove repositories deleted before the cutoff; returns
+  // their trash ids
+  async purgeTrash(deletedBefore: Date): Promise<string[]> {
+    const purged: string[] = [];
+    for (const entry of await this.listTrash()) {
+      if (Date.parse(entry.deleted_at) < deletedBefore.getTime()) {
+        await fs.rm(this.getTrashPath(entry.trash_id), { recursive: true, force: true });
+        purged.push(entry.trash_id);
+      }
+    }
+    return purged;
+  }
+
+  // "user/repo", where neither segment may start with a dot (no "..")
+  static isValidRepoId(repoId: string): boolean {
+    return /^[\w-][\w.-]*\/[\w-][\w.-]*$/.test(repoId);
   }
 
   getRepoPath(repoId: string): string {
@@ -45,6 +170,203 @@ export class RepoStorage {
     return path.join(this.dataDir, `${repoId}.git`);
   }
 
+  // A repository is only ever written inside its owner's directory. Ids
+  // from peers (bootstrap listings, replayed journals) reach storage
+  // without the HTTP checks, so every write that places a repository
+  // checks this itself.
+  private checkNamespace(repoId: string): void {
+    const ownerDir = path.resolve(this.dataDir, repoId.split('/')[0]);
+    if (!RepoStorage.isValidRepoId(repoId) || path.dirname(path.resolve(this.getRepoPath(repoId))) !== ownerDir) {
+      throw new Error(`Invalid repository: ${repoId}`);
+    }
+  }
+
+  async listRefs(repoId: string): Promise<Map<string, string>> {
+    const output = await this.git(repoId, ['for-each-ref', '--format=%(objectname) %(refname)']);
+    const refs = new Map<string, string>();
+
+    for (const line of output.toString().split('\n')) {
+      if (line) {
+        const [sha, ref] = line.split(' ');
+        refs.set(ref, sha);
+      }
+    }
+
+    return refs;
+  }
+
+  // The branch HEAD points at, which clones check out
+  async getDefaultBranch(repoId: string): Promise<string> {
+    const head = await this.git(repoId, ['symbolic-ref', 'HEAD']);
+    return head.toString().trim().replace(/^refs\/heads\//, '');
+  }
+
+  async setDefaultBranch(repoId: string, branch: string): Promise<void> {
+    await this.git(repoId, ['symbolic-ref', 'HEAD', `refs/heads/${branch}`]);
+  }
+
+  // Bytes used by the repository's files
+  async getRepoSize(repoId: string): Promise<number> {
+    const sizeOf = async (dir: string): Promise<number> => {
+      let size = 0;
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        size += entry.isDirectory() ? await sizeOf(entryPath) : (await fs.lstat(entryPath)).size;
+      }
+      return size;
+    };
+    return sizeOf(this.getRepoPath(repoId));
+  }
+
+  async hasObject(repoId: string, sha: string): Promise<boolean> {
+    try {
+      await this.git(repoId, ['cat-file', '-e', sha]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async isAncestor(repoId: string, ancestor: string, descendant: string): Promise<boolean> {
+    try {
+      await this.git(repoId, ['merge-base', '--is-ancestor', ancestor, descendant]);
+      return true;
+    } catch (error) {
+      if (error instanceof GitCommandError && error.exitCode === 1) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  getStagingPath(stagingId: string): string {
+    return path.join(this.dataDir, '.staging', stagingId);
+  }
+
+  // Index a received packfile into a quarantine object directory. The
+  // objects stay invisible to the repo until applyStagedObjects() runs.
+  // index-pack verifies the pack checksum and every object hash.
+  async stagePack(repoId: string, stagingId: string, pack: Buffer | null): Promise<void> {
+    await fs.mkdir(path.join(this.getStagingPath(stagingId), 'objects', 'pack'), { recursive: true });
+
+    if (pack) {
+      await this.git(
+        repoId,
+        ['index-pack', '--stdin', '--fix-thin'],
+        pack,
+        this.stagingEnv(repoId, stagingId)
+      );
+    }
+  }
+
+  // Fails unless every tip, and everything reachable from it, is present
+  // in the repo or the staging area.
+  async verifyStagedConnectivity(repoId: string, stagingId: string, shas: string[]): Promise<void> {
+    if (shas.length === 0) {
+      return;
+    }
+
+    await this.git(
+      repoId,
+      ['rev-list', '--objects', '--quiet', ...shas, '--not', '--all'],
+      undefined,
+      this.stagingEnv(repoId, stagingId)
+    );
+  }
+
+  // Move staged packs into the repo's object store and drop the staging area
+  async applyStagedObjects(repoId: string, stagingId: string): Promise<void> {
+    const stagedPackDir = path.join(this.getStagingPath(stagingId), 'objects', 'pack');
+    const repoPackDir = path.join(this.getRepoPath(repoId), 'objects', 'pack');
+    await fs.mkdir(repoPackDir, { recursive: true });
+
+    // Move each .idx after its .pack so readers never see an index without data
+    const files = (await fs.readdir(stagedPackDir)).sort(
+      (a, b) => Number(a.endsWith('.idx')) - Number(b.endsWith('.idx'))
+    );
+    for (const file of files) {
+      await fs.rename(path.join(stagedPackDir, file), path.join(repoPackDir, file));
+    }
+
+    await this.discardStaging(stagingId);
+  }
+
+  async stagingExists(stagingId: string): Promise<boolean> {
+    try {
+      await fs.access(this.getStagingPath(stagingId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async discardStaging(stagingId: string): Promise<void> {
+    await fs.rm(this.getStagingPath(stagingId), { recursive: true, force: true });
+  }
+
+  // Apply all updates in a single git transaction: either every ref moves
+  // or none do, and each ref must still hold its expected old value.
+  async updateRefs(repoId: string, updates: RefUpdate[]): Promise<void> {
+    const input = updates
+      .map(update => `update ${update.ref} ${update.new_sha} ${update.old_sha}\n`)
+      .join('');
+    await this.git(repoId, ['update-ref', '--stdin'], input);
+  }
+
+  // Move refs to the given values whatever they hold now; for replaying
+  // writes that were already committed elsewhere. ZERO_SHA deletes the ref.
+  async setRefs(repoId: string, updates: RefUpdate[]): Promise<void> {
+    const input = updates
+      .map(update => `update ${update.ref} ${update.new_sha}\n`)
+      .join('');
+    await this.git(repoId, ['update-ref', '--stdin'], input);
+  }
+
+  // Download objects (and everything they reference) from another replica
+  // over smart HTTP, without touching any refs
+  async fetchObjects(repoId: string, remoteUrl: string, shas: string[]): Promise<void> {
+    await this.git(repoId, [
+      'fetch', '--quiet', '--no-tags', '--no-write-fetch-head', remoteUrl, ...shas
+    ], undefined, this.remoteEnv());
+  }
+
+  // Make the repository an exact copy of a remote one: every ref is
+  // fetched (with its objects) and refs the remote no longer has are pruned.
+  // With a stagingId, the copy goes into the repository staged there (see
+  // stageRepo()) instead.
+  async mirrorFetch(repoId: string, remoteUrl: string, stagingId?: string): Promise<void> {
+    const gitDir = stagingId ? path.join(this.getStagingPath(stagingId), 'repo.git') : this.getRepoPath(repoId);
+    await runGit([
+      `--git-dir=${gitDir}`,
+      'fetch', '--quiet', '--prune', '--no-tags', '--no-write-fetch-head', remoteUrl, '+refs/*:refs/*'
+    ], { env: this.remoteEnv() });
+  }
+
+  async listRemoteRefs(remoteUrl: string): Promise<Map<string, string>> {
+    const output = await runGit(['ls-remote', '--refs', remoteUrl], { env: this.remoteEnv() });
+    const refs = new Map<string, string>();
+
+    for (const line of output.toString().split('\n')) {
+      const [sha, ref] = line.split('\t');
+      if (sha && ref) {
+        refs.set(ref, sha);
+      }
+    }
+
+    return refs;
+  }
+
+  // Check that every ref points at a complete object graph
+  async verifyRepo(repoId: string): Promise<void> {
+    await this.git(repoId, ['fsck', '--connectivity-only', '--no-dangling', '--no-progress']);
+  }
+
+  // Every object reachable from a ref; fails if any of them is missing
+  async listObjects(repoId: string): Promise<string[]> {
+    const output = await this.git(repoId, ['rev-list', '--objects', '--all']);
+    return output.toString().split('\n').filter(Boolean).map(line => line.slice(0, 40));
+  }
+
   async listRepos(): Promise<string[]> {
     const repos: string[] = [];
 
@@ -62,7 +384,8 @@ export class RepoStorage {
     const entries = await fs.readdir(dir, { withFileTypes: true });
 
     for (const entry of entries) {
-      if (entry.isDirectory()) {
+      // Skip internal state such as the .staging area
+      if (entry.isDirectory() && !entry.name.startsWith('.')) {
         if (entry.name.endsWith('.git')) {
           // Found a repo
           const repoName = entry.name.slice(0, -4); // Remove .git
@@ -76,4 +399,44 @@ export class RepoStorage {
       }
     }
   }
+
+  private async initBareRepo(repoPath: string, defaultBranch: string): Promise<void> {
+    await fs.mkdir(path.dirname(repoPath), { recursive: true });
+
+    // Initialize bare Git repository
+    await git.init({
+      fs,
+      dir: repoPath,
+      bare: true,
+      defaultBranch
+    });
+  }
+
+  private stagingEnv(repoId: string, stagingId: string): NodeJS.ProcessEnv {
+    return {
+      GIT_OBJECT_DIRECTORY: path.resolve(this.getStagingPath(stagingId), 'objects'),
+      GIT_ALTERNATE_OBJECT_DIRECTORIES: path.resolve(this.getRepoPath(repoId), 'objects')
+    };
+  }
+
+  // Passed through the environment, so it stays out of the process list
+  private remoteEnv(): NodeJS.ProcessEnv | undefined {
+    if (!this.remoteHeader) {
+      return undefined;
+    }
+    return {
+      GIT_CONFIG_COUNT: '1',
+      GIT_CONFIG_KEY_0: 'http.extraHeader',
+      GIT_CONFIG_VALUE_0: this.remoteHeader()
+    };
+  }
+
+  private git(
+    repoId: string,
+    args: string[],
+    input?: Buffer | string,
+    env?: NodeJS.ProcessEnv
+  ): Promise<Buffer> {
+    return runGit([`--git-dir=${this.getRepoPath(repoId)}`, ...args], { input, env });
+  }
 }
@@ -1,6 +1,12 @@
-import { server } from './server';
+import type { Server } from 'http';
+import fs from 'fs/promises';
+import path from 'path';
+import { runGit } from './git-command';
 
+// Resolve the server lazily so tests can set environment variables
+// (DATA_DIR, SERVER_ID, ...) before './server' is first loaded.
 export const stopServer = (): Promise<void> => {
+  const { server }: { server: Server } = require('./server');
   return new Promise((resolve) => {
     server.close(() => {
       resolve();
@@ -11,3 +17,26 @@ export const stopServer = (): Promise<void> => {
 export const waitForServer = (ms: number = 1000): Promise<void> => {
   return new Promise(resolve => setTimeout(resolve, ms));
 };
+
+const gitIdentity = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com'];
+
+// Commit a file in a scratch work tree and return the commit with a
+// packfile containing it and everything it references.
+export const createCommitPack = async (
+  workDir: string,
+  file: string = 'README.md',
+  content: string = 'hello\n'
+): Promise<{ commit: string; pack: Buffer }> => {
+  await runGit(['init', '-q', '-b', 'main', workDir]);
+  await fs.writeFile(path.join(workDir, file), content);
+  await runGit([...gitIdentity, '-C', workDir, 'add', file]);
+  await runGit([...gitIdentity, '-C', workDir, 'commit', '-q', '-m', `Update ${file}`]);
+
+  const commit = (await runGit(['-C', workDir, 'rev-parse', 'HEAD'])).toString().trim();
+  const pack = await runGit(
+    ['-C', workDir, 'pack-objects', '--revs', '--stdout', '-q'],
+    { input: `${commit}\n` }
+  );
+
+  return { commit, pack };
+};
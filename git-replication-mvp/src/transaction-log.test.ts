@@ -0,0 +1,99 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { TransactionLog } from './transaction-log';
+
+interface TestRecord {
+  transaction_id: string;
+  status: string;
+}
+
+describe('TransactionLog', () => {
+  const testDataDir = './test-data-transaction-log';
+  const logPath = path.join(testDataDir, '.txlog', 'test.log');
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  const readLines = async (): Promise<string[]> =>
+    (await fs.readFile(logPath, 'utf8')).split('\n').filter(Boolean);
+
+  describe('append and load', () => {
+    it('should replay appended records after a restart', async () => {
+      const log = new TransactionLog<TestRecord>(logPath);
+      await log.load();
+      await log.append({ transaction_id: 'txn-1', status: 'prepared' });
+      await log.append({ transaction_id: 'txn-2', status: 'prepared' });
+      await log.append({ transaction_id: 'txn-1', status: 'committed' });
+
+      const restarted = new TransactionLog<TestRecord>(logPath);
+      const records = await restarted.load();
+
+      expect(records.size).toBe(2);
+      expect(records.get('txn-1')).toEqual({ transaction_id: 'txn-1', status: 'committed' });
+      expect(records.get('txn-2')).toEqual({ transaction_id: 'txn-2', status: 'prepared' });
+    });
+
+    it('should return an empty map when no log exists', async () => {
+      const log = new TransactionLog<TestRecord>(logPath);
+      expect((await log.load()).size).toBe(0);
+    });
+
+    it('should skip a torn record left by a crash', async () => {
+      const log = new TransactionLog<TestRecord>(logPath);
+      await log.load();
+      await log.append({ transaction_id: 'txn-1', status: 'prepared' });
+      await fs.appendFile(logPath, '{"transaction_id":"txn-2","sta');
+
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const records = await new TransactionLog<TestRecord>(logPath).load();
+      warn.mockRestore();
+
+      expect(Array.from(records.keys())).toEqual(['txn-1']);
+    });
+  });
+
+  describe('remove', () => {
+    it('should drop removed transactions on replay and compaction', async () => {
+      const log = new TransactionLog<TestRecord>(logPath);
+      await log.load();
+      await log.append({ transaction_id: 'txn-1', status: 'committed' });
+      await log.append({ transaction_id: 'txn-2', status: 'prepared' });
+      await log.remove('txn-1');
+
+      expect(log.get('txn-1')).toBeUndefined();
+      const records = await new TransactionLog<TestRecord>(logPath).load();
+      expect(Array.from(records.keys())).toEqual(['txn-2']);
+
+      await log.compact();
+      expect(await readLines()).toEqual(['{"transaction_id":"txn-2","status":"prepared"}']);
+    });
+  });
+
+  describe('compact', () => {
+    it('should keep only the latest record per transaction', async () => {
+      const log = new TransactionLog<TestRecord>(logPath);
+      await log.load();
+      await log.append({ transaction_id: 'txn-1', status: 'prepared' });
+      await log.append({ transaction_id: 'txn-1', status: 'committed' });
+      await log.append({ transaction_id: 'txn-2', status: 'aborted' });
+
+      await log.compact();
+
+      const lines = await readLines();
+      expect(lines).toHaveLength(2);
+      const records = await new TransactionLog<TestRecord>(logPath).load();
+      expect(records.get('txn-1')?.status).toBe('committed');
+    });
+
+    it('should compact automatically after the threshold', async () => {
+      const log = new TransactionLog<TestRecord>(logPath, { compactThreshold: 4 });
+      await log.load();
+      for (let i = 0; i < 4; i++) {
+        await log.append({ transaction_id: 'txn-1', status: `state-${i}` });
+      }
+
+      expect(await readLines()).toEqual(['{"transaction_id":"txn-1","status":"state-3"}']);
+    });
+  });
+});
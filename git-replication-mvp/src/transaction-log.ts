@@ -0,0 +1,149 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from './logger';
+
+export interface TransactionLogOptions {
+  // Rewrite the log once this many records have been appended since the
+  // last compaction
+  compactThreshold?: number;
+}
+
+// Appended by remove(); drops the transaction on replay
+const TOMBSTONE = '__removed';
+
+/**
+ * Append-only, fsync'd write-ahead log of transaction state.
+ *
+ * Every state change appends a full JSON record (one per line) and is on
+ * disk before append() resolves. load() replays the file; the last record
+ * for a transaction_id wins. Compaction rewrites the file with only the
+ * latest record per live transaction.
+ */
+export class TransactionLog<T extends { transaction_id: string }> {
+  private filePath: string;
+  private compactThreshold: number;
+  private records: Map<string, T> = new Map();
+  private appendsSinceCompaction = 0;
+  // Serializes appends and compactions so records land in order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, options: TransactionLogOptions = {}) {
+    this.filePath = filePath;
+    this.compactThreshold = options.compactThreshold ?? 1000;
+  }
+
+  async load(): Promise<Map<string, T>> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    this.records.clear();
+
+    let contents = '';
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    for (const line of contents.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      try {
+        const record = JSON.parse(line);
+        if (record[TOMBSTONE]) {
+          this.records.delete(record.transaction_id);
+        } else {
+          this.records.set(record.transaction_id, record as T);
+        }
+      } catch {
+        // A torn write from a crash mid-append; the record was never acknowledged
+        logger.warn('txlog.unreadable', `Skipping unreadable record in ${this.filePath}`);
+      }
+    }
+
+    return new Map(this.records);
+  }
+
+  append(record: T): Promise<void> {
+    return this.enqueue(async () => {
+      await this.write(record);
+      this.records.set(record.transaction_id, record);
+      await this.maybeCompact();
+    });
+  }
+
+  remove(transactionId: string): Promise<void> {
+    return this.enqueue(async () => {
+      if (!this.records.has(transactionId)) {
+        return;
+      }
+      await this.write({ transaction_id: transactionId, [TOMBSTONE]: true });
+      this.records.delete(transactionId);
+      await this.maybeCompact();
+    });
+  }
+
+  compact(): Promise<void> {
+    return this.enqueue(() => this.rewrite());
+  }
+
+  get(transactionId: string): T | undefined {
+    return this.records.get(transactionId);
+  }
+
+  values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  private async write(record: object): Promise<void> {
+    const handle = await fs.open(this.filePath, 'a');
+    try {
+      await handle.write(`${JSON.stringify(record)}\n`);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async maybeCompact(): Promise<void> {
+    this.appendsSinceCompaction++;
+    if (this.appendsSinceCompaction >= this.compactThreshold) {
+      await this.rewrite();
+    }
+  }
+
+  // Write the latest records to a temp file and atomically swap it in
+  private async rewrite(): Promise<void> {
+    const tempPath = `${this.filePath}.compact`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      const lines = this.values().map(record => `${JSON.stringify(record)}\n`);
+      await handle.write(lines.join(''));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.rename(tempPath, this.filePath);
+    await this.syncDirectory();
+    this.appendsSinceCompaction = 0;
+  }
+
+  // Make the rename itself durable
+  private async syncDirectory(): Promise<void> {
+    const dir = await fs.open(path.dirname(this.filePath), 'r');
+    try {
+      await dir.sync();
+    } finally {
+      await dir.close();
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(task);
+    // Keep the queue usable after a failed task; the caller sees the error
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
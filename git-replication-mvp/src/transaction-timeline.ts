@@ -0,0 +1,77 @@
+import axios from 'axios';
+import { Request, Response } from 'express';
+import { LogEvent, Logger } from './logger';
+
+/**
+ * Assembles what every node logged about one transaction: the
+ * coordinator's phases with each peer's answer, and each participant's own
+ * prepare, commit and abort. Nodes only keep the events of their recent
+ * transactions in memory, so older timelines come back partial.
+ */
+export class TransactionTimeline {
+  private serverId: string;
+  private peerUrls: string[];
+  private logger: Logger;
+  private timeout: number = 5000;
+
+  constructor(serverId: string, peerUrls: string[], logger: Logger) {
+    this.serverId = serverId;
+    this.peerUrls = peerUrls;
+    this.logger = logger;
+  }
+
+  // Follow a membership change
+  setPeers(peerUrls: string[]): void {
+    this.peerUrls = peerUrls;
+  }
+
+  // GET /replicate/transactions/:id/events - this node's events (peers)
+  handleEvents(req: Request, res: Response): void {
+    const events = this.logger.timeline(req.params.id);
+    res.status(200).json({
+      transaction_id: req.params.id,
+      server_id: this.serverId,
+      events,
+      count: events.length
+    });
+  }
+
+  // GET /replicate/transactions/:id/timeline - every node's events, in
+  // time order; `nodes` says which servers answered (this one by id,
+  // peers by URL)
+  async handleTimeline(req: Request, res: Response): Promise<void> {
+    const transaction_id = req.params.id;
+    const nodes: Record<string, string> = { [this.serverId]: 'ok' };
+    const events: LogEvent[] = this.logger.timeline(transaction_id);
+
+    const answers = await Promise.allSettled(
+      this.peerUrls.map(peerUrl =>
+        axios.get(`${peerUrl}/replicate/transactions/${encodeURIComponent(transaction_id)}/events`, {
+          timeout: this.timeout
+        })
+      )
+    );
+    answers.forEach((answer, index) => {
+      if (answer.status === 'fulfilled') {
+        nodes[this.peerUrls[index]] = 'ok';
+        events.push(...answer.value.data.events);
+      } else {
+        nodes[this.peerUrls[index]] = `unreachable: ${answer.reason.message}`;
+      }
+    });
+    events.sort((a, b) => a.time.localeCompare(b.time));
+
+    if (events.length === 0) {
+      res.status(404).json({ error: `No events for transaction: ${transaction_id}`, nodes });
+      return;
+    }
+
+    res.status(200).json({
+      transaction_id,
+      correlation_id: events.find(event => event.correlation_id)?.correlation_id,
+      events,
+      count: events.length,
+      nodes
+    });
+  }
+}